@@ -1,8 +1,17 @@
-import { access, mkdir, readFile } from "node:fs/promises";
-import { join } from "node:path";
+import { dirname, join, resolve } from "node:path";
 import chalk from "chalk";
 import prompts from "prompts";
 import { addDockerCompose } from "./injections";
+import {
+	createManifest,
+	getManifestPackages,
+	type MonorepoManifest,
+	readManifest,
+	recordWorkspace,
+	resolveScope,
+	writeManifest,
+	writeWorkspaceBase,
+} from "./lib/manifest";
 import {
 	createOrmConfig,
 	getDrizzleConfigContent,
@@ -16,11 +25,34 @@ import {
 	getPrismaSchemaContent,
 	getPrismaSeedContent,
 } from "./lib/orm-setup";
+import { runScaffold } from "./lib/scaffold";
 import { createAppWithProcessing, createPackageWithProcessing, getPackageTemplateChoices } from "./lib/shared-setup";
+import {
+	askTemplatePrompts,
+	checkUnusedAnswerPresets,
+	parseAnswerPresets,
+	type TemplateAnswerPresets,
+} from "./lib/template-prompts";
+import { resolveTemplateSource } from "./lib/template-sources";
+import {
+	findMonorepoRoot,
+	findWorkspaces,
+	getWorkspaceGlobFolders,
+	getWorkspacePath,
+	matchWorkspaceGlobs,
+	normalizeWorkspaceDirectory,
+	readPackageJson,
+	referencesPath,
+	WORKSPACE_DIRECTORIES,
+	type WorkspaceInfo,
+	type WorkspaceKind,
+} from "./lib/workspaces";
 import type { TemplatesConfig } from "./templates";
-import { getTemplateConfig } from "./templates";
-import type { AppTemplate, OrmConfig, PackageTemplate } from "./types";
-import { writeJsonFile } from "./utils/file";
+import { getDefaultWorkspaceName, getTemplateConfig } from "./templates";
+import type { AddCommandOptions, AppTemplate, OrmConfig, PackageTemplate } from "./types";
+import { patchJsonFile, writeJsonFile } from "./utils/file";
+import { access, mkdir, readFile, writeFile } from "./utils/fs";
+import { parseJsonc } from "./utils/jsonc";
 
 interface PackageJsonStructure {
 	workspaces?: string[];
@@ -33,11 +65,15 @@ interface PackageJsonStructure {
 interface MonorepoStructure {
 	rootPath: string;
 	packageJson: PackageJsonStructure;
-	hasAppsDir: boolean;
-	hasPackagesDir: boolean;
+	workspaces: WorkspaceInfo[];
 	apps: string[];
 	packages: string[];
+	/** Folder given with --dir for new apps and packages */
+	directory?: string;
+	/** npm scope of the monorepo's packages, without the "@" */
+	scope: string;
 	hasOrmSetup: boolean;
+	manifest: MonorepoManifest;
 }
 
 interface AddOptions {
@@ -53,16 +89,18 @@ function getProjectNameFromPath(path: string): string {
 	return path.split("/").pop() || "monorepo";
 }
 
-export async function addToMonorepo(): Promise<void> {
+export async function addToMonorepo(commandOptions: AddCommandOptions = {}): Promise<void> {
 	console.log(chalk.blue("🔧 Add to Existing Monorepo"));
 	console.log(chalk.gray("Add apps, packages, or ORM setup to your existing Bun monorepo\n"));
 
+	const presets = parseAnswerPresets(commandOptions.set);
+
 	// Validate we're in a Bun monorepo
-	const monorepoInfo = await validateMonorepoStructure();
+	const monorepoInfo = await validateMonorepoStructure(commandOptions);
 
 	if (!monorepoInfo) {
 		console.log(chalk.red("❌ Not a valid Bun monorepo"));
-		console.log(chalk.gray("This command must be run from the root of a Bun monorepo."));
+		console.log(chalk.gray("Run this command inside a Bun monorepo, or point to one with --cwd <path>."));
 		console.log(chalk.gray("Create a new monorepo with: bun create bun-monorepo"));
 		process.exit(1);
 	}
@@ -73,8 +111,16 @@ export async function addToMonorepo(): Promise<void> {
 	console.log(chalk.gray(`📦 Existing packages: ${monorepoInfo.packages.join(", ") || "none"}`));
 	console.log(chalk.gray(`🗄️ ORM setup: ${monorepoInfo.hasOrmSetup ? "configured" : "not configured"}\n`));
 
-	const options = await promptAddOptions(monorepoInfo);
-	await addToExistingMonorepo(monorepoInfo, options);
+	const options = await promptAddOptions(monorepoInfo, presets);
+	checkUnusedAnswerPresets(presets);
+
+	await runScaffold(
+		getAddTargets(monorepoInfo.rootPath, options),
+		commandOptions,
+		() => addToExistingMonorepo(monorepoInfo, options),
+		monorepoInfo.rootPath,
+	);
+	if (commandOptions.dryRun) return;
 
 	console.log(chalk.green("\n✅ Successfully added to monorepo!"));
 	console.log(chalk.gray("📦 Run the following commands to finalize:"));
@@ -82,44 +128,120 @@ export async function addToMonorepo(): Promise<void> {
 	console.log(chalk.yellow("  bun run format"));
 }
 
-async function validateMonorepoStructure(): Promise<MonorepoStructure | null> {
+/**
+ * Workspace directories the interactive add flow will scaffold into
+ */
+function getAddTargets(rootPath: string, options: AddOptions): string[] {
+	const targets = [
+		...options.addApps.map((app) => join(rootPath, getWorkspacePath("app", app))),
+		...options.addPackages.map((pkg) => join(rootPath, getWorkspacePath("package", pkg))),
+	];
+	if (options.addOrmSetup && options.addOrmSetup.type !== "none") {
+		targets.push(join(rootPath, getWorkspacePath("package", { name: "db" })));
+	}
+	return [...new Set(targets)];
+}
+
+/**
+ * Inspect the monorepo containing `cwd` (found by walking up to the nearest package.json with workspaces);
+ * its workspaces are the directories matched by the root workspaces globs
+ */
+async function validateMonorepoStructure(commandOptions: AddCommandOptions): Promise<MonorepoStructure | null> {
+	let rootPath: string;
+	let packageJson: PackageJsonStructure;
+	let workspaces: WorkspaceInfo[];
 	try {
-		const rootPath = process.cwd();
+		rootPath = await findMonorepoRoot(commandOptions.cwd);
+		packageJson = await readPackageJson(rootPath);
+		workspaces = await findWorkspaces(rootPath);
+	} catch {
+		return null;
+	}
 
-		// Check for package.json
-		const packageJsonPath = join(rootPath, "package.json");
-		await access(packageJsonPath);
-		const packageJsonContent = await readFile(packageJsonPath, "utf-8");
-		const packageJson = JSON.parse(packageJsonContent);
+	const directory =
+		commandOptions.dir === undefined ? undefined : normalizeWorkspaceDirectory(commandOptions.dir, "--dir");
 
-		// Validate it's a monorepo (has workspaces)
-		if (!packageJson.workspaces || !Array.isArray(packageJson.workspaces)) {
-			return null;
-		}
+	// Monorepos created before the manifest existed get one inferred from disk
+	const existingManifest = await readManifest(rootPath);
+	const manifest = existingManifest ?? inferManifest(rootPath, workspaces);
+	const scope = resolveScope(rootPath, existingManifest, workspaces);
+	manifest.scope = scope;
+	const hasOrmSetup = existingManifest ? manifest.orm !== undefined : await hasExistingOrmSetup(rootPath);
 
-		// Check for apps and packages directories
-		const hasAppsDir = await directoryExists(join(rootPath, "apps"));
-		const hasPackagesDir = await directoryExists(join(rootPath, "packages"));
-
-		// Get existing apps and packages
-		const apps = hasAppsDir ? await getDirectoryContents(join(rootPath, "apps")) : [];
-		const packages = hasPackagesDir ? await getDirectoryContents(join(rootPath, "packages")) : [];
-
-		// Check for ORM setup (basic detection)
-		const hasOrmSetup = await hasExistingOrmSetup(rootPath);
-
-		return {
-			rootPath,
-			packageJson,
-			hasAppsDir,
-			hasPackagesDir,
-			apps,
-			packages,
-			hasOrmSetup,
-		};
-	} catch {
-		return null;
+	return {
+		rootPath,
+		packageJson,
+		workspaces,
+		apps: workspaces.filter((workspace) => workspace.type === "app").map((workspace) => workspace.name),
+		packages: workspaces.filter((workspace) => workspace.type === "package").map((workspace) => workspace.name),
+		directory,
+		scope,
+		hasOrmSetup,
+		manifest,
+	};
+}
+
+/**
+ * Folder for new workspaces of a kind: the --dir folder, else the one holding most existing workspaces of that kind,
+ * else a folder of the root workspaces globs ("services/*") holding none of the other kind. apps/ or packages/ (added
+ * to the globs) are only used when the globs offer no such folder, and several of them need a --dir to choose.
+ */
+function getWorkspaceDirectory(monorepoInfo: MonorepoStructure, type: WorkspaceKind): string {
+	if (monorepoInfo.directory) return monorepoInfo.directory;
+
+	const counts = new Map<string, number>();
+	for (const workspace of monorepoInfo.workspaces) {
+		const folder = dirname(workspace.path);
+		if (workspace.type === type && folder !== ".") counts.set(folder, (counts.get(folder) ?? 0) + 1);
 	}
+	const [mostUsed] = [...counts].sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b));
+	if (mostUsed) return mostUsed[0];
+
+	const otherFolders = new Set(
+		monorepoInfo.workspaces.filter((workspace) => workspace.type !== type).map((workspace) => dirname(workspace.path)),
+	);
+	const candidates = getWorkspaceGlobFolders(monorepoInfo.packageJson.workspaces ?? []).filter(
+		(folder) => !otherFolders.has(folder),
+	);
+	const defaultDirectory = WORKSPACE_DIRECTORIES[type];
+	if (candidates.length === 0 || candidates.includes(defaultDirectory)) return defaultDirectory;
+	if (candidates.length === 1) return candidates[0] as string;
+
+	throw new Error(
+		`No ${type} exists yet to tell which workspace folder new ones belong in (${candidates.join(", ")}); choose one with --dir <folder>`,
+	);
+}
+
+/**
+ * Build a manifest for a monorepo without one; templates of existing workspaces cannot be known
+ */
+function inferManifest(rootPath: string, workspaces: WorkspaceInfo[]): MonorepoManifest {
+	const manifest = createManifest(getProjectNameFromPath(rootPath), resolveScope(rootPath, null, workspaces));
+	for (const { name, type, path } of workspaces) {
+		const category = type === "package" ? "packages" : "unknown";
+		recordWorkspace(manifest, type, { name, template: "unknown", category, directory: dirname(path) });
+	}
+	return manifest;
+}
+
+/**
+ * Record newly generated workspaces (and ORM setup) in the manifest and save it
+ */
+async function updateManifest(
+	monorepoInfo: MonorepoStructure,
+	apps: AppTemplate[],
+	packages: PackageTemplate[],
+	orm?: OrmConfig,
+): Promise<void> {
+	const { manifest } = monorepoInfo;
+	if (orm && orm.type !== "none") manifest.orm = orm;
+
+	const records = [
+		...packages.map((pkg) => recordWorkspace(manifest, "package", pkg)),
+		...apps.map((app) => recordWorkspace(manifest, "app", app)),
+	];
+	await writeManifest(monorepoInfo.rootPath, manifest);
+	for (const record of records) await writeWorkspaceBase(monorepoInfo.rootPath, record.path);
 }
 
 async function directoryExists(path: string): Promise<boolean> {
@@ -131,16 +253,6 @@ async function directoryExists(path: string): Promise<boolean> {
 	}
 }
 
-async function getDirectoryContents(path: string): Promise<string[]> {
-	try {
-		const { readdir } = await import("node:fs/promises");
-		const contents = await readdir(path, { withFileTypes: true });
-		return contents.filter((item) => item.isDirectory()).map((item) => item.name);
-	} catch {
-		return [];
-	}
-}
-
 async function hasExistingOrmSetup(rootPath: string): Promise<boolean> {
 	// Check for common ORM files
 	const ormFiles = ["drizzle.config.ts", "prisma/schema.prisma", "src/lib/db.ts"];
@@ -154,7 +266,7 @@ async function hasExistingOrmSetup(rootPath: string): Promise<boolean> {
 	return false;
 }
 
-async function promptAddOptions(monorepoInfo: MonorepoStructure): Promise<AddOptions> {
+async function promptAddOptions(monorepoInfo: MonorepoStructure, presets: TemplateAnswerPresets): Promise<AddOptions> {
 	const templateConfig = getTemplateConfig();
 
 	const initialResponse = await prompts([
@@ -185,6 +297,7 @@ async function promptAddOptions(monorepoInfo: MonorepoStructure): Promise<AddOpt
 
 	// Handle apps
 	if (initialResponse.whatToAdd.includes("apps")) {
+		const directory = getWorkspaceDirectory(monorepoInfo, "app");
 		const appsResponse = await prompts({
 			type: "text",
 			name: "appNames",
@@ -198,13 +311,14 @@ async function promptAddOptions(monorepoInfo: MonorepoStructure): Promise<AddOpt
 			.filter(Boolean);
 
 		for (const appName of appNames) {
-			const app = await promptAppTemplate(appName, templateConfig);
-			addApps.push(app);
+			const app = await promptAppTemplate(appName, templateConfig, presets);
+			addApps.push({ ...app, directory });
 		}
 	}
 
 	// Handle template packages
 	if (initialResponse.whatToAdd.includes("packages")) {
+		const directory = getWorkspaceDirectory(monorepoInfo, "package");
 		const packageResponse = await prompts({
 			type: "multiselect",
 			name: "selectedPackages",
@@ -215,16 +329,20 @@ async function promptAddOptions(monorepoInfo: MonorepoStructure): Promise<AddOpt
 
 		const selectedPackageTemplates = packageResponse.selectedPackages || [];
 		for (const templateKey of selectedPackageTemplates) {
-			addPackages.push({
-				name: templateKey,
+			const pkg: PackageTemplate = {
+				name: getDefaultWorkspaceName(templateKey),
 				template: templateKey,
 				category: "packages",
-			});
+				directory,
+			};
+			await askTemplatePrompts("package", pkg, presets, true);
+			addPackages.push(pkg);
 		}
 	}
 
 	// Handle blank packages
 	if (initialResponse.whatToAdd.includes("blankPackages")) {
+		const directory = getWorkspaceDirectory(monorepoInfo, "package");
 		const blankPackagesResponse = await prompts({
 			type: "text",
 			name: "blankPackageNames",
@@ -243,6 +361,7 @@ async function promptAddOptions(monorepoInfo: MonorepoStructure): Promise<AddOpt
 					name: packageName,
 					template: "blank",
 					category: "blank",
+					directory,
 				});
 			}
 		}
@@ -260,7 +379,11 @@ async function promptAddOptions(monorepoInfo: MonorepoStructure): Promise<AddOpt
 	};
 }
 
-async function promptAppTemplate(appName: string, templateConfig: TemplatesConfig): Promise<AppTemplate> {
+async function promptAppTemplate(
+	appName: string,
+	templateConfig: TemplatesConfig,
+	presets: TemplateAnswerPresets,
+): Promise<AppTemplate> {
 	console.log(chalk.cyan(`\nConfiguring app: ${appName}`));
 
 	let selectedTemplate: AppTemplate | null = null;
@@ -314,6 +437,7 @@ async function promptAppTemplate(appName: string, templateConfig: TemplatesConfi
 		}
 	}
 
+	await askTemplatePrompts("app", selectedTemplate, presets, true);
 	return selectedTemplate;
 }
 
@@ -352,15 +476,6 @@ async function addToExistingMonorepo(monorepoInfo: MonorepoStructure, options: A
 	const { rootPath } = monorepoInfo;
 	const { addApps, addPackages, addOrmSetup } = options;
 
-	// Create directories if needed
-	if (addApps.length > 0 && !monorepoInfo.hasAppsDir) {
-		await mkdir(join(rootPath, "apps"), { recursive: true });
-	}
-
-	if (addPackages.length > 0 && !monorepoInfo.hasPackagesDir) {
-		await mkdir(join(rootPath, "packages"), { recursive: true });
-	}
-
 	// Add db package to packages list if ORM is being added
 	const finalPackages = [...addPackages];
 	if (addOrmSetup && addOrmSetup.type !== "none") {
@@ -373,31 +488,29 @@ async function addToExistingMonorepo(monorepoInfo: MonorepoStructure, options: A
 				category: "packages",
 			});
 		}
-
-		// Ensure packages directory exists for db package
-		if (!monorepoInfo.hasPackagesDir) {
-			await mkdir(join(rootPath, "packages"), { recursive: true });
-		}
 	}
 
 	// Update package.json workspaces
-	await updatePackageJsonWorkspaces(monorepoInfo, addApps.length > 0, finalPackages.length > 0, addOrmSetup);
-
-	// Create apps
+	const newPaths = [
+		...addApps.map((app) => getWorkspacePath("app", app)),
+		...finalPackages.map((pkg) => getWorkspacePath("package", pkg)),
+	];
+	await updatePackageJsonWorkspaces(monorepoInfo, newPaths, addOrmSetup);
+
+	// Create apps, wired to both existing and new packages
+	const orm = addOrmSetup && addOrmSetup.type !== "none" ? addOrmSetup : monorepoInfo.manifest.orm;
+	const allPackages = [
+		...getManifestPackages(monorepoInfo.manifest).filter((pkg) => !finalPackages.some((p) => p.name === pkg.name)),
+		...finalPackages,
+	];
 	for (const app of addApps) {
-		await createApp(
-			rootPath,
-			app,
-			[...monorepoInfo.packages, ...finalPackages.map((p) => p.name)],
-			addOrmSetup,
-			finalPackages,
-		);
+		await createApp(monorepoInfo, app, allPackages, orm);
 	}
 
 	// Create packages (excluding db package as it will be created by createOrmSetup)
 	for (const pkg of finalPackages) {
 		if (pkg.name !== "db") {
-			await createPackage(rootPath, pkg);
+			await createPackage(monorepoInfo, pkg);
 		}
 	}
 
@@ -409,26 +522,34 @@ async function addToExistingMonorepo(monorepoInfo: MonorepoStructure, options: A
 
 	// Update TypeScript references (include db package if ORM was added)
 	await updateTsConfigReferences(monorepoInfo, addApps, finalPackages);
+
+	await updateManifest(monorepoInfo, addApps, finalPackages, addOrmSetup);
+}
+
+/**
+ * Make the root workspaces globs pick up new workspace paths, adding `<folder>/*` for folders they miss
+ */
+function addWorkspaceGlobs(packageJson: PackageJsonStructure, paths: string[]): void {
+	const workspaces = [...(packageJson.workspaces ?? [])];
+
+	for (const path of paths) {
+		const { included, excludedBy } = matchWorkspaceGlobs(path, workspaces);
+		if (excludedBy) throw new Error(`${path} is excluded by the workspaces glob '${excludedBy}' in package.json`);
+		if (!included) workspaces.push(`${dirname(path)}/*`);
+	}
+
+	packageJson.workspaces = workspaces;
 }
 
 async function updatePackageJsonWorkspaces(
 	monorepoInfo: MonorepoStructure,
-	hasNewApps: boolean,
-	hasNewPackages: boolean,
+	newPaths: string[],
 	ormSetup?: OrmConfig,
 ): Promise<void> {
 	const { rootPath, packageJson } = monorepoInfo;
 
-	// Ensure workspaces include necessary paths
-	const workspaces = new Set(packageJson.workspaces || []);
-
-	if (hasNewApps || monorepoInfo.hasAppsDir) {
-		workspaces.add("apps/*");
-	}
-
-	if (hasNewPackages || monorepoInfo.hasPackagesDir) {
-		workspaces.add("packages/*");
-	}
+	// Ensure workspaces include the new paths
+	addWorkspaceGlobs(packageJson, newPaths);
 
 	// Add ORM dependencies if needed
 	if (ormSetup && ormSetup.type !== "none") {
@@ -451,36 +572,31 @@ async function updatePackageJsonWorkspaces(
 		};
 	}
 
-	packageJson.workspaces = Array.from(workspaces);
-
-	await writeJsonFile(join(rootPath, "package.json"), packageJson);
+	await patchJsonFile(join(rootPath, "package.json"), packageJson);
 }
 
 async function createApp(
-	rootPath: string,
+	monorepoInfo: MonorepoStructure,
 	app: AppTemplate,
-	existingPackages: string[],
+	packages: PackageTemplate[],
 	orm?: OrmConfig,
-	allPackages?: PackageTemplate[],
 ): Promise<void> {
+	const { rootPath, scope } = monorepoInfo;
 	// Change to parent directory to call createAppWithProcessing correctly
 	const originalCwd = process.cwd();
 	const parentDir = join(rootPath, "..");
 	const projectName = getProjectNameFromPath(rootPath);
 
-	// Convert existing packages to PackageTemplate format for processing
-	const packagesForProcessing =
-		allPackages || existingPackages.map((name) => ({ name, template: "unknown", category: "packages" }));
-
 	try {
 		process.chdir(parentDir);
-		await createAppWithProcessing(projectName, app, packagesForProcessing, orm);
+		await createAppWithProcessing(projectName, scope, app, packages, orm);
 	} finally {
 		process.chdir(originalCwd);
 	}
 }
 
-async function createPackage(rootPath: string, pkg: PackageTemplate): Promise<void> {
+async function createPackage(monorepoInfo: MonorepoStructure, pkg: PackageTemplate): Promise<void> {
+	const { rootPath, scope } = monorepoInfo;
 	// Change to parent directory to call createPackageWithProcessing correctly
 	const originalCwd = process.cwd();
 	const parentDir = join(rootPath, "..");
@@ -488,7 +604,7 @@ async function createPackage(rootPath: string, pkg: PackageTemplate): Promise<vo
 
 	try {
 		process.chdir(parentDir);
-		await createPackageWithProcessing(projectName, pkg);
+		await createPackageWithProcessing(projectName, scope, pkg);
 	} finally {
 		process.chdir(originalCwd);
 	}
@@ -504,28 +620,29 @@ async function updateTsConfigReferences(
 
 	try {
 		const tsConfigContent = await readFile(tsConfigPath, "utf-8");
-		const tsConfig = JSON.parse(tsConfigContent);
-
-		// Add new references
-		const references = tsConfig.references || [];
-
-		for (const pkg of newPackages) {
-			references.push({ path: `packages/${pkg.name}` });
-		}
-
-		for (const app of newApps) {
-			references.push({ path: `apps/${app.name}` });
+		const tsConfig = parseJsonc<{ references?: unknown[] }>(tsConfigContent);
+
+		// Add new references, skipping directories that are already referenced
+		const references: unknown[] = tsConfig.references || [];
+		const paths = [
+			...newPackages.map((pkg) => getWorkspacePath("package", pkg)),
+			...newApps.map((app) => getWorkspacePath("app", app)),
+		];
+
+		for (const path of paths) {
+			if (references.some((reference) => referencesPath(reference, rootPath, join(rootPath, path)))) continue;
+			references.push({ path });
 		}
 
 		tsConfig.references = references;
-		await writeJsonFile(tsConfigPath, tsConfig);
+		await patchJsonFile(tsConfigPath, tsConfig);
 	} catch {
 		// If tsconfig.json doesn't exist or is invalid, create a basic one
 		const tsConfig = {
 			files: [],
 			references: [
-				...newPackages.map((pkg) => ({ path: `packages/${pkg.name}` })),
-				...newApps.map((app) => ({ path: `apps/${app.name}` })),
+				...newPackages.map((pkg) => ({ path: getWorkspacePath("package", pkg) })),
+				...newApps.map((app) => ({ path: getWorkspacePath("app", app) })),
 			],
 		};
 		await writeJsonFile(tsConfigPath, tsConfig);
@@ -568,7 +685,7 @@ function getCategoryTemplateChoices(
 	if (!category) throw new Error(`Category '${categoryKey}' not found in templates config`);
 
 	return Object.entries(category.templates).map(([templateKey, template]) => ({
-		title: template.name,
+		title: template.namespace ? `${template.name} (${template.namespace})` : template.name,
 		description: template.description,
 		value: templateKey,
 	}));
@@ -583,8 +700,6 @@ async function createOrmSetup(rootPath: string, orm: OrmConfig): Promise<void> {
 }
 
 async function createDrizzleSetup(rootPath: string, database: "postgresql" | "mysql" | "sqlite"): Promise<void> {
-	const { mkdir, writeFile } = await import("node:fs/promises");
-
 	await mkdir(join(rootPath, "src", "lib"), { recursive: true });
 
 	const dbContent = getDrizzleDbContent(database);
@@ -601,8 +716,6 @@ async function createDrizzleSetup(rootPath: string, database: "postgresql" | "my
 }
 
 async function createPrismaSetup(rootPath: string, database: "postgresql" | "mysql" | "sqlite"): Promise<void> {
-	const { mkdir, writeFile } = await import("node:fs/promises");
-
 	await mkdir(join(rootPath, "src", "lib"), { recursive: true });
 
 	const clientContent = getPrismaClientContent();
@@ -619,22 +732,30 @@ async function createPrismaSetup(rootPath: string, database: "postgresql" | "mys
 	await writeFile(join(rootPath, ".env.example"), envContent, { encoding: "utf-8" });
 }
 
-export async function addSinglePackage(packageName?: string, packageTemplate?: string): Promise<void> {
+export async function addSinglePackage(
+	packageName?: string,
+	packageTemplate?: string,
+	commandOptions: AddCommandOptions = {},
+): Promise<void> {
 	console.log(chalk.blue("📦 Add Package"));
 	console.log(chalk.gray("Add a single package to your existing Bun monorepo\n"));
 
+	const presets = parseAnswerPresets(commandOptions.set);
+
 	// Validate we're in a Bun monorepo
-	const monorepoInfo = await validateMonorepoStructure();
+	const monorepoInfo = await validateMonorepoStructure(commandOptions);
 
 	if (!monorepoInfo) {
 		console.log(chalk.red("❌ Not a valid Bun monorepo"));
-		console.log(chalk.gray("This command must be run from the root of a Bun monorepo."));
+		console.log(chalk.gray("Run this command inside a Bun monorepo, or point to one with --cwd <path>."));
 		process.exit(1);
 	}
 
 	console.log(chalk.green("✅ Valid Bun monorepo detected"));
 	console.log(chalk.gray(`📁 Root: ${monorepoInfo.rootPath}\n`));
 
+	// Before any question, so a missing --dir fails fast
+	const directory = getWorkspaceDirectory(monorepoInfo, "package");
 	const templateConfig = getTemplateConfig();
 
 	// If packageName is provided, use it directly
@@ -643,9 +764,10 @@ export async function addSinglePackage(packageName?: string, packageTemplate?: s
 	if (packageName) {
 		// If template is specified, use it directly
 		if (packageTemplate) {
-			// Validate the template exists
+			// Validate the template exists, fetching git and tarball sources first
+			const template = await resolveTemplateSource(packageTemplate, "packages", resolve(commandOptions.cwd ?? "."));
 			const packageChoices = getPackageTemplateChoices(templateConfig);
-			const foundChoice = packageChoices.find((choice) => choice.value === packageTemplate);
+			const foundChoice = packageChoices.find((choice) => choice.value === template);
 
 			if (!foundChoice) {
 				console.log(chalk.red(`❌ Package template '${packageTemplate}' not found`));
@@ -658,7 +780,7 @@ export async function addSinglePackage(packageName?: string, packageTemplate?: s
 
 			packageToAdd = {
 				name: packageName,
-				template: packageTemplate,
+				template,
 				category: "packages",
 			};
 		} else {
@@ -737,30 +859,49 @@ export async function addSinglePackage(packageName?: string, packageTemplate?: s
 		}
 	}
 
+	packageToAdd.directory = directory;
+	await askTemplatePrompts("package", packageToAdd, presets, process.env.NON_INTERACTIVE !== "true");
+	checkUnusedAnswerPresets(presets);
+
 	// Create the package
-	await addSinglePackageToMonorepo(monorepoInfo, packageToAdd);
+	await runScaffold(
+		[join(monorepoInfo.rootPath, getWorkspacePath("package", packageToAdd))],
+		commandOptions,
+		() => addSinglePackageToMonorepo(monorepoInfo, packageToAdd),
+		monorepoInfo.rootPath,
+	);
+	if (commandOptions.dryRun) return;
 
 	console.log(chalk.green(`\n✅ Successfully added package: ${packageToAdd.name}`));
 	console.log(chalk.gray("📦 Run the following commands to finalize:"));
 	console.log(chalk.yellow("  bun install"));
 }
 
-export async function addSingleApp(appName?: string, appTemplateName?: string): Promise<void> {
+export async function addSingleApp(
+	appName?: string,
+	appTemplateName?: string,
+	commandOptions: AddCommandOptions = {},
+): Promise<void> {
 	console.log(chalk.blue("🚀 Add App"));
 	console.log(chalk.gray("Add a single app to your existing Bun monorepo\n"));
 
+	const presets = parseAnswerPresets(commandOptions.set);
+
 	// Validate we're in a Bun monorepo
-	const monorepoInfo = await validateMonorepoStructure();
+	const monorepoInfo = await validateMonorepoStructure(commandOptions);
 
 	if (!monorepoInfo) {
 		console.log(chalk.red("❌ Not a valid Bun monorepo"));
-		console.log(chalk.gray("This command must be run from the root of a Bun monorepo."));
+		console.log(chalk.gray("Run this command inside a Bun monorepo, or point to one with --cwd <path>."));
 		process.exit(1);
 	}
 
 	console.log(chalk.green("✅ Valid Bun monorepo detected"));
 	console.log(chalk.gray(`📁 Root: ${monorepoInfo.rootPath}\n`));
 
+	// Before any question, so a missing --dir fails fast
+	const directory = getWorkspaceDirectory(monorepoInfo, "app");
+
 	// Get app name
 	let finalAppName: string;
 	if (appName) {
@@ -785,14 +926,15 @@ export async function addSingleApp(appName?: string, appTemplateName?: string):
 	let appTemplate: AppTemplate;
 
 	if (appTemplateName) {
-		// Try to find the template in any category
+		// Try to find the template in any category, fetching git and tarball sources first
+		const template = await resolveTemplateSource(appTemplateName, "apps", resolve(commandOptions.cwd ?? "."));
 		let foundTemplate: { template: string; category: string } | undefined;
 
 		for (const [categoryKey, category] of Object.entries(templateConfig.categories)) {
 			if (categoryKey === "packages") continue; // Skip package templates
 
-			if (category.templates[appTemplateName]) {
-				foundTemplate = { template: appTemplateName, category: categoryKey };
+			if (category.templates[template]) {
+				foundTemplate = { template, category: categoryKey };
 				break;
 			}
 		}
@@ -814,29 +956,39 @@ export async function addSingleApp(appName?: string, appTemplateName?: string):
 			template: foundTemplate.template,
 			category: foundTemplate.category,
 		};
+		await askTemplatePrompts("app", appTemplate, presets, process.env.NON_INTERACTIVE !== "true");
 	} else {
 		// Interactive template selection
-		appTemplate = await promptAppTemplate(finalAppName, templateConfig);
+		appTemplate = await promptAppTemplate(finalAppName, templateConfig, presets);
 	}
+	checkUnusedAnswerPresets(presets);
+
+	appTemplate.directory = directory;
 
 	// Create the app
-	await addSingleAppToMonorepo(monorepoInfo, appTemplate);
+	await runScaffold(
+		[join(monorepoInfo.rootPath, getWorkspacePath("app", appTemplate))],
+		commandOptions,
+		() => addSingleAppToMonorepo(monorepoInfo, appTemplate),
+		monorepoInfo.rootPath,
+	);
+	if (commandOptions.dryRun) return;
 
 	console.log(chalk.green(`\n✅ Successfully added app: ${appTemplate.name}`));
 	console.log(chalk.gray("📦 Run the following commands to finalize:"));
 	console.log(chalk.yellow("  bun install"));
 }
 
-export async function addOrmSetup(): Promise<void> {
+export async function addOrmSetup(commandOptions: AddCommandOptions = {}): Promise<void> {
 	console.log(chalk.blue("🗄️ Add ORM Setup"));
 	console.log(chalk.gray("Add database ORM configuration to your existing Bun monorepo\n"));
 
 	// Validate we're in a Bun monorepo
-	const monorepoInfo = await validateMonorepoStructure();
+	const monorepoInfo = await validateMonorepoStructure(commandOptions);
 
 	if (!monorepoInfo) {
 		console.log(chalk.red("❌ Not a valid Bun monorepo"));
-		console.log(chalk.gray("This command must be run from the root of a Bun monorepo."));
+		console.log(chalk.gray("Run this command inside a Bun monorepo, or point to one with --cwd <path>."));
 		process.exit(1);
 	}
 
@@ -863,7 +1015,13 @@ export async function addOrmSetup(): Promise<void> {
 	const ormConfig = await promptOrmSetup();
 
 	// Add ORM setup
-	await addOrmToMonorepo(monorepoInfo, ormConfig);
+	await runScaffold(
+		[join(monorepoInfo.rootPath, getWorkspacePath("package", { name: "db" }))],
+		commandOptions,
+		() => addOrmToMonorepo(monorepoInfo, ormConfig),
+		monorepoInfo.rootPath,
+	);
+	if (commandOptions.dryRun) return;
 
 	console.log(chalk.green("\n✅ Successfully added ORM setup!"));
 	console.log(chalk.gray("📦 Run the following commands to finalize:"));
@@ -882,49 +1040,34 @@ async function addSinglePackageToMonorepo(
 	monorepoInfo: MonorepoStructure,
 	packageToAdd: PackageTemplate,
 ): Promise<void> {
-	const { rootPath } = monorepoInfo;
-
-	// Create packages directory if needed
-	if (!monorepoInfo.hasPackagesDir) {
-		await mkdir(join(rootPath, "packages"), { recursive: true });
-	}
-
 	// Update package.json workspaces
-	await updatePackageJsonForSinglePackage(monorepoInfo);
+	await updatePackageJsonWorkspaces(monorepoInfo, [getWorkspacePath("package", packageToAdd)]);
 
 	// Create the package
-	await createPackage(rootPath, packageToAdd);
+	await createPackage(monorepoInfo, packageToAdd);
 
 	// Update TypeScript references
 	await updateTsConfigReferences(monorepoInfo, [], [packageToAdd]);
+
+	await updateManifest(monorepoInfo, [], [packageToAdd]);
 }
 
 async function addSingleAppToMonorepo(monorepoInfo: MonorepoStructure, appToAdd: AppTemplate): Promise<void> {
-	const { rootPath } = monorepoInfo;
-
-	// Create apps directory if needed
-	if (!monorepoInfo.hasAppsDir) {
-		await mkdir(join(rootPath, "apps"), { recursive: true });
-	}
-
 	// Update package.json workspaces
-	await updatePackageJsonForSingleApp(monorepoInfo);
+	await updatePackageJsonWorkspaces(monorepoInfo, [getWorkspacePath("app", appToAdd)]);
 
-	// Create the app
-	await createApp(rootPath, appToAdd, monorepoInfo.packages, undefined, []);
+	// Create the app, wired to the packages and ORM recorded in the manifest
+	await createApp(monorepoInfo, appToAdd, getManifestPackages(monorepoInfo.manifest), monorepoInfo.manifest.orm);
 
 	// Update TypeScript references
 	await updateTsConfigReferences(monorepoInfo, [appToAdd], []);
+
+	await updateManifest(monorepoInfo, [appToAdd], []);
 }
 
 async function addOrmToMonorepo(monorepoInfo: MonorepoStructure, ormConfig: OrmConfig): Promise<void> {
 	const { rootPath } = monorepoInfo;
 
-	// Ensure packages directory exists for db package
-	if (!monorepoInfo.hasPackagesDir) {
-		await mkdir(join(rootPath, "packages"), { recursive: true });
-	}
-
 	// Update package.json with ORM dependencies
 	await updatePackageJsonWithOrmDeps(monorepoInfo, ormConfig);
 
@@ -939,36 +1082,8 @@ async function addOrmToMonorepo(monorepoInfo: MonorepoStructure, ormConfig: OrmC
 		category: "packages",
 	};
 	await updateTsConfigReferences(monorepoInfo, [], [dbPackage]);
-}
-
-async function updatePackageJsonForSinglePackage(monorepoInfo: MonorepoStructure): Promise<void> {
-	const { rootPath, packageJson } = monorepoInfo;
-
-	const workspaces = new Set(packageJson.workspaces || []);
-
-	if (monorepoInfo.hasAppsDir) {
-		workspaces.add("apps/*");
-	}
-
-	workspaces.add("packages/*");
-
-	packageJson.workspaces = Array.from(workspaces);
-	await writeJsonFile(join(rootPath, "package.json"), packageJson);
-}
-
-async function updatePackageJsonForSingleApp(monorepoInfo: MonorepoStructure): Promise<void> {
-	const { rootPath, packageJson } = monorepoInfo;
-
-	const workspaces = new Set(packageJson.workspaces || []);
-
-	workspaces.add("apps/*");
-
-	if (monorepoInfo.hasPackagesDir) {
-		workspaces.add("packages/*");
-	}
 
-	packageJson.workspaces = Array.from(workspaces);
-	await writeJsonFile(join(rootPath, "package.json"), packageJson);
+	await updateManifest(monorepoInfo, [], [dbPackage], ormConfig);
 }
 
 async function updatePackageJsonWithOrmDeps(monorepoInfo: MonorepoStructure, ormConfig: OrmConfig): Promise<void> {
@@ -992,5 +1107,5 @@ async function updatePackageJsonWithOrmDeps(monorepoInfo: MonorepoStructure, orm
 		...ormScripts,
 	};
 
-	await writeJsonFile(join(rootPath, "package.json"), packageJson);
+	await patchJsonFile(join(rootPath, "package.json"), packageJson);
 }
@@ -0,0 +1,75 @@
+import chalk from "chalk";
+import { buildWorkspaceGraph, findDependents, sortTopologically } from "./lib/graph";
+import { reportTaskResults, runWorkspaceScript } from "./lib/task-runner";
+import { findMonorepoRoot, findWorkspaces, SHARED_ROOT_FILES, type WorkspaceInfo } from "./lib/workspaces";
+import type { AffectedOptions } from "./types";
+import { execCommand } from "./utils/process";
+
+export async function affected(options: AffectedOptions): Promise<void> {
+	console.log(chalk.blue("🎯 Affected Workspaces"));
+	console.log(chalk.gray(`Workspaces impacted by changes since ${options.base}\n`));
+
+	const rootPath = await findMonorepoRoot(options.cwd);
+
+	const changedFiles = await getChangedFiles(rootPath, options.base);
+	const graph = buildWorkspaceGraph(await findWorkspaces(rootPath));
+
+	const changed = new Set<string>();
+	const globalChanges = changedFiles.filter((file) => SHARED_ROOT_FILES.includes(file));
+	for (const file of changedFiles) {
+		const owner = findOwningWorkspace(graph.workspaces, file);
+		if (owner) changed.add(owner.packageName);
+	}
+
+	const affectedNames = findDependents(
+		graph,
+		globalChanges.length > 0 ? graph.workspaces.map((workspace) => workspace.packageName) : changed,
+	);
+	const affectedWorkspaces = sortTopologically(
+		graph,
+		graph.workspaces.filter((workspace) => affectedNames.has(workspace.packageName)),
+	);
+
+	console.log(chalk.gray(`📄 ${changedFiles.length} changed file(s)`));
+	if (globalChanges.length > 0) {
+		console.log(chalk.gray(`🌐 Shared root files changed (${globalChanges.join(", ")}), every workspace is affected`));
+	}
+
+	if (affectedWorkspaces.length === 0) {
+		console.log(chalk.green("\n✅ No workspace is affected"));
+		return;
+	}
+
+	console.log(chalk.bold(`\n📦 ${affectedWorkspaces.length} affected workspace(s), in dependency order:`));
+	for (const workspace of affectedWorkspaces) {
+		const reason = changed.has(workspace.packageName) ? "changed" : "depends on a change";
+		console.log(`  ${workspace.packageName} ${chalk.gray(`(${workspace.path}, ${reason})`)}`);
+	}
+
+	if (options.run) {
+		console.log();
+		reportTaskResults(await runWorkspaceScript(graph, affectedWorkspaces, options.run), options.run);
+	}
+}
+
+/**
+ * Files changed between the base ref and the working tree (committed, staged, unstaged and untracked),
+ * relative to the monorepo root
+ */
+async function getChangedFiles(rootPath: string, base: string): Promise<string[]> {
+	try {
+		await execCommand("git", ["rev-parse", "--verify", "--quiet", `${base}^{commit}`], rootPath);
+	} catch (error) {
+		throw new Error(`'${base}' is not a valid git ref in ${rootPath}`, { cause: error });
+	}
+
+	const diff = await execCommand("git", ["diff", "--name-only", "--relative", base], rootPath);
+	const untracked = await execCommand("git", ["ls-files", "--others", "--exclude-standard"], rootPath);
+
+	const files = `${diff}\n${untracked}`.split("\n").filter(Boolean);
+	return [...new Set(files)].sort();
+}
+
+function findOwningWorkspace(workspaces: WorkspaceInfo[], file: string): WorkspaceInfo | undefined {
+	return workspaces.find((workspace) => file === workspace.path || file.startsWith(`${workspace.path}/`));
+}
@@ -0,0 +1,410 @@
+/**
+ * Command and flag definitions for the CLI
+ */
+
+import type { CommandDefinition } from "./lib/cli";
+
+export const createCommand = {
+	name: "create",
+	aliases: ["scaffold"],
+	description: "Create a new monorepo (default command)",
+	positionals: [{ name: "name", description: "Name of the monorepo directory to create" }],
+	flags: {
+		yes: {
+			type: "boolean",
+			alias: "y",
+			description: "Skip prompts and use flags, environment variables or defaults",
+		},
+		name: {
+			type: "string",
+			alias: "n",
+			description: "Name of the monorepo directory to create (same as the name argument)",
+		},
+		linting: {
+			type: "string",
+			alias: "l",
+			choices: ["biome", "eslint-prettier", "none"],
+			description: "Linting and formatting setup",
+		},
+		apps: {
+			type: "string",
+			multiple: true,
+			valueName: "apps",
+			description: "Comma-separated apps to create, using name[template] notation",
+		},
+		packages: {
+			type: "string",
+			multiple: true,
+			valueName: "packages",
+			description: "Comma-separated packages to create, using name[template] notation",
+		},
+		orm: {
+			type: "string",
+			choices: ["drizzle", "prisma", "none"],
+			description: "Database ORM to set up",
+		},
+		database: {
+			type: "string",
+			choices: ["postgresql", "mysql", "sqlite"],
+			description: "Database used by the ORM (defaults to postgresql with --yes)",
+		},
+		scope: {
+			type: "string",
+			valueName: "@scope",
+			description: "npm scope of the workspace packages (defaults to the monorepo name, normalized)",
+		},
+		"apps-dir": {
+			type: "string",
+			valueName: "path",
+			description: "Folder apps are created in (defaults to apps)",
+		},
+		"packages-dir": {
+			type: "string",
+			valueName: "path",
+			description: "Folder packages are created in (defaults to packages)",
+		},
+		set: {
+			type: "string",
+			multiple: true,
+			valueName: "<app|package>.<name>.<question>=<value>",
+			description:
+				"Answer a question of a template without being asked (e.g. app.mobile.bundleIdentifier=com.acme.app)",
+		},
+		"template-dir": {
+			type: "string",
+			multiple: true,
+			valueName: "[namespace=]path",
+			description:
+				"Also load the templates of this folder (holding apps/ and packages/), used as <namespace>/<template>",
+		},
+		"dry-run": {
+			type: "boolean",
+			description: "Print the files that would be created without writing anything",
+		},
+		force: {
+			type: "boolean",
+			alias: "f",
+			description: "Overwrite existing files when the target directory is not empty",
+		},
+		merge: {
+			type: "boolean",
+			description: "Only write files missing from a non-empty target directory",
+		},
+	},
+	examples: [
+		"create my-app",
+		'create my-app --yes --apps "web[nextjs],api[hono]" --packages "ui[ui],utils[utils]"',
+		"create my-app -y --apps web[react-vite] --apps api[express] --orm drizzle --database sqlite --linting none",
+		'create "My App" -y --scope @acme --apps-dir services --packages-dir libs --apps api[hono]',
+		"create my-app -y --apps mobile[react-native-expo] --set app.mobile.bundleIdentifier=com.acme.mobile",
+	],
+} as const satisfies CommandDefinition;
+
+export const addCommand = {
+	name: "add",
+	description: "Add apps, packages or ORM setup to an existing monorepo",
+	flags: {
+		app: {
+			type: "string",
+			alias: "a",
+			valueName: "name[template]",
+			description: "Add a single app, optionally selecting its template with bracket notation",
+		},
+		package: {
+			type: "string",
+			alias: "p",
+			valueName: "name[template]",
+			description: "Add a single package, optionally selecting its template with bracket notation",
+		},
+		orm: {
+			type: "boolean",
+			description: "Add ORM setup to the monorepo",
+		},
+		dir: {
+			type: "string",
+			alias: "d",
+			valueName: "path",
+			description:
+				"Workspace folder for the new app or package (defaults to the folder holding the existing ones, else a free root workspaces glob)",
+		},
+		set: {
+			type: "string",
+			multiple: true,
+			valueName: "<app|package>.<name>.<question>=<value>",
+			description:
+				"Answer a question of a template without being asked (e.g. app.mobile.bundleIdentifier=com.acme.app)",
+		},
+		"template-dir": {
+			type: "string",
+			multiple: true,
+			valueName: "[namespace=]path",
+			description:
+				"Also load the templates of this folder (holding apps/ and packages/), used as <namespace>/<template>",
+		},
+		"dry-run": {
+			type: "boolean",
+			description: "Print the files that would be created or modified (with diffs) without writing anything",
+		},
+		force: {
+			type: "boolean",
+			alias: "f",
+			description: "Overwrite existing files when the target workspace directory is not empty",
+		},
+		merge: {
+			type: "boolean",
+			description: "Only write files missing from a non-empty target workspace directory",
+		},
+		cwd: {
+			type: "string",
+			valueName: "path",
+			description: "Run in the monorepo containing this directory instead of the current one",
+		},
+	},
+	examples: [
+		"add",
+		'add --package "myutils[utils]"',
+		"add --app '[nextjs]'",
+		"add -a myapi[express]",
+		"add --orm",
+		"add --app web[nextjs] --dry-run",
+		"add --app web[nextjs] --merge",
+		"add --cwd ../my-monorepo --package utils",
+		'add --app "api[hono]" --dir services',
+		"add --app mobile[react-native-expo] --set app.mobile.bundleIdentifier=com.acme.mobile",
+		'add --app "svc[git+file:///srv/templates.git#v2:fastify]"',
+		'add --package "auth[./auth-template-1.0.0.tgz]"',
+	],
+} as const satisfies CommandDefinition;
+
+export const upgradeCommand = {
+	name: "upgrade",
+	description: "Re-sync generated workspaces with the templates of this CLI version (three-way merge)",
+	positionals: [
+		{ name: "workspace", description: "Name or path of the workspace to upgrade (defaults to all workspaces)" },
+	],
+	flags: {
+		"template-dir": {
+			type: "string",
+			multiple: true,
+			valueName: "[namespace=]path",
+			description:
+				"Also load the templates of this folder (holding apps/ and packages/), used as <namespace>/<template>",
+		},
+		"dry-run": {
+			type: "boolean",
+			description: "Print the merged changes without writing anything",
+		},
+		cwd: {
+			type: "string",
+			valueName: "path",
+			description: "Run in the monorepo containing this directory instead of the current one",
+		},
+	},
+	examples: ["upgrade", "upgrade web", "upgrade packages/ui --dry-run"],
+} as const satisfies CommandDefinition;
+
+export const removeCommand = {
+	name: "remove",
+	aliases: ["rm"],
+	description: "Delete an app or package and remove every reference to it",
+	flags: {
+		app: {
+			type: "string",
+			alias: "a",
+			valueName: "name",
+			description: "App to remove",
+		},
+		package: {
+			type: "string",
+			alias: "p",
+			valueName: "name",
+			description: "Package to remove (removing db also removes the ORM scripts and Docker Compose file)",
+		},
+		yes: {
+			type: "boolean",
+			alias: "y",
+			description: "Do not ask for confirmation",
+		},
+		"dry-run": {
+			type: "boolean",
+			description: "Print the files that would be deleted or modified without writing anything",
+		},
+		cwd: {
+			type: "string",
+			valueName: "path",
+			description: "Run in the monorepo containing this directory instead of the current one",
+		},
+	},
+	examples: ["remove --app web", "remove --package utils --yes", "remove --package db --dry-run"],
+} as const satisfies CommandDefinition;
+
+export const renameCommand = {
+	name: "rename",
+	aliases: ["mv"],
+	description: "Rename an app or package and update every reference to it",
+	positionals: [{ name: "new-name", description: "New directory name of the workspace", required: true }],
+	flags: {
+		app: {
+			type: "string",
+			alias: "a",
+			valueName: "name",
+			description: "App to rename",
+		},
+		package: {
+			type: "string",
+			alias: "p",
+			valueName: "name",
+			description: "Package to rename",
+		},
+		"dry-run": {
+			type: "boolean",
+			description: "Print the files that would be moved or modified without writing anything",
+		},
+		cwd: {
+			type: "string",
+			valueName: "path",
+			description: "Run in the monorepo containing this directory instead of the current one",
+		},
+	},
+	examples: ["rename --package utils shared-utils", "rename --app web site --dry-run"],
+} as const satisfies CommandDefinition;
+
+export const linkCommand = {
+	name: "link",
+	description: "Wire an existing package into existing apps (dependency, tsconfig reference and UI demos)",
+	positionals: [
+		{ name: "package", description: "Package to link", required: true },
+		{ name: "apps", description: "Apps that should depend on the package", required: true, variadic: true },
+	],
+	flags: {
+		"dry-run": {
+			type: "boolean",
+			description: "Print the files that would be modified without writing anything",
+		},
+		cwd: {
+			type: "string",
+			valueName: "path",
+			description: "Run in the monorepo containing this directory instead of the current one",
+		},
+	},
+	examples: ["link ui web", "link utils web api --dry-run"],
+} as const satisfies CommandDefinition;
+
+export const graphCommand = {
+	name: "graph",
+	description: "Print the workspace:* dependency graph between apps and packages",
+	flags: {
+		format: {
+			type: "string",
+			valueName: "format",
+			description: "Output format",
+			choices: ["mermaid", "dot", "json"],
+			default: "mermaid",
+		},
+		output: {
+			type: "string",
+			alias: "o",
+			valueName: "file",
+			description: "Write the graph to a file instead of stdout",
+		},
+		cwd: {
+			type: "string",
+			valueName: "path",
+			description: "Run in the monorepo containing this directory instead of the current one",
+		},
+	},
+	examples: ["graph", "graph --format dot | dot -Tsvg > deps.svg", "graph --format json --output deps.json"],
+} as const satisfies CommandDefinition;
+
+export const affectedCommand = {
+	name: "affected",
+	description: "List the workspaces impacted by changes since a git ref, optionally running a script in them",
+	flags: {
+		base: {
+			type: "string",
+			alias: "b",
+			valueName: "ref",
+			description: "Git ref to compare the working tree against (required)",
+		},
+		run: {
+			type: "string",
+			alias: "r",
+			valueName: "script",
+			description: "Run this package.json script in every affected workspace, dependencies first",
+		},
+		cwd: {
+			type: "string",
+			valueName: "path",
+			description: "Run in the monorepo containing this directory instead of the current one",
+		},
+	},
+	examples: ["affected --base main", "affected --base origin/main --run build", "affected --base HEAD~1 --run test"],
+} as const satisfies CommandDefinition;
+
+export const runCommand = {
+	name: "run",
+	description: "Run a package.json script in every workspace, dependencies first and in parallel where possible",
+	positionals: [{ name: "script", description: "Script to run", required: true }],
+	flags: {
+		concurrency: {
+			type: "number",
+			alias: "c",
+			valueName: "count",
+			description: "Maximum number of scripts running at once (defaults to the number of CPUs)",
+		},
+		continue: {
+			type: "boolean",
+			description: "Keep running the workspaces that do not depend on a failed one",
+		},
+		cache: {
+			type: "boolean",
+			description: "Replay unchanged workspaces from the local .cache directory (output and dist/)",
+		},
+		env: {
+			type: "string",
+			multiple: true,
+			valueName: "name",
+			description: "Environment variable that affects the script's output, included in the cache key",
+		},
+		cwd: {
+			type: "string",
+			valueName: "path",
+			description: "Run in the monorepo containing this directory instead of the current one",
+		},
+	},
+	examples: ["run build", "run build --cache", "run build --concurrency 2", "run test --continue"],
+} as const satisfies CommandDefinition;
+
+export const doctorCommand = {
+	name: "doctor",
+	description: "Check the monorepo for broken references, dependencies and naming, and optionally fix them",
+	flags: {
+		fix: {
+			type: "boolean",
+			description: "Repair the problems that can be fixed automatically",
+		},
+		"dry-run": {
+			type: "boolean",
+			description: "With --fix, print the files that would be modified without writing anything",
+		},
+		cwd: {
+			type: "string",
+			valueName: "path",
+			description: "Run in the monorepo containing this directory instead of the current one",
+		},
+	},
+	examples: ["doctor", "doctor --fix", "doctor --fix --dry-run", "doctor --cwd ~/projects/my-monorepo"],
+} as const satisfies CommandDefinition;
+
+export const commands = [
+	createCommand,
+	addCommand,
+	removeCommand,
+	renameCommand,
+	linkCommand,
+	graphCommand,
+	affectedCommand,
+	runCommand,
+	doctorCommand,
+	upgradeCommand,
+] as const;
@@ -1,10 +1,12 @@
-import { cp, mkdir, readFile, writeFile } from "node:fs/promises";
-import { join } from "node:path";
+import { basename, join } from "node:path";
 import chalk from "chalk";
 import prompts from "prompts";
 import { rootPath } from "./constants";
 import { addDockerCompose } from "./injections";
+import { logger } from "./lib/logger";
+import { createManifest, getCliVersion, recordWorkspace, writeManifest, writeWorkspaceBase } from "./lib/manifest";
 import { createOrmConfig, createOrmSetup, getOrmDependencies, getOrmScripts } from "./lib/orm-setup";
+import { runScaffold } from "./lib/scaffold";
 import {
 	createAppWithProcessing,
 	createPackageWithProcessing,
@@ -12,21 +14,37 @@ import {
 	getAvailableTemplates,
 	getPackageTemplateChoices,
 } from "./lib/shared-setup";
+import { askTemplatePrompts, checkUnusedAnswerPresets, parseAnswerPresets } from "./lib/template-prompts";
+import { resolveTemplateSource } from "./lib/template-sources";
+import { getWorkspacePath, normalizeWorkspaceDirectory, WORKSPACE_DIRECTORIES } from "./lib/workspaces";
 import type { TemplatesConfig } from "./templates";
-import { getTemplateConfig, ORM_FRAMEWORKS } from "./templates";
-import type { AppTemplate, CreateOptions, OrmConfig, PackageTemplate } from "./types";
+import { getDefaultWorkspaceName, getTemplateConfig, getTemplateInfo, templateHasCapability } from "./templates";
+import type {
+	AppTemplate,
+	CreateFlags,
+	CreateOptions,
+	DatabaseType,
+	LintingType,
+	OrmConfig,
+	OrmType,
+	PackageTemplate,
+} from "./types";
 import { writeJsonFile } from "./utils/file";
+import { cp, mkdir, readFile, writeFile } from "./utils/fs";
+import { normalizeScope, parseScope } from "./utils/string";
 
 // Regular expressions for parsing template specifications
 const APP_TEMPLATE_REGEX = /^([^[]+)(?:\[([^\]]+)\])?$/;
 const PACKAGE_TEMPLATE_REGEX = /^([^[]+)(?:\[([^\]]+)\])?$/;
 
-export async function create() {
+export async function create(flags: CreateFlags = {}) {
 	console.log(chalk.blue("🚀 create-bun-monorepo"));
 	console.log(chalk.gray("Let's create your new monorepo!\n"));
 
-	const options = await promptUser();
-	await createMonorepo(options);
+	const options = await promptUser(resolveCreateFlags(flags));
+
+	await runScaffold([options.appName], flags, () => createMonorepo(options));
+	if (flags.dryRun) return;
 
 	console.log(chalk.green("\n✅ Monorepo scaffolded successfully!"));
 	console.log(chalk.gray(`📁 Created: ${options.appName}`));
@@ -34,123 +52,179 @@ export async function create() {
 	console.log(chalk.yellow(`  cd ${options.appName}`));
 	console.log(chalk.yellow("  bun install"));
 	if (options.linting !== "none") console.log(chalk.yellow("  bun run format"));
+
+	// Default dev server ports declared by the app templates
+	const devServers = options.apps.flatMap((app) => {
+		const port = getTemplateInfo(app.template)?.port;
+		return port ? [`  ${app.name}: http://localhost:${port}`] : [];
+	});
+	if (devServers.length > 0) {
+		console.log(chalk.gray("🌐 With bun run dev, the apps are served at:"));
+		for (const line of devServers) console.log(chalk.gray(line));
+	}
 }
 
-const isOrmType = (value: string | undefined): value is "prisma" | "drizzle" | "none" | undefined =>
+const isOrmType = (value: string | undefined): value is OrmType | undefined =>
 	!value || ["prisma", "drizzle", "none"].includes(value);
 
-const isDatabaseType = (value: string | undefined): value is "postgresql" | "mysql" | "sqlite" | undefined =>
+const isDatabaseType = (value: string | undefined): value is DatabaseType | undefined =>
 	!value || ["postgresql", "mysql", "sqlite"].includes(value);
 
-const isLintingType = (value: string | undefined): value is "biome" | "eslint-prettier" | "none" | undefined =>
+const isLintingType = (value: string | undefined): value is LintingType | undefined =>
 	!value || ["biome", "eslint-prettier", "none"].includes(value);
 
-async function promptUser(): Promise<CreateOptions> {
-	// Check for non-interactive mode via environment variables
-	const nonInteractive = process.env.NON_INTERACTIVE === "true";
-
-	if (nonInteractive) {
-		// Check the values of environment variables for non-interactive mode
-		const lintingMode = process.env.LINTING;
-		if (!isLintingType(lintingMode))
-			throw new Error(`Invalid LINTING value: ${lintingMode}. Expected 'biome', 'eslint-prettier', or 'none'.`);
-
-		const ormType = process.env.ORM_TYPE;
-		if (!isOrmType(ormType))
-			throw new Error(`Invalid ORM_TYPE value: ${ormType}. Expected 'prisma', 'drizzle', or 'none'.`);
-
-		const database = process.env.DATABASE;
-		if (!isDatabaseType(database))
-			throw new Error(`Invalid DATABASE value: ${database}. Expected 'postgresql', 'mysql', or 'sqlite'.`);
-
-		// In non-interactive mode, parse templates from square brackets
-		const templateConfig = getTemplateConfig();
-		const appInputs = (process.env.APPS || "web,api").split(",").map((app) => app.trim());
-		const packageInputs = process.env.PACKAGES ? process.env.PACKAGES.split(",").map((pkg) => pkg.trim()) : [];
-		const additionalPackageInputs = process.env.ADDITIONAL_PACKAGES
-			? process.env.ADDITIONAL_PACKAGES.split(",").map((pkg) => pkg.trim())
-			: [];
-
-		// Parse app names and templates
-		const apps = appInputs.map((input) => {
-			const match = input.match(APP_TEMPLATE_REGEX);
-			if (!match) throw new Error(`Invalid app format: ${input}. Expected format: name or name[template]`);
-
-			const [, name, templateSpec] = match;
-			if (!name) throw new Error(`Invalid app name: ${input}. Name cannot be empty.`);
-
-			// No template specified, use blank
-			if (!templateSpec) return { name, template: "blank", category: "blank" };
-
-			// Find the template in the config
-			const templateInfo = findTemplateInConfig(templateConfig, templateSpec, "apps");
-			if (!templateInfo) {
-				throw new Error(
-					`Template '${templateSpec}' not found for apps. Available templates: ${getAvailableTemplates(templateConfig, "apps").join(", ")}`,
-				);
-			}
+const splitList = (value: string | undefined): string[] | undefined =>
+	value
+		?.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean);
 
-			return { name, template: templateSpec, category: templateInfo.category };
-		});
+/**
+ * Fill in values not passed as CLI flags from the legacy environment variables
+ */
+function resolveCreateFlags(flags: CreateFlags): CreateFlags {
+	const linting = flags.linting ?? (process.env.LINTING || undefined);
+	if (!isLintingType(linting))
+		throw new Error(`Invalid LINTING value: ${linting}. Expected 'biome', 'eslint-prettier', or 'none'.`);
 
-		// Parse package names and templates
-		const packages = packageInputs.map((input) => {
-			const match = input.match(PACKAGE_TEMPLATE_REGEX);
-			if (!match) throw new Error(`Invalid package format: ${input}. Expected format: name or name[template]`);
+	const orm = flags.orm ?? (process.env.ORM_TYPE || process.env.ORM || undefined);
+	if (!isOrmType(orm)) throw new Error(`Invalid ORM_TYPE value: ${orm}. Expected 'prisma', 'drizzle', or 'none'.`);
 
-			const [, name, templateSpec] = match;
-			if (!name) throw new Error(`Invalid package name: ${input}. Name cannot be empty.`);
+	const database = flags.database ?? (process.env.DATABASE || undefined);
+	if (!isDatabaseType(database))
+		throw new Error(`Invalid DATABASE value: ${database}. Expected 'postgresql', 'mysql', or 'sqlite'.`);
 
-			// No template specified, use blank
-			if (!templateSpec) return { name, template: "blank", category: "blank" };
+	if (flags.database && (!orm || orm === "none")) {
+		logger.warn("--database has no effect without --orm drizzle or --orm prisma");
+	}
 
-			// Find the template in the config
-			const templateInfo = findTemplateInConfig(templateConfig, templateSpec, "packages");
-			if (!templateInfo) {
-				throw new Error(
-					`Template '${templateSpec}' not found for packages. Available templates: ${getAvailableTemplates(templateConfig, "packages").join(", ")}`,
-				);
-			}
+	const appsDir = flags.appsDir === undefined ? undefined : normalizeWorkspaceDirectory(flags.appsDir, "--apps-dir");
+	const packagesDir =
+		flags.packagesDir === undefined ? undefined : normalizeWorkspaceDirectory(flags.packagesDir, "--packages-dir");
+	if ((appsDir ?? WORKSPACE_DIRECTORIES.app) === (packagesDir ?? WORKSPACE_DIRECTORIES.package)) {
+		throw new Error("Apps and packages need separate folders; pass different --apps-dir and --packages-dir values");
+	}
 
-			return { name, template: templateSpec, category: templateInfo.category };
-		});
+	// Blank packages from ADDITIONAL_PACKAGES are plain names, which already resolve to the blank template
+	const envPackages = [
+		...(splitList(process.env.PACKAGES) ?? []),
+		...(splitList(process.env.ADDITIONAL_PACKAGES) ?? []),
+	];
 
-		// Add additional blank packages
-		for (const packageName of additionalPackageInputs) {
-			packages.push({
-				name: packageName,
-				template: "blank",
-				category: "blank",
-			});
-		}
+	return {
+		name: flags.name ?? (process.env.APP_NAME || process.env.PROJECT_NAME || undefined),
+		linting,
+		apps: flags.apps ?? splitList(process.env.APPS),
+		packages: flags.packages ?? (envPackages.length > 0 ? envPackages : undefined),
+		orm,
+		database,
+		scope: flags.scope === undefined ? undefined : parseScope(flags.scope),
+		appsDir,
+		packagesDir,
+		set: flags.set,
+		yes: flags.yes || process.env.NON_INTERACTIVE === "true",
+	};
+}
 
-		// Parse ORM configuration from environment variables
-		let orm: OrmConfig | undefined;
+/**
+ * Parse "name" or "name[template]" inputs into app or package templates.
+ * Inputs without a template use the blank template.
+ */
+async function parseTemplateInputs(inputs: string[], type: "apps" | "packages", templateConfig: TemplatesConfig) {
+	const label = type === "apps" ? "app" : "package";
+	const templates: Array<AppTemplate | PackageTemplate> = [];
+
+	for (const input of inputs) {
+		const match = input.match(type === "apps" ? APP_TEMPLATE_REGEX : PACKAGE_TEMPLATE_REGEX);
+		if (!match) throw new Error(`Invalid ${label} format: ${input}. Expected format: name or name[template]`);
+
+		const [, name, templateSpec] = match;
+		if (!name) throw new Error(`Invalid ${label} name: ${input}. Name cannot be empty.`);
+
+		// No template specified, use blank
+		if (!templateSpec) {
+			templates.push({ name: name.trim(), template: "blank", category: "blank" });
+			continue;
+		}
 
-		if (ormType && database) {
-			orm = createOrmConfig(ormType, database);
+		// Find the template in the config, fetching git and tarball sources first
+		const template = await resolveTemplateSource(templateSpec, type);
+		const templateInfo = findTemplateInConfig(templateConfig, template, type);
+		if (!templateInfo) {
+			throw new Error(
+				`Template '${templateSpec}' not found for ${type}. Available templates: ${getAvailableTemplates(templateConfig, type).join(", ")}`,
+			);
 		}
 
-		return {
-			appName: process.env.APP_NAME || "my-test-app",
-			linting: lintingMode || "biome",
-			apps,
-			packages,
-			orm,
-		};
+		templates.push({ name: name.trim(), template, category: templateInfo.category });
 	}
 
+	return templates;
+}
+
+/**
+ * Build the ORM configuration from flags, defaulting to PostgreSQL when only the ORM is given
+ */
+function resolveOrmConfig(ormType: OrmType | undefined, database: DatabaseType | undefined): OrmConfig | undefined {
+	if (!ormType || ormType === "none") return undefined;
+	return createOrmConfig(ormType, database ?? "postgresql");
+}
+
+/**
+ * Complete the answers with the package scope and workspace folders, placing every app and package in its folder
+ */
+function withLayout(
+	flags: CreateFlags,
+	options: Omit<CreateOptions, "scope" | "appsDir" | "packagesDir">,
+): CreateOptions {
+	const projectName = basename(options.appName);
+	const scope = flags.scope ?? normalizeScope(projectName);
+	if (!flags.scope && scope !== projectName) logger.info(`Using the npm scope @${scope} for "${projectName}"`);
+
+	const appsDir = flags.appsDir ?? WORKSPACE_DIRECTORIES.app;
+	const packagesDir = flags.packagesDir ?? WORKSPACE_DIRECTORIES.package;
+
+	return {
+		...options,
+		apps: options.apps.map((app) => ({ ...app, directory: appsDir })),
+		packages: options.packages.map((pkg) => ({ ...pkg, directory: packagesDir })),
+		scope,
+		appsDir,
+		packagesDir,
+	};
+}
+
+async function promptUser(flags: CreateFlags): Promise<CreateOptions> {
 	const templateConfig = getTemplateConfig();
+	const presets = parseAnswerPresets(flags.set);
+
+	// Non-interactive mode: everything comes from flags (or their environment fallbacks) and defaults
+	if (flags.yes) {
+		const apps = await parseTemplateInputs(flags.apps ?? ["web", "api"], "apps", templateConfig);
+		const packages = await parseTemplateInputs(flags.packages ?? [], "packages", templateConfig);
+		for (const app of apps) await askTemplatePrompts("app", app, presets, false);
+		for (const pkg of packages) await askTemplatePrompts("package", pkg, presets, false);
+		checkUnusedAnswerPresets(presets);
+
+		return withLayout(flags, {
+			appName: flags.name || "my-test-app",
+			linting: flags.linting || "biome",
+			apps,
+			packages,
+			orm: resolveOrmConfig(flags.orm, flags.database),
+		});
+	}
 
+	// Questions already answered by flags are skipped (a null type makes prompts skip the question)
 	const response = await prompts([
 		{
-			type: "text",
+			type: flags.name ? null : "text",
 			name: "appName",
 			message: "What is the name of your app?",
 			validate: (value: string) => (value.trim() ? true : "App name is required"),
 		},
 		{
-			type: "select",
+			type: flags.linting ? null : "select",
 			name: "linting",
 			message: "Which linting/formatting setup do you prefer?",
 			choices: [
@@ -160,13 +234,13 @@ async function promptUser(): Promise<CreateOptions> {
 			],
 		},
 		{
-			type: "text",
+			type: flags.apps ? null : "text",
 			name: "appsInput",
 			message: "Enter app names (comma-separated):",
 			validate: (value: string) => (value.trim() ? true : "At least one app name is required"),
 		},
 		{
-			type: "multiselect",
+			type: flags.packages ? null : "multiselect",
 			name: "selectedPackages",
 			message: "Select packages to include (space to select, enter to confirm):",
 			choices: getPackageTemplateChoices(templateConfig),
@@ -174,26 +248,25 @@ async function promptUser(): Promise<CreateOptions> {
 		},
 	]);
 
+	const appName: string | undefined = flags.name ?? response.appName;
+	const linting: LintingType = flags.linting ?? response.linting;
+
 	// Check if user cancelled
-	if (!response.appName || !response.appsInput) process.exit(0);
+	if (!appName || (!flags.apps && !response.appsInput)) process.exit(0);
 
-	if (typeof response.appsInput !== "string") throw new Error("Invalid input for appsInput. Expected a string.");
-	if (typeof response.selectedPackages !== "object" || !Array.isArray(response.selectedPackages))
+	if (!flags.apps && typeof response.appsInput !== "string")
+		throw new Error("Invalid input for appsInput. Expected a string.");
+	if (!flags.packages && (typeof response.selectedPackages !== "object" || !Array.isArray(response.selectedPackages)))
 		throw new Error("Invalid input for selectedPackages. Expected an array.");
 
-	const appInputs = response.appsInput
-		.split(",")
-		.map((app: string) => app.trim())
-		.filter(Boolean);
-
-	const selectedPackageTemplates = response.selectedPackages || [];
+	const appInputs: string[] = flags.apps ?? splitList(response.appsInput) ?? [];
 
 	// Parse app names and templates from input (supporting bracket notation)
 	const parsedApps = appInputs.map((input: string) => {
 		const match = input.match(APP_TEMPLATE_REGEX);
 		if (match) {
 			const [, name, template] = match;
-			const appName = name?.trim() || template?.trim();
+			const appName = name?.trim() || (template && getDefaultWorkspaceName(template.trim()));
 			if (!appName) throw new Error(`Invalid app name format: ${input}`);
 			return { name: appName, specifiedTemplate: template?.trim() };
 		}
@@ -207,18 +280,17 @@ async function promptUser(): Promise<CreateOptions> {
 			// Template specified via bracket notation - validate and use it
 			console.log(chalk.cyan(`\nConfiguring app: ${appName} [${specifiedTemplate}]`));
 
-			const foundTemplate = findTemplateInConfig(templateConfig, specifiedTemplate, "apps");
+			const template = await resolveTemplateSource(specifiedTemplate, "apps");
+			const foundTemplate = findTemplateInConfig(templateConfig, template, "apps");
 			if (!foundTemplate) {
 				throw new Error(
 					`Template "${specifiedTemplate}" not found. Available app templates: ${getAvailableTemplates(templateConfig, "apps").join(", ")}`,
 				);
 			}
 
-			apps.push({
-				name: appName,
-				template: specifiedTemplate,
-				category: foundTemplate.category,
-			});
+			const app: AppTemplate = { name: appName, template, category: foundTemplate.category };
+			await askTemplatePrompts("app", app, presets, true);
+			apps.push(app);
 		} else {
 			// No template specified - prompt interactively
 			console.log(chalk.cyan(`\nConfiguring app: ${appName}`));
@@ -281,45 +353,27 @@ async function promptUser(): Promise<CreateOptions> {
 				}
 			}
 
+			await askTemplatePrompts("app", selectedTemplate, presets, true);
 			apps.push(selectedTemplate);
 		}
 	}
 
-	// Create packages directly from selected template keys
-	const packages: PackageTemplate[] = selectedPackageTemplates.map((templateKey: string) => ({
-		name: templateKey, // Use template key as package name
-		template: templateKey,
-		category: "packages",
-	}));
-
-	// Ask for additional blank packages
-	const additionalPackagesResponse = await prompts({
-		type: "text",
-		name: "additionalPackages",
-		message: "Enter the names of blank packages you want to add (comma-separated, optional):",
-		initial: "",
-	});
-
-	// Add additional blank packages if provided
-	if (additionalPackagesResponse.additionalPackages?.trim()) {
-		const additionalPackageNames = additionalPackagesResponse.additionalPackages
-			.split(",")
-			.map((name: string) => name.trim())
-			.filter(Boolean);
-
-		for (const packageName of additionalPackageNames) {
-			packages.push({
-				name: packageName,
-				template: "blank",
-				category: "blank",
-			});
-		}
-	}
+	const packages = flags.packages
+		? await parseTemplateInputs(flags.packages, "packages", templateConfig)
+		: await promptPackages(response.selectedPackages);
+	for (const pkg of packages) await askTemplatePrompts("package", pkg, presets, true);
+	checkUnusedAnswerPresets(presets);
 
 	// Check if user has backend frameworks and prompt for ORM
 	let orm: OrmConfig | undefined;
-	// Ask for ORM setup if there are backend or full-stack frameworks
-	if (apps.some((app) => ORM_FRAMEWORKS.includes(app.template))) {
+	if (flags.orm) {
+		// ORM chosen by flag - only ask for the database if it wasn't given
+		orm =
+			flags.orm !== "none" && !flags.database
+				? resolveOrmConfig(flags.orm, await promptDatabase())
+				: resolveOrmConfig(flags.orm, flags.database);
+	} else if (apps.some((app) => templateHasCapability(app.template, "orm"))) {
+		// Ask for ORM setup if there are backend or full-stack frameworks
 		console.log(chalk.cyan("\n🗄️ Database Setup"));
 		console.log(
 			chalk.gray("You've selected backend or full-stack frameworks. Would you like to set up a database ORM?"),
@@ -339,36 +393,70 @@ async function promptUser(): Promise<CreateOptions> {
 		]);
 
 		if (ormResponse.ormType && ormResponse.ormType !== "none") {
-			const databaseResponse = await prompts([
-				{
-					type: "select",
-					name: "database",
-					message: "Choose a database:",
-					choices: [
-						{ title: "PostgreSQL", value: "postgresql" },
-						{ title: "SQLite", value: "sqlite" },
-						{ title: "MySQL", value: "mysql" },
-					],
-				},
-			]);
-
-			if (databaseResponse.database) {
-				orm = createOrmConfig(ormResponse.ormType, databaseResponse.database);
-			}
+			const database = flags.database ?? (await promptDatabase());
+			if (database) orm = createOrmConfig(ormResponse.ormType, database);
 		}
 	}
 
-	return {
-		appName: response.appName.trim(),
-		linting: response.linting,
+	return withLayout(flags, {
+		appName: appName.trim(),
+		linting,
 		apps,
 		packages,
 		orm,
-	};
+	});
+}
+
+/**
+ * Turn the selected package templates into packages and ask for additional blank packages
+ */
+async function promptPackages(selectedPackageTemplates: string[] = []): Promise<PackageTemplate[]> {
+	// Create packages directly from selected template keys
+	const packages: PackageTemplate[] = selectedPackageTemplates.map((templateKey: string) => ({
+		name: getDefaultWorkspaceName(templateKey), // Use template key as package name
+		template: templateKey,
+		category: "packages",
+	}));
+
+	// Ask for additional blank packages
+	const additionalPackagesResponse = await prompts({
+		type: "text",
+		name: "additionalPackages",
+		message: "Enter the names of blank packages you want to add (comma-separated, optional):",
+		initial: "",
+	});
+
+	// Add additional blank packages if provided
+	for (const packageName of splitList(additionalPackagesResponse.additionalPackages) ?? []) {
+		packages.push({
+			name: packageName,
+			template: "blank",
+			category: "blank",
+		});
+	}
+
+	return packages;
+}
+
+async function promptDatabase(): Promise<DatabaseType | undefined> {
+	const databaseResponse = await prompts([
+		{
+			type: "select",
+			name: "database",
+			message: "Choose a database:",
+			choices: [
+				{ title: "PostgreSQL", value: "postgresql" },
+				{ title: "SQLite", value: "sqlite" },
+				{ title: "MySQL", value: "mysql" },
+			],
+		},
+	]);
+
+	return databaseResponse.database;
 }
 
 async function createMonorepo(options: CreateOptions) {
-	const { appName, linting, apps, packages, orm } = options;
+	const { appName, linting, apps, packages, orm, scope, appsDir, packagesDir } = options;
 
 	// Add db package automatically if ORM is enabled
 	const finalPackages = [...packages];
@@ -380,6 +468,7 @@ async function createMonorepo(options: CreateOptions) {
 				name: "db",
 				template: "db",
 				category: "packages",
+				directory: packagesDir,
 			});
 		}
 	}
@@ -388,11 +477,11 @@ async function createMonorepo(options: CreateOptions) {
 	await mkdir(appName, { recursive: true });
 
 	// Create subdirectories
-	await mkdir(join(appName, "apps"), { recursive: true });
-	if (finalPackages.length > 0) await mkdir(join(appName, "packages"), { recursive: true });
+	await mkdir(join(appName, appsDir), { recursive: true });
+	if (finalPackages.length > 0) await mkdir(join(appName, packagesDir), { recursive: true });
 
 	// Create root package.json
-	await createRootPackageJson(appName, linting, apps, finalPackages, orm);
+	await createRootPackageJson(options, finalPackages);
 
 	// Create TypeScript config
 	await createRootTsConfig(appName, apps, finalPackages);
@@ -404,38 +493,40 @@ async function createMonorepo(options: CreateOptions) {
 	await createGitignore(appName, apps);
 
 	// Create packages first (especially db package for ORM)
-	for (const pkg of finalPackages) await createPackage(appName, pkg);
+	for (const pkg of finalPackages) await createPackage(appName, scope, pkg);
 
 	// Create ORM setup if specified (this will populate the db package)
 	if (orm && orm.type !== "none") {
-		await createOrmSetup(appName, orm);
+		await createOrmSetup(appName, orm, getWorkspacePath("package", { name: "db", directory: packagesDir }));
 		await addDockerCompose(appName, orm);
 	}
 
 	// Create apps
-	for (const app of apps) await createApp(appName, app, finalPackages, orm);
+	for (const app of apps) await createApp(appName, scope, app, finalPackages, orm);
+
+	// Record what was generated
+	const manifest = createManifest(basename(appName), scope, linting, orm);
+	for (const pkg of finalPackages) recordWorkspace(manifest, "package", pkg);
+	for (const app of apps) recordWorkspace(manifest, "app", app);
+	await writeManifest(appName, manifest);
+	for (const workspace of manifest.workspaces) await writeWorkspaceBase(appName, workspace.path);
 }
 
-async function createRootPackageJson(
-	appName: string,
-	linting: string,
-	apps: AppTemplate[],
-	packages: PackageTemplate[],
-	orm?: OrmConfig,
-) {
+async function createRootPackageJson(options: CreateOptions, packages: PackageTemplate[]) {
+	const { appName, linting, apps, orm, appsDir, packagesDir } = options;
 	const ormDeps = orm ? getOrmDependencies(orm) : { dependencies: {}, devDependencies: {} };
-	const ormScripts = orm ? getOrmScripts(orm) : {};
+	const ormScripts = orm ? getOrmScripts(orm, getWorkspacePath("package", { name: "db", directory: packagesDir })) : {};
 
 	const packageJson = {
-		name: appName,
+		// The root package is never published, but its name still has to be a legal package name
+		name: normalizeScope(basename(appName)),
 		version: "1.0.0",
 		private: true,
-		workspaces: ["apps/*", ...(packages.length > 0 ? ["packages/*"] : [])],
+		workspaces: [`${appsDir}/*`, ...(packages.length > 0 ? [`${packagesDir}/*`] : [])],
 		scripts: {
-			build:
-				packages.length > 0
-					? 'bun run --filter="./packages/*" build && bun run --filter="./apps/*" build'
-					: 'bun run --filter="*" build',
+			// Builds every workspace once the workspaces it depends on are built, in parallel where possible, skipping
+			// unchanged ones
+			build: "create-bun-monorepo run build --cache",
 			dev: 'bun run --filter="*" dev',
 			typecheck: apps.some((app) => app.template.includes("react-router"))
 				? 'bun run --filter="*" typecheck'
@@ -457,6 +548,8 @@ async function createRootPackageJson(
 		},
 		devDependencies: {
 			"@types/node": "^20",
+			// The version generating the monorepo, which has the run command of the build script
+			"create-bun-monorepo": `^${getCliVersion()}`,
 			...(linting === "biome" && {
 				"@biomejs/biome": "2.1.1",
 			}),
@@ -478,8 +571,8 @@ async function createRootTsConfig(appName: string, apps: AppTemplate[], packages
 	const rootTsConfig = {
 		files: [],
 		references: [
-			...packages.map((pkg) => ({ path: `packages/${pkg.name}` })),
-			...apps.map((app) => ({ path: `apps/${app.name}` })),
+			...packages.map((pkg) => ({ path: getWorkspacePath("package", pkg) })),
+			...apps.map((app) => ({ path: getWorkspacePath("app", app) })),
 		],
 	};
 
@@ -510,6 +603,7 @@ async function createLintingConfig(
 		"node_modules",
 		"build",
 		"dist",
+		".bun-monorepo",
 		...(apps.some((app) => app.template.includes("nextjs")) ? [".next", "out"] : []),
 		...(apps.some((app) => app.template.includes("react-router")) ? [".react-router", ".cache"] : []),
 	].join("\n")}\n`;
@@ -571,19 +665,26 @@ async function createGitignore(appName: string, apps: AppTemplate[]) {
 		"*.log",
 		".DS_Store",
 		".env",
+		".cache/",
 		...(apps.some((app) => app.template.includes("nextjs")) ? [".next/", "out/"] : []),
-		...(apps.some((app) => app.template.includes("react-router")) ? [".react-router/", ".cache/"] : []),
+		...(apps.some((app) => app.template.includes("react-router")) ? [".react-router/"] : []),
 	].join("\n");
 
 	await writeFile(join(appName, ".gitignore"), `${gitignore}\n`, { encoding: "utf-8" });
 }
 
-async function createApp(appName: string, app: AppTemplate, packages: PackageTemplate[], orm?: OrmConfig) {
-	await createAppWithProcessing(appName, app, packages, orm);
+async function createApp(
+	appName: string,
+	scope: string,
+	app: AppTemplate,
+	packages: PackageTemplate[],
+	orm?: OrmConfig,
+) {
+	await createAppWithProcessing(appName, scope, app, packages, orm);
 }
 
-async function createPackage(appName: string, pkg: PackageTemplate) {
-	await createPackageWithProcessing(appName, pkg);
+async function createPackage(appName: string, scope: string, pkg: PackageTemplate) {
+	await createPackageWithProcessing(appName, scope, pkg);
 }
 
 // Helper function to get template choices for prompts
@@ -628,7 +729,7 @@ function getCategoryTemplateChoices(
 	if (!category) throw new Error(`Category '${categoryKey}' not found in templates config`);
 
 	return Object.entries(category.templates).map(([templateKey, template]) => ({
-		title: template.name,
+		title: template.namespace ? `${template.name} (${template.namespace})` : template.name,
 		description: template.description,
 		value: templateKey,
 	}));
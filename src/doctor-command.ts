@@ -0,0 +1,276 @@
+import { join, relative, resolve } from "node:path";
+import chalk from "chalk";
+import { previewChanges } from "./lib/dry-run";
+import { readManifest, resolveScope } from "./lib/manifest";
+import { runTransaction } from "./lib/transaction";
+import {
+	DEPENDENCY_FIELDS,
+	findMonorepoRoot,
+	findWorkspaces,
+	listSourceFiles,
+	removeDependency,
+	renameDependency,
+	rewriteImports,
+	type WorkspaceInfo,
+} from "./lib/workspaces";
+import type { DoctorOptions } from "./types";
+import { patchJsonFile } from "./utils/file";
+import { pathExists, readFile } from "./utils/fs";
+import { parseJsonc } from "./utils/jsonc";
+
+type Severity = "error" | "warning";
+
+interface Issue {
+	severity: Severity;
+	message: string;
+	/** Repair the issue in the loaded documents; missing for issues that need a manual fix */
+	fix?: () => Promise<void> | void;
+}
+
+interface TsConfig {
+	references?: unknown[];
+	[key: string]: unknown;
+}
+
+/**
+ * JSON documents loaded for the checks; fixes edit them in place and mark them dirty
+ */
+class Documents {
+	private readonly dirty = new Map<string, unknown>();
+
+	markDirty(path: string, document: unknown): void {
+		this.dirty.set(path, document);
+	}
+
+	async write(): Promise<void> {
+		for (const [path, document] of this.dirty) await patchJsonFile(path, document);
+	}
+}
+
+const SEVERITY_LABELS: Record<Severity, string> = {
+	error: chalk.red("✗ error  "),
+	warning: chalk.yellow("⚠ warning"),
+};
+
+export async function doctor(options: DoctorOptions = {}): Promise<void> {
+	console.log(chalk.blue("🩺 Doctor"));
+	console.log(chalk.gray("Check the monorepo for drift from the scaffolded conventions\n"));
+
+	const rootPath = await findMonorepoRoot(options.cwd);
+
+	const workspaces = await findWorkspaces(rootPath);
+	const scope = resolveScope(rootPath, await readManifest(rootPath), workspaces);
+	const documents = new Documents();
+
+	const issues = [
+		...(await checkTsConfigReferences(rootPath, workspaces, documents)),
+		...checkWorkspaceDependencies(scope, workspaces, documents),
+		...checkPackageNames(scope, workspaces, documents),
+	];
+
+	if (issues.length === 0) {
+		console.log(chalk.green("✅ No problems found"));
+		return;
+	}
+
+	for (const issue of issues) {
+		const fixable = issue.fix ? chalk.gray(" (fixable)") : "";
+		console.log(`${SEVERITY_LABELS[issue.severity]} ${issue.message}${fixable}`);
+	}
+
+	const errors = issues.filter((issue) => issue.severity === "error").length;
+	const fixable = issues.filter((issue) => issue.fix);
+	console.log(
+		chalk.gray(`\n${errors} error(s), ${issues.length - errors} warning(s), ${fixable.length} fixable automatically`),
+	);
+
+	if (!options.fix) {
+		if (fixable.length > 0) console.log(chalk.gray("Run doctor --fix to repair the fixable problems."));
+		if (errors > 0) throw new Error(`Found ${errors} error(s) in the monorepo`);
+		return;
+	}
+
+	const operation = async () => {
+		for (const issue of fixable) await issue.fix?.();
+		await documents.write();
+	};
+	if (options.dryRun) {
+		await previewChanges(operation, rootPath);
+		return;
+	}
+	await runTransaction(operation, rootPath);
+
+	console.log(chalk.green(`\n🔧 Fixed ${fixable.length} problem(s)`));
+	const remaining = issues.filter((issue) => !issue.fix);
+	if (remaining.length > 0) {
+		console.log(chalk.yellow(`⚠️  ${remaining.length} problem(s) need a manual fix`));
+		if (remaining.some((issue) => issue.severity === "error")) {
+			throw new Error("Errors remain that --fix cannot repair");
+		}
+	}
+}
+
+async function readTsConfig(path: string): Promise<TsConfig | null | undefined> {
+	if (!(await pathExists(path))) return undefined;
+	try {
+		return parseJsonc(await readFile(path, "utf-8"));
+	} catch {
+		return null;
+	}
+}
+
+const getReferencePath = (reference: unknown): string | undefined =>
+	reference && typeof reference === "object" && "path" in reference && typeof reference.path === "string"
+		? reference.path
+		: undefined;
+
+/**
+ * Project references: dangling or duplicated everywhere, and workspaces missing from the root tsconfig.json
+ */
+async function checkTsConfigReferences(
+	rootPath: string,
+	workspaces: WorkspaceInfo[],
+	documents: Documents,
+): Promise<Issue[]> {
+	const issues: Issue[] = [];
+
+	for (const directory of [rootPath, ...workspaces.map((workspace) => workspace.absolutePath)]) {
+		const tsConfigPath = join(directory, "tsconfig.json");
+		const displayPath = relative(rootPath, tsConfigPath);
+		const tsConfig = await readTsConfig(tsConfigPath);
+
+		if (tsConfig === null) {
+			issues.push({ severity: "error", message: `${displayPath} is not valid JSON, its references cannot be checked` });
+			continue;
+		}
+		if (!tsConfig) continue;
+
+		const references = tsConfig.references ?? [];
+		const seen = new Set<string>();
+
+		for (const reference of references) {
+			const path = getReferencePath(reference);
+			if (path === undefined) continue;
+			const target = resolve(directory, path);
+
+			if (seen.has(target)) {
+				issues.push({
+					severity: "warning",
+					message: `${displayPath} references ${path} more than once`,
+					fix: () => removeReference(tsConfig, reference, tsConfigPath, documents),
+				});
+				continue;
+			}
+			seen.add(target);
+
+			if (!(await pathExists(target))) {
+				issues.push({
+					severity: "error",
+					message: `${displayPath} references ${path}, which does not exist`,
+					fix: () => removeReference(tsConfig, reference, tsConfigPath, documents),
+				});
+			}
+		}
+
+		if (directory !== rootPath) continue;
+
+		for (const workspace of workspaces) {
+			if (seen.has(resolve(workspace.absolutePath))) continue;
+			if (!(await pathExists(join(workspace.absolutePath, "tsconfig.json")))) continue;
+
+			issues.push({
+				severity: "warning",
+				message: `${displayPath} has no reference to ${workspace.path}`,
+				fix: () => {
+					tsConfig.references = [...(tsConfig.references ?? []), { path: workspace.path }];
+					documents.markDirty(tsConfigPath, tsConfig);
+				},
+			});
+		}
+	}
+
+	return issues;
+}
+
+function removeReference(tsConfig: TsConfig, reference: unknown, tsConfigPath: string, documents: Documents): void {
+	const references = tsConfig.references ?? [];
+	// Remove this exact entry; the first of several duplicates is never reported, so it stays
+	const index = references.lastIndexOf(reference);
+	if (index !== -1) references.splice(index, 1);
+	documents.markDirty(tsConfigPath, tsConfig);
+}
+
+/**
+ * workspace: dependencies on packages that no workspace provides. Dependencies on the conventional name of a workspace
+ * named otherwise are left to its rename (checkPackageNames), which makes them resolve.
+ */
+function checkWorkspaceDependencies(scope: string, workspaces: WorkspaceInfo[], documents: Documents): Issue[] {
+	const packageNames = new Set(workspaces.map((workspace) => workspace.packageName));
+	for (const workspace of workspaces) packageNames.add(`@${scope}/${workspace.name}`);
+	const issues: Issue[] = [];
+
+	for (const workspace of workspaces) {
+		const missing = new Set(
+			DEPENDENCY_FIELDS.flatMap((field) => Object.entries(workspace.packageJson[field] ?? {}))
+				.filter(([name, version]) => version.startsWith("workspace:") && !packageNames.has(name))
+				.map(([name]) => name),
+		);
+
+		for (const name of missing) {
+			issues.push({
+				severity: "error",
+				message: `${workspace.path} depends on ${name}, which is not a workspace of this monorepo`,
+				fix: () => {
+					removeDependency(workspace.packageJson, name);
+					documents.markDirty(join(workspace.absolutePath, "package.json"), workspace.packageJson);
+				},
+			});
+		}
+	}
+
+	return issues;
+}
+
+/**
+ * Package names that do not follow the @<scope>/<directory> convention
+ */
+function checkPackageNames(scope: string, workspaces: WorkspaceInfo[], documents: Documents): Issue[] {
+	const issues: Issue[] = [];
+
+	for (const workspace of workspaces) {
+		const expected = `@${scope}/${workspace.name}`;
+		const actual = workspace.packageName;
+		if (actual === expected) continue;
+
+		const taken = workspaces.some((other) => other !== workspace && other.packageName === expected);
+		issues.push({
+			severity: "warning",
+			message: `${workspace.path} is named ${actual}, expected ${expected}${taken ? " (already used by another workspace)" : ""}`,
+			fix: taken ? undefined : () => renamePackage(workspace, workspaces, expected, documents),
+		});
+	}
+
+	return issues;
+}
+
+/**
+ * Rename a workspace's package and update dependents and import specifiers
+ */
+async function renamePackage(
+	target: WorkspaceInfo,
+	workspaces: WorkspaceInfo[],
+	newName: string,
+	documents: Documents,
+): Promise<void> {
+	const oldName = target.packageName;
+	target.packageJson.name = newName;
+	target.packageName = newName;
+	documents.markDirty(join(target.absolutePath, "package.json"), target.packageJson);
+
+	for (const workspace of workspaces) {
+		if (renameDependency(workspace.packageJson, oldName, newName)) {
+			documents.markDirty(join(workspace.absolutePath, "package.json"), workspace.packageJson);
+		}
+		for (const file of await listSourceFiles(workspace.absolutePath)) await rewriteImports(file, oldName, newName);
+	}
+}
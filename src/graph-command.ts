@@ -0,0 +1,140 @@
+import { resolve } from "node:path";
+import chalk from "chalk";
+import { buildWorkspaceGraph, findCycles, type WorkspaceGraph } from "./lib/graph";
+import { findMonorepoRoot, findWorkspaces, type WorkspaceInfo } from "./lib/workspaces";
+import type { GraphFormat, GraphOptions } from "./types";
+import { writeFile } from "./utils/fs";
+
+const NODE_ID_REGEX = /[^a-zA-Z0-9_]/g;
+
+export async function graph(options: GraphOptions = {}): Promise<void> {
+	const rootPath = await findMonorepoRoot(options.cwd);
+
+	const workspaceGraph = buildWorkspaceGraph(await findWorkspaces(rootPath));
+	const cycles = findCycles(workspaceGraph);
+	const output = formatGraph(workspaceGraph, cycles, options.format ?? "mermaid");
+
+	// Diagnostics go to stderr so the graph itself can be piped
+	for (const cycle of cycles) console.error(chalk.yellow(`⚠️  Dependency cycle: ${cycle.join(" → ")}`));
+
+	if (options.output) {
+		await writeFile(resolve(options.output), output);
+		console.error(chalk.green(`✅ Wrote the workspace graph to ${options.output}`));
+	} else {
+		process.stdout.write(output);
+	}
+}
+
+function formatGraph(workspaceGraph: WorkspaceGraph, cycles: string[][], format: GraphFormat): string {
+	switch (format) {
+		case "dot":
+			return formatDot(workspaceGraph, cycles);
+		case "json":
+			return formatJson(workspaceGraph, cycles);
+		default:
+			return formatMermaid(workspaceGraph, cycles);
+	}
+}
+
+/**
+ * Edges that are part of a cycle, as "from → to" keys
+ */
+function getCycleEdges(cycles: string[][]): Set<string> {
+	const edges = new Set<string>();
+	for (const cycle of cycles) {
+		for (let i = 0; i < cycle.length - 1; i++) edges.add(`${cycle[i]} → ${cycle[i + 1]}`);
+	}
+	return edges;
+}
+
+/**
+ * Mermaid node id of each workspace: its path with other characters than letters, digits and _ replaced by _, numbered
+ * when that id is already taken (apps/my-web and apps/my_web)
+ */
+function getNodeIds(workspaces: WorkspaceInfo[]): Map<WorkspaceInfo, string> {
+	const nodeIds = new Map<WorkspaceInfo, string>();
+	const taken = new Set<string>();
+
+	for (const workspace of workspaces) {
+		const base = workspace.path.replace(NODE_ID_REGEX, "_");
+		let nodeId = base;
+		for (let suffix = 2; taken.has(nodeId); suffix++) nodeId = `${base}_${suffix}`;
+		taken.add(nodeId);
+		nodeIds.set(workspace, nodeId);
+	}
+
+	return nodeIds;
+}
+
+function forEachEdge(
+	workspaceGraph: WorkspaceGraph,
+	callback: (from: WorkspaceInfo, to: WorkspaceInfo, key: string) => void,
+): void {
+	const byPackageName = new Map(workspaceGraph.workspaces.map((workspace) => [workspace.packageName, workspace]));
+
+	for (const from of workspaceGraph.workspaces) {
+		for (const dependency of workspaceGraph.dependencies.get(from.packageName) ?? []) {
+			const to = byPackageName.get(dependency);
+			if (to) callback(from, to, `${from.packageName} → ${to.packageName}`);
+		}
+	}
+}
+
+function formatMermaid(workspaceGraph: WorkspaceGraph, cycles: string[][]): string {
+	const cycleEdges = getCycleEdges(cycles);
+	const nodeIds = getNodeIds(workspaceGraph.workspaces);
+	const lines = ["graph TD"];
+
+	for (const type of ["app", "package"] as const) {
+		const workspaces = workspaceGraph.workspaces.filter((workspace) => workspace.type === type);
+		if (workspaces.length === 0) continue;
+
+		lines.push(`\tsubgraph ${type === "app" ? "apps" : "packages"}`);
+		for (const workspace of workspaces) lines.push(`\t\t${nodeIds.get(workspace)}["${workspace.packageName}"]`);
+		lines.push("\tend");
+	}
+
+	const cycleLinks: number[] = [];
+	let linkIndex = 0;
+	forEachEdge(workspaceGraph, (from, to, key) => {
+		lines.push(`\t${nodeIds.get(from)} --> ${nodeIds.get(to)}`);
+		if (cycleEdges.has(key)) cycleLinks.push(linkIndex);
+		linkIndex++;
+	});
+
+	if (cycleLinks.length > 0) lines.push(`\tlinkStyle ${cycleLinks.join(",")} stroke:#e53e3e,stroke-width:2px`);
+
+	return `${lines.join("\n")}\n`;
+}
+
+function formatDot(workspaceGraph: WorkspaceGraph, cycles: string[][]): string {
+	const cycleEdges = getCycleEdges(cycles);
+	const lines = ["digraph workspaces {", "\trankdir=TB;", "\tnode [shape=box];"];
+
+	for (const type of ["app", "package"] as const) {
+		const workspaces = workspaceGraph.workspaces.filter((workspace) => workspace.type === type);
+		if (workspaces.length === 0) continue;
+
+		lines.push(`\tsubgraph cluster_${type}s {`, `\t\tlabel="${type}s";`);
+		for (const workspace of workspaces) lines.push(`\t\t"${workspace.packageName}";`);
+		lines.push("\t}");
+	}
+
+	forEachEdge(workspaceGraph, (from, to, key) => {
+		const attributes = cycleEdges.has(key) ? " [color=red]" : "";
+		lines.push(`\t"${from.packageName}" -> "${to.packageName}"${attributes};`);
+	});
+
+	lines.push("}");
+	return `${lines.join("\n")}\n`;
+}
+
+function formatJson(workspaceGraph: WorkspaceGraph, cycles: string[][]): string {
+	const workspaces = workspaceGraph.workspaces.map((workspace) => ({
+		name: workspace.packageName,
+		type: workspace.type,
+		path: workspace.path,
+		dependencies: workspaceGraph.dependencies.get(workspace.packageName) ?? [],
+	}));
+	return `${JSON.stringify({ workspaces, cycles }, null, 2)}\n`;
+}
@@ -1,9 +1,34 @@
 #!/usr/bin/env node
 
+import { resolve } from "node:path";
 import chalk from "chalk";
 import { addOrmSetup, addSingleApp, addSinglePackage, addToMonorepo } from "./add-command";
+import { affected } from "./affected-command";
+import {
+	addCommand,
+	affectedCommand,
+	commands,
+	createCommand,
+	doctorCommand,
+	graphCommand,
+	linkCommand,
+	removeCommand,
+	renameCommand,
+	runCommand,
+	upgradeCommand,
+} from "./commands";
 import { create } from "./create-command";
+import { doctor } from "./doctor-command";
+import { graph } from "./graph-command";
+import { findCommand, formatCommandHelp, formatGlobalHelp, parseArgs } from "./lib/cli";
 import { logger } from "./lib/logger";
+import { link } from "./link-command";
+import { remove } from "./remove-command";
+import { rename } from "./rename-command";
+import { run } from "./run-command";
+import { getDefaultWorkspaceName, setTemplateDirectories } from "./templates";
+import type { AddCommandOptions } from "./types";
+import { upgrade } from "./upgrade-command";
 
 /**
  * Display banner with tool information
@@ -31,29 +56,62 @@ export function displayError(error: Error): void {
 
 async function main() {
 	try {
-		displayBanner();
-
 		// Parse command line arguments
 		const args = process.argv.slice(2);
-		const command = args[0];
+		const commandName = args[0];
+
+		// Commands printing machine-readable output keep stdout clean for piping
+		if (commandName !== "graph") displayBanner();
+
+		// Handle help flags ("help" alone, or "help <command>")
+		if (commandName === "help" || commandName === "--help" || commandName === "-h") {
+			const helpTarget = args[1] ? findCommand(commands, args[1]) : undefined;
+			if (helpTarget) console.log(formatCommandHelp(helpTarget));
+			else displayHelp();
+			return;
+		}
 
-		// Handle help flags
-		if (command === "help" || command === "--help" || command === "-h") {
-			displayHelp();
+		// Flags without a command apply to the default create command
+		if (!commandName || commandName.startsWith("-")) {
+			await handleCreateCommand(args);
 			return;
 		}
 
-		switch (command) {
+		const command = findCommand(commands, commandName);
+
+		switch (command?.name) {
 			case "add":
 				await handleAddCommand(args.slice(1));
 				break;
-			case "scaffold":
 			case "create":
-			case undefined:
 				await handleCreateCommand(args.slice(1));
 				break;
+			case "remove":
+				await handleRemoveCommand(args.slice(1));
+				break;
+			case "rename":
+				await handleRenameCommand(args.slice(1));
+				break;
+			case "link":
+				await handleLinkCommand(args.slice(1));
+				break;
+			case "graph":
+				await handleGraphCommand(args.slice(1));
+				break;
+			case "affected":
+				await handleAffectedCommand(args.slice(1));
+				break;
+			case "run":
+				await handleRunCommand(args.slice(1));
+				break;
+			case "doctor":
+				await handleDoctorCommand(args.slice(1));
+				break;
+			case "upgrade":
+				await handleUpgradeCommand(args.slice(1));
+				break;
 			default:
-				console.log(`Unknown command: ${command}`);
+				console.log(`Unknown command: ${commandName}`);
 				displayHelp();
 				process.exit(1);
 		}
@@ -68,81 +126,208 @@ async function main() {
 }
 
 async function handleAddCommand(args: string[]) {
-	// Parse flags
-	const flags = parseFlags(args);
+	const { flags, help } = parseArgs(addCommand, args);
+
+	if (help) {
+		console.log(formatCommandHelp(addCommand));
+		return;
+	}
+
+	const selected = [flags.app && "--app", flags.package && "--package", flags.orm && "--orm"].filter(Boolean);
+	if (selected.length > 1) throw new Error(`Options ${selected.join(", ")} cannot be combined`);
+	if (flags.force && flags.merge) throw new Error("Options --force and --merge cannot be combined");
+	if (flags.dir !== undefined && flags.orm) throw new Error("Option --dir cannot be combined with --orm");
+	setTemplateDirectories(flags["template-dir"], resolve(flags.cwd ?? "."));
+
+	const commandOptions: AddCommandOptions = {
+		dryRun: flags["dry-run"],
+		force: flags.force,
+		merge: flags.merge,
+		cwd: flags.cwd,
+		dir: flags.dir,
+		set: flags.set,
+	};
 
 	if (flags.package) {
-		const packageInput = typeof flags.package === "string" ? flags.package : "";
-		const { name: packageName, template: packageTemplate } = parseNameAndTemplate(packageInput);
+		const { name: packageName, template: packageTemplate } = parseNameAndTemplate(flags.package);
 		console.log(`Adding package: ${packageName}${packageTemplate ? ` (template: ${packageTemplate})` : ""}`);
-		await addSinglePackage(packageName, packageTemplate);
+		await addSinglePackage(packageName, packageTemplate, commandOptions);
 	} else if (flags.app) {
-		const appInput = typeof flags.app === "string" ? flags.app : "";
-		const { name: appName, template: appTemplate } = parseNameAndTemplate(appInput);
+		const { name: appName, template: appTemplate } = parseNameAndTemplate(flags.app);
 		console.log(`Adding app: ${appName}${appTemplate ? ` (template: ${appTemplate})` : ""}`);
-		await addSingleApp(appName, appTemplate);
+		await addSingleApp(appName, appTemplate, commandOptions);
 	} else if (flags.orm) {
 		console.log("Adding ORM setup");
-		await addOrmSetup();
+		await addOrmSetup(commandOptions);
 	} else {
 		// Interactive mode for multiple additions
-		await addToMonorepo();
+		await addToMonorepo(commandOptions);
 	}
 }
 
 async function handleCreateCommand(args: string[]) {
-	// Parse create command arguments - support both old and new format
-	const flags = parseFlags(args);
+	const { flags, positionals, help } = parseArgs(createCommand, args);
 
-	// Set environment variables from flags for backward compatibility
-	if (flags.apps && typeof flags.apps === "string") {
-		process.env.APPS = flags.apps;
-	} else if (Array.isArray(flags.apps)) {
-		process.env.APPS = flags.apps.join(",");
+	if (help) {
+		console.log(formatCommandHelp(createCommand));
+		return;
 	}
 
-	if (flags.packages && typeof flags.packages === "string") {
-		process.env.PACKAGES = flags.packages;
-	} else if (Array.isArray(flags.packages)) {
-		process.env.PACKAGES = flags.packages.join(",");
+	const [positionalName] = positionals;
+	if (positionalName && flags.name && positionalName !== flags.name) {
+		throw new Error(`Conflicting project names: '${positionalName}' (argument) and '${flags.name}' (--name)`);
 	}
+	if (flags.force && flags.merge) throw new Error("Options --force and --merge cannot be combined");
+	setTemplateDirectories(flags["template-dir"]);
 
-	if (flags.orm && typeof flags.orm === "string") {
-		process.env.ORM = flags.orm;
+	await create({
+		name: flags.name ?? positionalName,
+		linting: flags.linting,
+		apps: splitListFlag(flags.apps),
+		packages: splitListFlag(flags.packages),
+		orm: flags.orm,
+		database: flags.database,
+		scope: flags.scope,
+		appsDir: flags["apps-dir"],
+		packagesDir: flags["packages-dir"],
+		set: flags.set,
+		yes: flags.yes,
+		dryRun: flags["dry-run"],
+		force: flags.force,
+		merge: flags.merge,
+	});
+}
+
+async function handleRemoveCommand(args: string[]) {
+	const { flags, help } = parseArgs(removeCommand, args);
+
+	if (help) {
+		console.log(formatCommandHelp(removeCommand));
+		return;
 	}
 
-	if (flags.yes) process.env.NON_INTERACTIVE = "true";
-	if (args[0] && !args[0].startsWith("--")) process.env.PROJECT_NAME = args[0];
+	if (flags.app && flags.package) throw new Error("Options --app and --package cannot be combined");
+	if (!flags.app && !flags.package)
+		throw new Error("Specify the workspace to remove with --app <name> or --package <name>");
 
-	await create();
+	const options = { yes: flags.yes, dryRun: flags["dry-run"], cwd: flags.cwd };
+	if (flags.app) await remove("app", flags.app, options);
+	else if (flags.package) await remove("package", flags.package, options);
 }
 
-interface ParsedFlags {
-	[key: string]: string | string[] | boolean;
+async function handleRenameCommand(args: string[]) {
+	const { flags, positionals, help } = parseArgs(renameCommand, args);
+
+	if (help) {
+		console.log(formatCommandHelp(renameCommand));
+		return;
+	}
+
+	if (flags.app && flags.package) throw new Error("Options --app and --package cannot be combined");
+
+	const [newName] = positionals;
+	if (!newName) throw new Error("Missing the new name");
+
+	const options = { dryRun: flags["dry-run"], cwd: flags.cwd };
+	if (flags.app) await rename("app", flags.app, newName, options);
+	else if (flags.package) await rename("package", flags.package, newName, options);
+	else throw new Error("Specify the workspace to rename with --app <name> or --package <name>");
 }
 
-function parseFlags(args: string[]): ParsedFlags {
-	const flags: ParsedFlags = {};
+async function handleLinkCommand(args: string[]) {
+	const { flags, positionals, help } = parseArgs(linkCommand, args);
 
-	for (let i = 0; i < args.length; i++) {
-		const arg = args[i];
+	if (help) {
+		console.log(formatCommandHelp(linkCommand));
+		return;
+	}
 
-		if (arg?.startsWith("--")) {
-			const flagName = arg.substring(2);
-			const nextArg = args[i + 1];
+	const [packageName, ...appNames] = positionals;
+	if (!packageName || appNames.length === 0) throw new Error("Usage: link <package> <app...>");
 
-			// Boolean flags
-			if (!nextArg || nextArg.startsWith("--")) {
-				flags[flagName] = true;
-			} else {
-				// String flags
-				flags[flagName] = nextArg;
-				i++; // Skip next arg since we consumed it
-			}
-		}
+	await link(packageName, appNames, { dryRun: flags["dry-run"], cwd: flags.cwd });
+}
+
+async function handleGraphCommand(args: string[]) {
+	const { flags, help } = parseArgs(graphCommand, args);
+
+	if (help) {
+		console.log(formatCommandHelp(graphCommand));
+		return;
+	}
+
+	await graph({ format: flags.format, output: flags.output, cwd: flags.cwd });
+}
+
+async function handleAffectedCommand(args: string[]) {
+	const { flags, help } = parseArgs(affectedCommand, args);
+
+	if (help) {
+		console.log(formatCommandHelp(affectedCommand));
+		return;
+	}
+
+	if (!flags.base) throw new Error("Specify the git ref to compare against with --base <ref>");
+	await affected({ base: flags.base, run: flags.run, cwd: flags.cwd });
+}
+
+async function handleRunCommand(args: string[]) {
+	const { flags, positionals, help } = parseArgs(runCommand, args);
+
+	if (help) {
+		console.log(formatCommandHelp(runCommand));
+		return;
+	}
+
+	const [script] = positionals;
+	if (!script) throw new Error("Missing the script to run");
+	if (flags.concurrency !== undefined && (!Number.isInteger(flags.concurrency) || flags.concurrency < 1)) {
+		throw new Error("--concurrency must be a positive integer");
 	}
 
-	return flags;
+	await run(script, {
+		concurrency: flags.concurrency,
+		continueOnError: flags.continue,
+		cache: flags.cache,
+		env: flags.env,
+		cwd: flags.cwd,
+	});
+}
+
+async function handleDoctorCommand(args: string[]) {
+	const { flags, help } = parseArgs(doctorCommand, args);
+
+	if (help) {
+		console.log(formatCommandHelp(doctorCommand));
+		return;
+	}
+
+	if (flags["dry-run"] && !flags.fix) throw new Error("Option --dry-run only applies together with --fix");
+	await doctor({ fix: flags.fix, dryRun: flags["dry-run"], cwd: flags.cwd });
+}
+
+async function handleUpgradeCommand(args: string[]) {
+	const { flags, positionals, help } = parseArgs(upgradeCommand, args);
+
+	if (help) {
+		console.log(formatCommandHelp(upgradeCommand));
+		return;
+	}
+
+	const [workspace] = positionals;
+	setTemplateDirectories(flags["template-dir"], resolve(flags.cwd ?? "."));
+	await upgrade(workspace, { dryRun: flags["dry-run"], cwd: flags.cwd });
+}
+
+/**
+ * Flatten repeated and comma-separated list flags; undefined when the flag was not given
+ */
+function splitListFlag(values: string[]): string[] | undefined {
+	if (values.length === 0) return undefined;
+	return values
+		.flatMap((value) => value.split(","))
+		.map((value) => value.trim())
+		.filter(Boolean);
 }
 
 // Regex pattern for parsing bracket notation
@@ -154,14 +339,15 @@ const BRACKET_PATTERN = /^(.*)?\[([^\]]+)\]$/;
  * - "mypackage[hooks]" -> { name: "mypackage", template: "hooks" }
  * - "mypackage" -> { name: "mypackage", template: undefined }
  * - "[hooks]" -> { name: "hooks", template: "hooks" }
+ * - "[acme/fastify]" -> { name: "fastify", template: "acme/fastify" }
  */
 function parseNameAndTemplate(input: string): { name: string; template?: string } {
 	const match = input.match(BRACKET_PATTERN);
 
 	if (match) {
 		const [, namePrefix, template] = match;
-		// If no name prefix (e.g., "[hooks]"), use template as name
-		const name = namePrefix || template;
+		// If no name prefix (e.g., "[hooks]"), use the template (without its namespace) as name
+		const name = namePrefix || (template && getDefaultWorkspaceName(template));
 		if (!name) throw new Error("Invalid input format. Please provide a valid name or template.");
 		return { name: name.trim(), template: template?.trim() };
 	}
@@ -170,12 +356,7 @@ function parseNameAndTemplate(input: string): { name: string; template?: string
 }
 
 function displayHelp() {
-	console.log("Available commands:");
-	console.log("  create (default)         - Create a new monorepo");
-	console.log("  add                      - Add multiple components to existing monorepo (interactive)");
-	console.log("  add --package <name>     - Add a single package to existing monorepo");
-	console.log("  add --app <name>         - Add a single app to existing monorepo");
-	console.log("  add --orm                - Add ORM setup to existing monorepo");
+	console.log(formatGlobalHelp(commands));
 	console.log("");
 	console.log("Template Selection:");
 	console.log("  Use bracket notation to specify templates:");
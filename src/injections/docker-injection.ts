@@ -1,7 +1,7 @@
-import { writeFile } from "node:fs/promises";
 import { join } from "node:path";
 
 import type { OrmConfig } from "../types";
+import { writeFile } from "../utils/fs";
 
 /**
  * Add Docker Compose development configuration based on database choice
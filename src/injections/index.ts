@@ -1,3 +1,2 @@
 export * from "./docker-injection";
-export * from "./orm-injection";
 export * from "./ui-injection";
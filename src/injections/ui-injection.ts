@@ -1,276 +1,72 @@
-import { readFile, writeFile } from "node:fs/promises";
-import { join } from "node:path";
+import { join, relative } from "node:path";
 import chalk from "chalk";
 
-import type { AppTemplate, PackageTemplate } from "../types";
+import { escapeRegExp } from "../lib/workspaces";
+import { pathExists, readFile, writeFile } from "../utils/fs";
 
-// Regex patterns for UI injection
-const REACT_IMPORT_REGEX = /import { useState } from "react";/;
-const REACT_BUTTON_REGEX = /<button type="button" onClick=\{[^}]+\}>\s*count is \{count\}\s*<\/button>/;
-const WEBPACK_BUTTON_REGEX = /<button\s+[^>]*onClick=\{[^}]+\}[^>]*>\s*Count: \{count\}\s*<\/button>/;
-
-// React Vike patterns
-const REACT_VIKE_IMPORT_REGEX = /import { useState } from "react";/;
-const REACT_VIKE_BUTTON_REGEX =
-	/<button\s+type="button"\s+className=\{[^}]+\}\s+onClick=\{[^}]+\}\s*>\s*Counter \{count\}\s*<\/button>/;
-
-// Solito/Next.js Solito patterns
-const SOLITO_LINK_REGEX = /import { Link } from "solito\/link";/;
-const SOLITO_HOME_REGEX = /export default function Home\(\) \{/;
-const SOLITO_DIV_REGEX = /<div className="flex gap-4 justify-center">/;
-
-// React Router v7 patterns
-const REACT_ROUTER_INDEX_REGEX = /export function Welcome\(\) \{\s*return \(/;
-const REACT_ROUTER_UL_REGEX = /<ul>/;
-
-// React Native patterns
-const RN_TOUCHABLE_REGEX =
-	/<TouchableOpacity[^>]*onPress=\{[^}]+\}[^>]*>\s*<Text[^>]*>Count: \{count\}<\/Text>\s*<\/TouchableOpacity>/;
-
-/**
- * Inject UI component demonstrations into frontend app templates
- */
-export async function injectUIComponentDemos(
-	appPath: string,
-	app: AppTemplate,
-	packages: PackageTemplate[],
-	projectName: string,
-): Promise<void> {
-	const hasUIPackage = packages.some((pkg) => pkg.template === "ui");
-	const hasUINativePackage = packages.some((pkg) => pkg.template === "ui-native");
-
-	if (!hasUIPackage && !hasUINativePackage) return;
-
-	// Handle different app types
-	switch (app.template) {
-		case "react-vite":
-		case "react-webpack":
-			if (hasUIPackage) {
-				await injectReactUIDemo(appPath, projectName);
-			}
-			break;
-		case "react-vike":
-			if (hasUIPackage) {
-				await injectReactVikeUIDemo(appPath, projectName);
-			}
-			break;
-		case "nextjs":
-			if (hasUIPackage) {
-				await injectNextJSUIDemo(appPath, projectName);
-			}
-			break;
-		case "nextjs-solito":
-			if (hasUINativePackage) {
-				await injectNextJSSolitoUIDemo(appPath, projectName);
-			}
-			break;
-		case "react-router":
-			if (hasUIPackage) {
-				await injectReactRouterUIDemo(appPath, projectName);
-			}
-			break;
-		case "react-native-expo":
-		case "react-native-bare":
-			if (hasUINativePackage) {
-				await injectReactNativeUIDemo(appPath, projectName);
-			}
-			break;
-	}
-}
-
-/**
- * Inject UI component demo into React (Vite/Webpack) apps (with error handling)
- */
-async function injectReactUIDemo(appPath: string, projectName: string): Promise<void> {
-	const appFilePath = join(appPath, "src", "App.tsx");
-	try {
-		const content = await readFile(appFilePath, "utf-8");
-
-		const updatedContent = content
-			.replace(
-				REACT_IMPORT_REGEX,
-				`import { Button } from "@${projectName}/ui";
-import { useState } from "react";`,
-			)
-			.replace(REACT_BUTTON_REGEX, `<Button onClick={() => setCount((count) => count + 1)}>count is {count}</Button>`);
-
-		await writeFile(appFilePath, updatedContent, "utf-8");
-	} catch (error) {
-		console.warn(chalk.yellow(`Warning: Could not inject UI demo into ${appFilePath}: ${error}`));
-	}
-}
-
-/**
- * Inject UI component demo into Next.js apps
- */
-async function injectNextJSUIDemo(appPath: string, projectName: string): Promise<void> {
-	const pageFilePath = join(appPath, "src", "app", "page.tsx");
-	try {
-		const content = await readFile(pageFilePath, "utf-8");
-
-		const updatedContent = content
-			.replace(
-				REACT_IMPORT_REGEX,
-				`import { Button } from "@${projectName}/ui";
-import { useState } from "react";`,
-			)
-			.replace(WEBPACK_BUTTON_REGEX, `<Button onClick={() => setCount(count + 1)}>Count: {count}</Button>`);
-
-		await writeFile(pageFilePath, updatedContent, "utf-8");
-	} catch (error) {
-		console.warn(chalk.yellow(`Warning: Could not inject UI demo into ${pageFilePath}: ${error}`));
-	}
-}
+// Tailwind config patterns
+const TAILWIND_CONTENT_REGEX = /(content:\s*\[)([\s\S]*?)(\s*\])/;
+const LINE_INDENTATION_REGEX = /\n(\s*)/;
+const TRAILING_COMMA_REGEX = /,?$/;
+const TAILWIND_CONFIG_FILES = ["tailwind.config.js", "tailwind.config.cjs", "tailwind.config.ts"];
 
 /**
- * Inject UI component demo into Next.js + Solito apps
+ * Add UI package sources to an app's Tailwind content globs so the classes used by its components are generated
  */
-async function injectNextJSSolitoUIDemo(appPath: string, projectName: string): Promise<void> {
-	const pageFilePath = join(appPath, "src", "app", "page.tsx");
-	try {
-		const content = await readFile(pageFilePath, "utf-8");
-
-		const updatedContent = content
-			.replace(
-				SOLITO_LINK_REGEX,
-				`import { Button } from "@${projectName}/ui-native";
-import { useState } from "react";
-import { Link } from "solito/link";`,
-			)
-			.replace(
-				SOLITO_HOME_REGEX,
-				`export default function Home() {
-	const [count, setCount] = useState(0);`,
-			)
-			.replace(
-				SOLITO_DIV_REGEX,
-				`<div className="mb-8">
-					<h2 className="text-2xl font-semibold mb-4">UI Component Demo</h2>
-					<Button onPress={() => setCount(count + 1)}>Count: {count}</Button>
-				</div>
-
-				<div className="flex gap-4 justify-center">`,
-			);
-
-		await writeFile(pageFilePath, updatedContent, "utf-8");
-	} catch (_error) {
-		console.warn(chalk.yellow(`Warning: Could not inject UI-Native demo into ${pageFilePath}`));
+export async function injectUITailwindContent(appPath: string, packagePaths: string[]): Promise<void> {
+	if (packagePaths.length === 0) return;
+
+	for (const fileName of TAILWIND_CONFIG_FILES) {
+		const configPath = join(appPath, fileName);
+		if (!(await pathExists(configPath))) continue;
+
+		const content = await readFile(configPath, "utf-8");
+		const match = content.match(TAILWIND_CONTENT_REGEX);
+		if (!match) {
+			console.warn(chalk.yellow(`Warning: Could not find the content globs in ${configPath}`));
+			return;
+		}
+
+		const [, opening = "", entries = "", closing = ""] = match;
+		const globs = packagePaths
+			.map((packagePath) => `"${relative(appPath, packagePath)}/src/**/*.{js,ts,jsx,tsx,mdx}"`)
+			.filter((glob) => !entries.includes(glob));
+		if (globs.length === 0) return;
+
+		// Multi-line arrays get one glob per line, single-line arrays stay on one line
+		const indentation = entries.match(LINE_INDENTATION_REGEX)?.[1];
+		let updatedEntries = globs.join(", ");
+		if (indentation) {
+			updatedEntries = `${entries.replace(TRAILING_COMMA_REGEX, ",")}${globs.map((glob) => `\n${indentation}${glob},`).join("")}`;
+		} else if (entries.trim()) {
+			updatedEntries = `${entries}, ${updatedEntries}`;
+		}
+
+		await writeFile(configPath, content.replace(TAILWIND_CONTENT_REGEX, `${opening}${updatedEntries}${closing}`));
+		return;
 	}
 }
 
 /**
- * Inject UI component demo into React Router apps
+ * Point the Tailwind content globs of an app at a package's new folder; returns whether anything changed
  */
-async function injectReactRouterUIDemo(appPath: string, projectName: string): Promise<void> {
-	const indexFilePath = join(appPath, "app", "welcome", "welcome.tsx");
-	try {
-		const content = await readFile(indexFilePath, "utf-8");
+export async function renameUITailwindContent(appPath: string, oldPackagePath: string, newPackagePath: string) {
+	const oldGlobPrefix = new RegExp(`(["'\`])${escapeRegExp(relative(appPath, oldPackagePath))}/`, "g");
 
-		const updatedContent = content
-			.replace(
-				"",
-				`import { Button } from "@${projectName}/ui";
-import { useState } from "react";
-`,
-			)
-			.replace(
-				REACT_ROUTER_INDEX_REGEX,
-				`export function Welcome() {
-	const [count, setCount] = useState(0);
+	for (const fileName of TAILWIND_CONFIG_FILES) {
+		const configPath = join(appPath, fileName);
+		if (!(await pathExists(configPath))) continue;
 
-	return (`,
-			)
-			.replace(
-				REACT_ROUTER_UL_REGEX,
-				`<div style={{ marginBottom: "2rem" }}>
-							<h2>UI Component Demo</h2>
-							<Button onClick={() => setCount((count) => count + 1)}>Count is {count}</Button>
-						</div>
-						<ul>`,
-			);
+		const content = await readFile(configPath, "utf-8");
+		const updatedContent = content.replace(TAILWIND_CONTENT_REGEX, (_match, opening, entries, closing) => {
+			const updatedEntries = entries.replace(oldGlobPrefix, `$1${relative(appPath, newPackagePath)}/`);
+			return `${opening}${updatedEntries}${closing}`;
+		});
+		if (updatedContent === content) return false;
 
-		await writeFile(indexFilePath, updatedContent, "utf-8");
-	} catch (_error) {
-		console.warn(chalk.yellow(`Warning: Could not inject UI demo into ${indexFilePath}`));
-	}
-}
-
-/**
- * Inject UI component demo into React Native apps
- */
-async function injectReactNativeUIDemo(appPath: string, projectName: string): Promise<void> {
-	// For React Native Expo
-	let appFilePath = join(appPath, "app", "index.tsx");
-	if (!(await fileExists(appFilePath))) {
-		// For React Native Bare
-		appFilePath = join(appPath, "App.tsx");
-	}
-
-	try {
-		const content = await readFile(appFilePath, "utf-8");
-
-		const updatedContent =
-			`import { Button } from "@${projectName}/ui-native";\n` +
-			content.replace(
-				RN_TOUCHABLE_REGEX,
-				`<TouchableOpacity onPress={() => setCount(count + 1)}>
-						<Text>Count: {count}</Text>
-					</TouchableOpacity>
-					<Button onPress={() => setCount(count + 1)}>Count: {count}</Button>`,
-			);
-
-		await writeFile(appFilePath, updatedContent, "utf-8");
-	} catch (_error) {
-		console.warn(chalk.yellow(`Warning: Could not inject UI-Native demo into ${appFilePath}`));
-	}
-}
-
-/**
- * Inject UI component demo into React Vike apps
- */
-async function injectReactVikeUIDemo(appPath: string, projectName: string): Promise<void> {
-	const counterFilePath = join(appPath, "pages", "index", "Counter.tsx");
-	try {
-		const content = await readFile(counterFilePath, "utf-8");
-
-		const updatedContent = content
-			.replace(
-				REACT_VIKE_IMPORT_REGEX,
-				`import { Button } from "@${projectName}/ui";
-import { useState } from "react";`,
-			)
-			.replace(
-				REACT_VIKE_BUTTON_REGEX,
-				`<>
-			<button
-				type="button"
-				className={
-					"inline-block border border-black rounded bg-gray-200 px-2 py-1 text-xs font-medium uppercase leading-normal"
-				}
-				onClick={() => setCount((count) => count + 1)}
-			>
-				Counter {count}
-			</button>
-			<Button onClick={() => setCount((count) => count + 1)} className="ml-2">
-				UI Component {count}
-			</Button>
-		</>`,
-			);
-
-		await writeFile(counterFilePath, updatedContent, "utf-8");
-	} catch (error) {
-		console.warn(chalk.yellow(`Warning: Could not inject UI demo into ${counterFilePath}: ${error}`));
-	}
-}
-
-/**
- * Check if a file exists
- */
-async function fileExists(filePath: string): Promise<boolean> {
-	try {
-		await readFile(filePath);
+		await writeFile(configPath, updatedContent);
 		return true;
-	} catch {
-		return false;
 	}
+
+	return false;
 }
@@ -0,0 +1,345 @@
+/**
+ * Declarative command-line parsing and help generation
+ */
+
+export type FlagType = "boolean" | "string" | "number";
+
+export interface FlagDefinition {
+	type: FlagType;
+	description: string;
+	/** Single-character short alias (e.g. "y" for -y) */
+	alias?: string;
+	/** Allow the flag to be repeated, collecting every value into an array */
+	multiple?: boolean;
+	/** Placeholder shown in help output: bare words are wrapped (<name>), ones with <, [ or @ are shown as written */
+	valueName?: string;
+	choices?: readonly string[];
+	default?: string | number | boolean;
+}
+
+export interface PositionalDefinition {
+	name: string;
+	description: string;
+	required?: boolean;
+	/** Collect every remaining positional argument */
+	variadic?: boolean;
+}
+
+export interface CommandDefinition {
+	name: string;
+	aliases?: readonly string[];
+	description: string;
+	positionals?: readonly PositionalDefinition[];
+	flags: Record<string, FlagDefinition>;
+	examples?: readonly string[];
+}
+
+type FlagValue<F extends FlagDefinition> = F extends { multiple: true }
+	? string[]
+	: F["type"] extends "boolean"
+		? boolean
+		: F["type"] extends "number"
+			? number
+			: F extends { choices: readonly (infer Choice)[] }
+				? Choice
+				: string;
+
+export type ParsedFlags<C extends CommandDefinition> = {
+	[K in keyof C["flags"]]: C["flags"][K] extends { default: unknown } | { type: "boolean" } | { multiple: true }
+		? FlagValue<C["flags"][K]>
+		: FlagValue<C["flags"][K]> | undefined;
+};
+
+export interface ParsedArgs<C extends CommandDefinition> {
+	flags: ParsedFlags<C>;
+	positionals: string[];
+	help: boolean;
+}
+
+const CLI_NAME = "create-bun-monorepo";
+const HELP_FLAG: FlagDefinition = { type: "boolean", alias: "h", description: "Show help for this command" };
+
+// Matches --name, --name=value and --no-name
+const LONG_FLAG_REGEX = /^--([a-z0-9][a-z0-9-]*)(?:=([\s\S]*))?$/i;
+const NUMBER_REGEX = /^-?\d+(\.\d+)?$/;
+const ATTACHED_VALUE_PREFIX_REGEX = /^=/;
+// Value names that already read as a placeholder
+const PLACEHOLDER_REGEX = /[<[@]/;
+
+/**
+ * Parse command arguments against a command definition.
+ * Throws on unknown flags, missing or invalid values and unexpected positionals.
+ */
+export function parseArgs<C extends CommandDefinition>(command: C, args: string[]): ParsedArgs<C> {
+	const values: Record<string, string | number | boolean | string[]> = {};
+	const positionals: string[] = [];
+	let help = false;
+
+	const setValue = (key: string, definition: FlagDefinition, raw: string | boolean, display: string) => {
+		const value = coerceValue(command, definition, raw, display);
+
+		if (definition.multiple) {
+			const current = values[key];
+			values[key] = [...(Array.isArray(current) ? current : []), String(value)];
+			return;
+		}
+
+		if (key in values) throw usageError(command, `Option ${display} was specified more than once`);
+		values[key] = value;
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i] as string;
+
+		// Everything after "--" is positional
+		if (arg === "--") {
+			positionals.push(...args.slice(i + 1));
+			break;
+		}
+
+		if (arg.startsWith("--")) {
+			const match = arg.match(LONG_FLAG_REGEX);
+			if (!match) throw usageError(command, `Malformed option: ${arg}`);
+
+			const [, name = "", inlineValue] = match;
+
+			if (name === "help") {
+				help = true;
+				continue;
+			}
+
+			const definition = command.flags[name];
+
+			if (!definition && name.startsWith("no-")) {
+				// Negated boolean flag (--no-install)
+				const negatedName = name.slice(3);
+				const negated = command.flags[negatedName];
+				if (!negated) throw unknownFlagError(command, `--${name}`);
+				if (negated.type !== "boolean") throw usageError(command, `Option --${negatedName} cannot be negated`);
+				if (inlineValue !== undefined) throw usageError(command, `Option --${name} does not take a value`);
+				setValue(negatedName, negated, false, `--${name}`);
+				continue;
+			}
+
+			if (!definition) throw unknownFlagError(command, `--${name}`);
+
+			if (definition.type === "boolean") {
+				setValue(name, definition, inlineValue ?? true, `--${name}`);
+				continue;
+			}
+
+			if (inlineValue !== undefined) {
+				setValue(name, definition, inlineValue, `--${name}`);
+				continue;
+			}
+
+			const next = args[i + 1];
+			if (next === undefined || next.startsWith("-")) throw usageError(command, `Option --${name} requires a value`);
+			setValue(name, definition, next, `--${name}`);
+			i++;
+			continue;
+		}
+
+		if (arg.startsWith("-") && arg.length > 1) {
+			// Short aliases, possibly grouped (-yf) or with an attached value (-nweb)
+			const cluster = arg.slice(1);
+
+			for (let j = 0; j < cluster.length; j++) {
+				const alias = cluster[j] as string;
+
+				if (alias === HELP_FLAG.alias) {
+					help = true;
+					continue;
+				}
+
+				const entry = Object.entries(command.flags).find(([, flag]) => flag.alias === alias);
+				if (!entry) throw unknownFlagError(command, `-${alias}`);
+
+				const [key, definition] = entry;
+				if (definition.type === "boolean") {
+					setValue(key, definition, true, `-${alias}`);
+					continue;
+				}
+
+				// Value-taking alias: the rest of the cluster or the next argument is the value
+				const attached = cluster.slice(j + 1).replace(ATTACHED_VALUE_PREFIX_REGEX, "");
+				if (attached) {
+					setValue(key, definition, attached, `-${alias}`);
+				} else {
+					const next = args[i + 1];
+					if (next === undefined || next.startsWith("-"))
+						throw usageError(command, `Option -${alias} requires a value`);
+					setValue(key, definition, next, `-${alias}`);
+					i++;
+				}
+				break;
+			}
+			continue;
+		}
+
+		positionals.push(arg);
+	}
+
+	// Apply defaults
+	for (const [key, definition] of Object.entries(command.flags)) {
+		if (key in values) continue;
+		if (definition.default !== undefined) values[key] = definition.default;
+		else if (definition.multiple) values[key] = [];
+		else if (definition.type === "boolean") values[key] = false;
+	}
+
+	if (!help) validatePositionals(command, positionals);
+
+	return { flags: values as ParsedFlags<C>, positionals, help };
+}
+
+/**
+ * Convert a raw flag value to the type declared by its definition
+ */
+function coerceValue(
+	command: CommandDefinition,
+	definition: FlagDefinition,
+	raw: string | boolean,
+	display: string,
+): string | number | boolean {
+	if (definition.type === "boolean") {
+		if (typeof raw === "boolean") return raw;
+		if (raw === "true") return true;
+		if (raw === "false") return false;
+		throw usageError(command, `Option ${display} expects true or false, received '${raw}'`);
+	}
+
+	const value = String(raw);
+
+	if (definition.type === "number") {
+		if (!NUMBER_REGEX.test(value)) throw usageError(command, `Option ${display} expects a number, received '${value}'`);
+		return Number(value);
+	}
+
+	if (!value.trim()) throw usageError(command, `Option ${display} requires a non-empty value`);
+
+	if (definition.choices && !definition.choices.includes(value)) {
+		throw usageError(
+			command,
+			`Invalid value '${value}' for ${display}. Expected one of: ${definition.choices.join(", ")}`,
+		);
+	}
+
+	return value;
+}
+
+function validatePositionals(command: CommandDefinition, positionals: string[]): void {
+	const definitions = command.positionals ?? [];
+	const isVariadic = definitions.some((positional) => positional.variadic);
+
+	const missing = definitions.filter((positional, index) => positional.required && positionals[index] === undefined);
+	if (missing.length > 0) {
+		throw usageError(command, `Missing required argument: ${missing.map((positional) => positional.name).join(", ")}`);
+	}
+
+	if (!isVariadic && positionals.length > definitions.length) {
+		const unexpected = positionals.slice(definitions.length);
+		throw usageError(command, `Unexpected argument${unexpected.length > 1 ? "s" : ""}: ${unexpected.join(" ")}`);
+	}
+}
+
+function usageError(command: CommandDefinition, message: string): Error {
+	return new Error(`${message}\nRun '${CLI_NAME} ${command.name} --help' for usage.`);
+}
+
+function unknownFlagError(command: CommandDefinition, flag: string): Error {
+	return usageError(command, `Unknown option ${flag} for command '${command.name}'`);
+}
+
+/**
+ * Format a flag for help output (e.g. "-y, --yes" or "    --apps <apps>")
+ */
+function formatFlagSignature(name: string, definition: FlagDefinition): string {
+	const short = definition.alias ? `-${definition.alias}, ` : "    ";
+	const valueName = definition.valueName ?? name;
+	const placeholder = PLACEHOLDER_REGEX.test(valueName) ? valueName : `<${valueName}>`;
+	const value = definition.type === "boolean" ? "" : ` ${placeholder}`;
+	return `${short}--${name}${value}`;
+}
+
+function formatFlagDescription(definition: FlagDefinition): string {
+	const details: string[] = [];
+	if (definition.choices) details.push(`choices: ${definition.choices.join(", ")}`);
+	if (definition.default !== undefined && definition.default !== false) details.push(`default: ${definition.default}`);
+	if (definition.multiple) details.push("repeatable");
+	return details.length > 0 ? `${definition.description} (${details.join("; ")})` : definition.description;
+}
+
+function formatRows(rows: Array<[string, string]>): string[] {
+	const width = Math.max(...rows.map(([left]) => left.length)) + 2;
+	return rows.map(([left, right]) => `  ${left.padEnd(width)}${right}`);
+}
+
+/**
+ * Generate help output for a single command from its definition
+ */
+export function formatCommandHelp(command: CommandDefinition): string {
+	const positionals = command.positionals ?? [];
+	const usage = positionals
+		.map((positional) => {
+			const name = positional.variadic ? `${positional.name}...` : positional.name;
+			return positional.required ? `<${name}>` : `[${name}]`;
+		})
+		.join(" ");
+
+	const lines = [`Usage: ${CLI_NAME} ${command.name}${usage ? ` ${usage}` : ""} [options]`, "", command.description];
+
+	const aliases = command.aliases ?? [];
+	if (aliases.length > 0) lines.push("", `Aliases: ${aliases.join(", ")}`);
+
+	if (positionals.length > 0) {
+		lines.push("", "Arguments:");
+		lines.push(...formatRows(positionals.map((positional) => [positional.name, positional.description])));
+	}
+
+	const flagRows: Array<[string, string]> = Object.entries(command.flags).map(([name, definition]) => [
+		formatFlagSignature(name, definition),
+		formatFlagDescription(definition),
+	]);
+	flagRows.push([formatFlagSignature("help", HELP_FLAG), HELP_FLAG.description]);
+
+	lines.push("", "Options:", ...formatRows(flagRows));
+
+	const negatable = Object.entries(command.flags).filter(([, definition]) => definition.type === "boolean");
+	if (negatable.length > 0) {
+		lines.push("", `Boolean options can be negated with --no-<option> (e.g. --no-${negatable[0]?.[0]}).`);
+	}
+
+	const examples = command.examples ?? [];
+	if (examples.length > 0) {
+		lines.push("", "Examples:", ...examples.map((example) => `  ${CLI_NAME} ${example}`));
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Generate the top-level help output listing every command
+ */
+export function formatGlobalHelp(commands: readonly CommandDefinition[]): string {
+	const rows: Array<[string, string]> = commands.map(({ name, aliases = [], description }) => [
+		aliases.length > 0 ? `${name} (${aliases.join(", ")})` : name,
+		description,
+	]);
+
+	return [
+		`Usage: ${CLI_NAME} <command> [options]`,
+		"",
+		"Commands:",
+		...formatRows(rows),
+		"",
+		`Run '${CLI_NAME} <command> --help' for the options of a command.`,
+	].join("\n");
+}
+
+/**
+ * Find a command definition by name or alias
+ */
+export function findCommand<C extends CommandDefinition>(commands: readonly C[], name: string): C | undefined {
+	return commands.find((command) => command.name === name || command.aliases?.includes(name));
+}
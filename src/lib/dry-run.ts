@@ -0,0 +1,123 @@
+/**
+ * Dry-run support: run scaffolding against an in-memory file system and print the resulting plan
+ */
+
+import { relative, sep } from "node:path";
+import chalk from "chalk";
+import { createUnifiedDiff } from "../utils/diff";
+import { type FileChange, getFileSystem, MemoryFileSystem, runWithFileSystem } from "../utils/fs";
+
+interface PlanTreeNode {
+	children: Map<string, PlanTreeNode>;
+	change?: FileChange;
+}
+
+const CHANGE_MARKERS = {
+	created: chalk.green("+"),
+	modified: chalk.yellow("~"),
+	deleted: chalk.red("-"),
+} as const;
+
+/**
+ * Run an operation without touching disk, then print every file it would create, modify or delete
+ * (relative to `basePath`)
+ */
+export async function previewChanges<T>(operation: () => Promise<T>, basePath = process.cwd()): Promise<T> {
+	const memoryFileSystem = new MemoryFileSystem(getFileSystem());
+	const result = await runWithFileSystem(memoryFileSystem, operation);
+
+	printFilePlan(await memoryFileSystem.getChanges(), basePath);
+
+	return result;
+}
+
+/**
+ * Format a byte count for display
+ */
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	return `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+function isBinary(content: Buffer): boolean {
+	return content.includes(0);
+}
+
+/**
+ * Print the file plan as a tree, followed by diffs of modified files
+ */
+export function printFilePlan(changes: FileChange[], basePath = process.cwd()): void {
+	console.log(chalk.blue.bold("\n📋 Dry run - planned file changes (nothing was written)\n"));
+
+	if (changes.length === 0) {
+		console.log(chalk.gray("No files would change."));
+		return;
+	}
+
+	// Build a directory tree from the changed paths
+	const root: PlanTreeNode = { children: new Map() };
+	for (const change of changes) {
+		let node = root;
+		for (const segment of relative(basePath, change.path).split(sep)) {
+			let child = node.children.get(segment);
+			if (!child) {
+				child = { children: new Map() };
+				node.children.set(segment, child);
+			}
+			node = child;
+		}
+		node.change = change;
+	}
+
+	const printNode = (node: PlanTreeNode, prefix: string) => {
+		const entries = [...node.children.entries()];
+		entries.forEach(([name, child], index) => {
+			const isLast = index === entries.length - 1;
+			const branch = isLast ? "└── " : "├── ";
+
+			if (child.change) {
+				const { type, before, after } = child.change;
+				const size = formatSize((after ?? before)?.length ?? 0);
+				console.log(`${prefix}${branch}${CHANGE_MARKERS[type]} ${name} ${chalk.gray(`(${type}, ${size})`)}`);
+			} else {
+				console.log(`${prefix}${branch}${chalk.bold(`${name}/`)}`);
+			}
+
+			printNode(child, `${prefix}${isLast ? "    " : "│   "}`);
+		});
+	};
+	printNode(root, "");
+
+	// Show what changes in files that already exist
+	for (const change of changes) {
+		if (change.type !== "modified" || !change.before || !change.after) continue;
+
+		const displayPath = relative(basePath, change.path);
+		console.log(chalk.bold(`\n${displayPath}`));
+
+		if (isBinary(change.before) || isBinary(change.after)) {
+			console.log(chalk.gray("Binary file changed"));
+			continue;
+		}
+
+		const diff = createUnifiedDiff(
+			change.before.toString("utf-8"),
+			change.after.toString("utf-8"),
+			`a/${displayPath}`,
+			`b/${displayPath}`,
+		);
+		for (const line of diff.trimEnd().split("\n")) {
+			if (line.startsWith("@@")) console.log(chalk.cyan(line));
+			else if (line.startsWith("+")) console.log(chalk.green(line));
+			else if (line.startsWith("-")) console.log(chalk.red(line));
+			else console.log(line);
+		}
+	}
+
+	const count = (type: FileChange["type"]) => changes.filter((change) => change.type === type).length;
+	console.log(
+		chalk.gray(
+			`\n${count("created")} file(s) to create, ${count("modified")} to modify, ${count("deleted")} to delete`,
+		),
+	);
+}
@@ -0,0 +1,168 @@
+/**
+ * Internal dependency graph between the workspaces of a monorepo
+ */
+
+import { DEPENDENCY_FIELDS, type WorkspaceInfo } from "./workspaces";
+
+export interface WorkspaceGraph {
+	workspaces: WorkspaceInfo[];
+	/** Package names each workspace depends on through the workspace: protocol, keyed by package name */
+	dependencies: Map<string, string[]>;
+}
+
+/**
+ * Build the graph of workspace:* dependencies between the given workspaces
+ */
+export function buildWorkspaceGraph(workspaces: WorkspaceInfo[]): WorkspaceGraph {
+	const packageNames = new Set(workspaces.map((workspace) => workspace.packageName));
+	const dependencies = new Map<string, string[]>();
+
+	for (const workspace of workspaces) {
+		const internal = new Set<string>();
+		for (const field of DEPENDENCY_FIELDS) {
+			for (const [name, version] of Object.entries(workspace.packageJson[field] ?? {})) {
+				if (packageNames.has(name) && version.startsWith("workspace:")) internal.add(name);
+			}
+		}
+		dependencies.set(workspace.packageName, [...internal].sort());
+	}
+
+	return { workspaces, dependencies };
+}
+
+/**
+ * Strongly connected components of the graph (Tarjan's algorithm), in package names
+ */
+function findStronglyConnectedComponents(graph: WorkspaceGraph): string[][] {
+	const indexes = new Map<string, number>();
+	const lowLinks = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const components: string[][] = [];
+
+	const visit = (node: string) => {
+		indexes.set(node, indexes.size);
+		lowLinks.set(node, indexes.size - 1);
+		stack.push(node);
+		onStack.add(node);
+
+		for (const dependency of graph.dependencies.get(node) ?? []) {
+			if (!indexes.has(dependency)) {
+				visit(dependency);
+				lowLinks.set(node, Math.min(lowLinks.get(node) ?? 0, lowLinks.get(dependency) ?? 0));
+			} else if (onStack.has(dependency)) {
+				lowLinks.set(node, Math.min(lowLinks.get(node) ?? 0, indexes.get(dependency) ?? 0));
+			}
+		}
+
+		if (lowLinks.get(node) !== indexes.get(node)) return;
+
+		const component: string[] = [];
+		let member: string | undefined;
+		do {
+			member = stack.pop();
+			if (member === undefined) break;
+			onStack.delete(member);
+			component.push(member);
+		} while (member !== node);
+		components.push(component);
+	};
+
+	for (const node of graph.dependencies.keys()) {
+		if (!indexes.has(node)) visit(node);
+	}
+
+	return components;
+}
+
+/**
+ * Find dependency cycles; each cycle lists package names in dependency order, starting and ending with the same name
+ */
+export function findCycles(graph: WorkspaceGraph): string[][] {
+	const cycles: string[][] = [];
+
+	for (const component of findStronglyConnectedComponents(graph)) {
+		const [start] = component.sort();
+		if (start === undefined) continue;
+
+		const members = new Set(component);
+		if (members.size === 1 && !graph.dependencies.get(start)?.includes(start)) continue;
+
+		// Breadth-first search inside the component for the shortest path back to the start
+		const previous = new Map<string, string>();
+		const queue = [start];
+		while (queue.length > 0) {
+			const node = queue.shift() as string;
+			const next = (graph.dependencies.get(node) ?? []).filter((dependency) => members.has(dependency));
+			if (next.includes(start)) {
+				const path = [start];
+				for (let current = node; current !== start; current = previous.get(current) ?? start) path.unshift(current);
+				cycles.push([start, ...path]);
+				break;
+			}
+			for (const dependency of next) {
+				if (dependency === start || previous.has(dependency)) continue;
+				previous.set(dependency, node);
+				queue.push(dependency);
+			}
+		}
+	}
+
+	return cycles;
+}
+
+/**
+ * Package names of the workspaces depending on each workspace (reverse edges), keyed by package name
+ */
+function getDependents(graph: WorkspaceGraph): Map<string, string[]> {
+	const dependents = new Map<string, string[]>(graph.workspaces.map((workspace) => [workspace.packageName, []]));
+	for (const [name, dependencies] of graph.dependencies) {
+		for (const dependency of dependencies) dependents.get(dependency)?.push(name);
+	}
+	return dependents;
+}
+
+/**
+ * The given workspaces plus every workspace depending on them, directly or transitively
+ */
+export function findDependents(graph: WorkspaceGraph, packageNames: Iterable<string>): Set<string> {
+	const dependents = getDependents(graph);
+	const affected = new Set<string>();
+	const queue = [...packageNames];
+
+	while (queue.length > 0) {
+		const name = queue.pop() as string;
+		if (affected.has(name)) continue;
+		affected.add(name);
+		queue.push(...(dependents.get(name) ?? []));
+	}
+
+	return affected;
+}
+
+/**
+ * Order workspaces so every workspace comes after its dependencies; throws on dependency cycles
+ */
+export function sortTopologically(graph: WorkspaceGraph, workspaces = graph.workspaces): WorkspaceInfo[] {
+	const cycles = findCycles(graph);
+	if (cycles.length > 0) {
+		throw new Error(`Dependency cycle between workspaces: ${cycles.map((cycle) => cycle.join(" → ")).join("; ")}`);
+	}
+
+	const byPackageName = new Map(graph.workspaces.map((workspace) => [workspace.packageName, workspace]));
+	const selected = new Set(workspaces.map((workspace) => workspace.packageName));
+	const sorted: WorkspaceInfo[] = [];
+	const visited = new Set<string>();
+
+	const visit = (name: string) => {
+		if (visited.has(name)) return;
+		visited.add(name);
+		for (const dependency of graph.dependencies.get(name) ?? []) visit(dependency);
+
+		const workspace = byPackageName.get(name);
+		if (workspace && selected.has(name)) sorted.push(workspace);
+	};
+
+	for (const workspace of workspaces) visit(workspace.packageName);
+	return sorted;
+}
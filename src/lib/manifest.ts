@@ -0,0 +1,236 @@
+/**
+ * Generation manifest (.bun-monorepo.json) recording what was scaffolded into a monorepo
+ */
+
+import { readFileSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { rootPath as cliRootPath } from "../constants";
+import { getTemplateInfo, templateHasCapability } from "../templates";
+import type {
+	AppTemplate,
+	DatabaseType,
+	LintingType,
+	OrmConfig,
+	OrmType,
+	PackageTemplate,
+	TemplateAnswers,
+} from "../types";
+import { readDirectoryFiles, writeJsonFile } from "../utils/file";
+import { mkdir, pathExists, readFile, rm, writeFile } from "../utils/fs";
+import { normalizeScope } from "../utils/string";
+import { getWorkspacePath, type WorkspaceInfo } from "./workspaces";
+
+export const MANIFEST_FILE = ".bun-monorepo.json";
+
+/** Pristine generated output of each workspace, kept as the merge base for upgrades */
+export const BASE_DIRECTORY = join(".bun-monorepo", "base");
+
+/** Entries that are never part of a workspace's generated output */
+export const GENERATED_OUTPUT_IGNORE = ["node_modules", "dist", "build", ".next", ".turbo"];
+
+export type WorkspaceType = "app" | "package";
+
+/**
+ * Options that were in effect when a workspace was generated
+ */
+export interface WorkspaceOptions {
+	linting?: LintingType;
+	orm?: OrmType;
+	database?: DatabaseType;
+}
+
+export interface WorkspaceRecord {
+	name: string;
+	type: WorkspaceType;
+	/** Path relative to the monorepo root */
+	path: string;
+	/** Template key, "blank" or "unknown" for workspaces that predate the manifest */
+	template: string;
+	/** Commit or tarball checksum the workspace was generated from, for git and tarball template sources */
+	revision?: string;
+	category: string;
+	/** Answers to the template's questions, used again when upgrading */
+	answers?: TemplateAnswers;
+	/** CLI version that generated the workspace */
+	cliVersion: string;
+	options: WorkspaceOptions;
+}
+
+export interface MonorepoManifest {
+	/** CLI version that last updated the manifest */
+	cliVersion: string;
+	projectName: string;
+	/** npm scope of the workspace packages, without the "@" (missing from manifests of older CLI versions) */
+	scope?: string;
+	linting?: LintingType;
+	orm?: OrmConfig;
+	workspaces: WorkspaceRecord[];
+}
+
+let cliVersion: string | undefined;
+
+function readCliVersion(): string {
+	try {
+		return JSON.parse(readFileSync(join(cliRootPath, "package.json"), "utf-8")).version ?? "0.0.0";
+	} catch {
+		return "0.0.0";
+	}
+}
+
+/**
+ * Version of the running CLI, read from its package.json
+ */
+export function getCliVersion(): string {
+	cliVersion ??= readCliVersion();
+	return cliVersion;
+}
+
+export function createManifest(
+	projectName: string,
+	scope: string,
+	linting?: LintingType,
+	orm?: OrmConfig,
+): MonorepoManifest {
+	return {
+		cliVersion: getCliVersion(),
+		projectName,
+		scope,
+		linting,
+		orm: orm && orm.type !== "none" ? orm : undefined,
+		workspaces: [],
+	};
+}
+
+/**
+ * Scope the root package.json name stands for: its own scope when scoped, else the normalized name
+ */
+function readRootScope(monorepoRoot: string): string | undefined {
+	try {
+		const name: unknown = JSON.parse(readFileSync(join(monorepoRoot, "package.json"), "utf-8")).name;
+		if (typeof name !== "string" || !name) return undefined;
+		return name.startsWith("@") ? name.slice(1).split("/")[0] : normalizeScope(name);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * npm scope of a monorepo's packages (without the "@"): the manifest's, else the one most existing workspaces use
+ * (the root package's scope wins a tie, then the first alphabetically), else the normalized project name
+ */
+export function resolveScope(
+	monorepoRoot: string,
+	manifest: MonorepoManifest | null,
+	workspaces: WorkspaceInfo[] = [],
+): string {
+	if (manifest?.scope) return manifest.scope;
+
+	const counts = new Map<string, number>();
+	for (const { packageName } of workspaces) {
+		const [scope, name] = packageName.split("/");
+		if (scope?.startsWith("@") && name) counts.set(scope.slice(1), (counts.get(scope.slice(1)) ?? 0) + 1);
+	}
+
+	const rootScope = readRootScope(monorepoRoot);
+	const [mostUsed] = [...counts].sort(
+		([a, countA], [b, countB]) =>
+			countB - countA || Number(b === rootScope) - Number(a === rootScope) || a.localeCompare(b),
+	);
+	return mostUsed?.[0] ?? normalizeScope(manifest?.projectName ?? basename(monorepoRoot));
+}
+
+/**
+ * Read the manifest from a monorepo root, or null when the monorepo has none
+ */
+export async function readManifest(monorepoRoot: string): Promise<MonorepoManifest | null> {
+	let content: string;
+	try {
+		content = await readFile(join(monorepoRoot, MANIFEST_FILE), "utf-8");
+	} catch {
+		return null;
+	}
+
+	const manifest = JSON.parse(content) as MonorepoManifest;
+	if (!Array.isArray(manifest.workspaces)) throw new Error(`Invalid ${MANIFEST_FILE}: "workspaces" must be an array`);
+	return manifest;
+}
+
+export async function writeManifest(monorepoRoot: string, manifest: MonorepoManifest): Promise<void> {
+	manifest.cliVersion = getCliVersion();
+	manifest.workspaces.sort((a, b) => a.path.localeCompare(b.path));
+	await writeJsonFile(join(monorepoRoot, MANIFEST_FILE), manifest);
+}
+
+/**
+ * Add or replace the record of a generated workspace
+ */
+export function recordWorkspace(
+	manifest: MonorepoManifest,
+	type: WorkspaceType,
+	workspace: AppTemplate | PackageTemplate,
+): WorkspaceRecord {
+	const usesOrm = manifest.orm && templateHasCapability(workspace.template, "orm");
+	const record: WorkspaceRecord = {
+		name: workspace.name,
+		type,
+		path: getWorkspacePath(type, workspace),
+		template: workspace.template,
+		revision: getTemplateInfo(workspace.template)?.revision,
+		category: workspace.category,
+		answers: workspace.answers,
+		cliVersion: getCliVersion(),
+		options: {
+			linting: manifest.linting,
+			orm: usesOrm ? manifest.orm?.type : undefined,
+			database: usesOrm ? manifest.orm?.database : undefined,
+		},
+	};
+
+	manifest.workspaces = manifest.workspaces.filter((existing) => existing.path !== record.path);
+	manifest.workspaces.push(record);
+	return record;
+}
+
+export function findWorkspace(manifest: MonorepoManifest, type: WorkspaceType, name: string) {
+	return manifest.workspaces.find((workspace) => workspace.type === type && workspace.name === name);
+}
+
+/**
+ * Packages recorded in the manifest, in the shape used when wiring app dependencies
+ */
+export function getManifestPackages(manifest: MonorepoManifest): PackageTemplate[] {
+	return manifest.workspaces
+		.filter((workspace) => workspace.type === "package")
+		.map(({ name, template, category, path }) => ({ name, template, category, directory: dirname(path) }));
+}
+
+/**
+ * Store the generated files of a workspace as its pristine base (read from the workspace when not given)
+ */
+export async function writeWorkspaceBase(
+	monorepoRoot: string,
+	workspacePath: string,
+	files?: Map<string, Buffer>,
+): Promise<void> {
+	const baseFiles = files ?? (await readDirectoryFiles(join(monorepoRoot, workspacePath), GENERATED_OUTPUT_IGNORE));
+	const basePath = join(monorepoRoot, BASE_DIRECTORY, workspacePath);
+
+	await rm(basePath);
+	await mkdir(basePath);
+	for (const [path, content] of baseFiles) {
+		await mkdir(dirname(join(basePath, path)));
+		await writeFile(join(basePath, path), content);
+	}
+}
+
+/**
+ * Read the pristine base of a workspace, or null when none was stored
+ */
+export async function readWorkspaceBase(
+	monorepoRoot: string,
+	workspacePath: string,
+): Promise<Map<string, Buffer> | null> {
+	const basePath = join(monorepoRoot, BASE_DIRECTORY, workspacePath);
+	if (!(await pathExists(basePath))) return null;
+	return readDirectoryFiles(basePath);
+}
@@ -2,10 +2,14 @@
  * ORM (Object-Relational Mapping) utilities for database setup
  */
 
-import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { join } from "node:path";
 import type { OrmConfig, OrmType } from "../types";
-import { writeJsonFile } from "../utils/file";
+import { patchJsonFile } from "../utils/file";
+import { mkdir, readFile, writeFile } from "../utils/fs";
+import { getWorkspacePath } from "./workspaces";
+
+/** Root-relative path of the db package unless the packages folder was changed */
+const DEFAULT_DB_PACKAGE_PATH = getWorkspacePath("package", { name: "db" });
 
 /**
  * Get ORM configuration based on user choice
@@ -62,7 +66,7 @@ export function getOrmDependencies(ormConfig: OrmConfig): {
 /**
  * Get ORM-specific scripts for package.json
  */
-export function getOrmScripts(ormConfig: OrmConfig): Record<string, string> {
+export function getOrmScripts(ormConfig: OrmConfig, dbPath = DEFAULT_DB_PACKAGE_PATH): Record<string, string> {
 	const { type } = ormConfig;
 
 	if (type === "none") {
@@ -71,21 +75,21 @@ export function getOrmScripts(ormConfig: OrmConfig): Record<string, string> {
 
 	if (type === "drizzle") {
 		return {
-			"db:generate": "drizzle-kit generate --config=packages/db/drizzle.config.ts",
-			"db:migrate": "drizzle-kit migrate --config=packages/db/drizzle.config.ts",
-			"db:studio": "drizzle-kit studio --config=packages/db/drizzle.config.ts",
-			"db:push": "drizzle-kit push --config=packages/db/drizzle.config.ts",
+			"db:generate": `drizzle-kit generate --config=${dbPath}/drizzle.config.ts`,
+			"db:migrate": `drizzle-kit migrate --config=${dbPath}/drizzle.config.ts`,
+			"db:studio": `drizzle-kit studio --config=${dbPath}/drizzle.config.ts`,
+			"db:push": `drizzle-kit push --config=${dbPath}/drizzle.config.ts`,
 		};
 	}
 
 	if (type === "prisma") {
 		return {
-			"db:generate": "prisma generate --schema=packages/db/prisma/schema.prisma",
-			"db:migrate": "prisma migrate dev --schema=packages/db/prisma/schema.prisma",
-			"db:studio": "prisma studio --schema=packages/db/prisma/schema.prisma",
-			"db:push": "prisma db push --schema=packages/db/prisma/schema.prisma",
-			"db:reset": "prisma migrate reset --schema=packages/db/prisma/schema.prisma",
-			"db:seed": "bun run packages/db/src/seed.ts",
+			"db:generate": `prisma generate --schema=${dbPath}/prisma/schema.prisma`,
+			"db:migrate": `prisma migrate dev --schema=${dbPath}/prisma/schema.prisma`,
+			"db:studio": `prisma studio --schema=${dbPath}/prisma/schema.prisma`,
+			"db:push": `prisma db push --schema=${dbPath}/prisma/schema.prisma`,
+			"db:reset": `prisma migrate reset --schema=${dbPath}/prisma/schema.prisma`,
+			"db:seed": `bun run ${dbPath}/src/seed.ts`,
 		};
 	}
 
@@ -95,22 +99,30 @@ export function getOrmScripts(ormConfig: OrmConfig): Record<string, string> {
 /**
  * Create ORM setup files
  */
-export async function createOrmSetup(rootPath: string, orm: OrmConfig): Promise<void> {
+export async function createOrmSetup(
+	rootPath: string,
+	orm: OrmConfig,
+	dbPath = DEFAULT_DB_PACKAGE_PATH,
+): Promise<void> {
 	const { type, database } = orm;
 
 	if (type === "drizzle") {
-		await createDrizzleSetup(rootPath, database);
+		await createDrizzleSetup(rootPath, database, dbPath);
 	} else if (type === "prisma") {
-		await createPrismaSetup(rootPath, database);
+		await createPrismaSetup(rootPath, database, dbPath);
 	}
 }
 
 /**
  * Create Drizzle ORM setup files in the db package
  */
-async function createDrizzleSetup(rootPath: string, database: "postgresql" | "mysql" | "sqlite"): Promise<void> {
+async function createDrizzleSetup(
+	rootPath: string,
+	database: "postgresql" | "mysql" | "sqlite",
+	dbPath: string,
+): Promise<void> {
 	// Create db package directory
-	const dbPackagePath = join(rootPath, "packages", "db");
+	const dbPackagePath = join(rootPath, dbPath);
 	await mkdir(join(dbPackagePath, "src"), { recursive: true });
 
 	// Update package.json with Drizzle dependencies
@@ -132,7 +144,7 @@ export * from "./schema";
 	await writeFile(join(dbPackagePath, "src", "index.ts"), indexContent, { encoding: "utf-8" });
 
 	// Create Drizzle config
-	const configContent = getDrizzleConfigContent(database);
+	const configContent = getDrizzleConfigContent(database, dbPath);
 	await writeFile(join(dbPackagePath, "drizzle.config.ts"), configContent, { encoding: "utf-8" });
 
 	// Create environment file
@@ -143,9 +155,13 @@ export * from "./schema";
 /**
  * Create Prisma ORM setup files in the db package
  */
-async function createPrismaSetup(rootPath: string, database: "postgresql" | "mysql" | "sqlite"): Promise<void> {
+async function createPrismaSetup(
+	rootPath: string,
+	database: "postgresql" | "mysql" | "sqlite",
+	dbPath: string,
+): Promise<void> {
 	// Create db package directory
-	const dbPackagePath = join(rootPath, "packages", "db");
+	const dbPackagePath = join(rootPath, dbPath);
 	await mkdir(join(dbPackagePath, "src"), { recursive: true });
 
 	// Update package.json with Prisma dependencies
@@ -255,7 +271,7 @@ async function updateDbPackageJson(
 	}
 
 	// Write updated package.json
-	await writeJsonFile(packageJsonPath, packageJson);
+	await patchJsonFile(packageJsonPath, packageJson);
 }
 
 /**
@@ -344,14 +360,17 @@ export type NewUser = typeof users.$inferInsert;
 /**
  * Generate Drizzle config content
  */
-export function getDrizzleConfigContent(database: "postgresql" | "mysql" | "sqlite"): string {
+export function getDrizzleConfigContent(
+	database: "postgresql" | "mysql" | "sqlite",
+	dbPath = DEFAULT_DB_PACKAGE_PATH,
+): string {
 	const dialect = database === "postgresql" ? "postgresql" : database;
 
 	return `import type { Config } from "drizzle-kit";
 
 export default {
-	schema: "./packages/db/src/schema.ts",
-	out: "./packages/db/drizzle",
+	schema: "./${dbPath}/src/schema.ts",
+	out: "./${dbPath}/drizzle",
 	dialect: "${dialect}",
 	dbCredentials: {
 		${database === "sqlite" ? 'url: process.env.DATABASE_URL || "./local.db",' : "url: process.env.DATABASE_URL!,"}
@@ -0,0 +1,187 @@
+/**
+ * Scaffolding runner: protect existing target directories, then preview or apply an operation
+ */
+
+import { join, relative, resolve, sep } from "node:path";
+import chalk from "chalk";
+import type { ScaffoldOptions } from "../types";
+import {
+	type FileStats,
+	type FileSystemBackend,
+	getFileSystem,
+	MemoryFileSystem,
+	runWithFileSystem,
+} from "../utils/fs";
+import { previewChanges } from "./dry-run";
+import { runTransaction } from "./transaction";
+
+/**
+ * File system backend that never overwrites or removes files which already exist inside the target directories
+ */
+class MergeFileSystem implements FileSystemBackend {
+	readonly skipped: string[] = [];
+	/** Files inside the targets written by the operation where there was none */
+	private readonly created = new Set<string>();
+
+	constructor(
+		private readonly base: FileSystemBackend,
+		private readonly targets: string[],
+	) {}
+
+	readFile(path: string): Promise<Buffer> {
+		return this.base.readFile(path);
+	}
+
+	async writeFile(path: string, data: string | Uint8Array): Promise<void> {
+		const key = resolve(path);
+		if (
+			isInsideTargets(key, this.targets) &&
+			!this.created.has(key) &&
+			(await this.base.stat(key).catch(() => null))?.isFile()
+		) {
+			if (!this.skipped.includes(key)) this.skipped.push(key);
+			return;
+		}
+		await this.base.writeFile(path, data);
+		if (isInsideTargets(key, this.targets)) this.created.add(key);
+	}
+
+	mkdir(path: string): Promise<void> {
+		return this.base.mkdir(path);
+	}
+
+	readdir(path: string): Promise<string[]> {
+		return this.base.readdir(path);
+	}
+
+	stat(path: string): Promise<FileStats> {
+		return this.base.stat(path);
+	}
+
+	async rm(path: string): Promise<void> {
+		const key = resolve(path);
+		if (!isInsideTargets(key, this.targets)) {
+			await this.base.rm(path);
+			return;
+		}
+		await this.removeCreated(key);
+	}
+
+	/**
+	 * Remove what the operation created below a path, keeping the files that were already there; returns whether the
+	 * path is gone
+	 */
+	private async removeCreated(path: string): Promise<boolean> {
+		const stats = await this.base.stat(path).catch(() => null);
+		if (!stats) return true;
+
+		if (stats.isDirectory()) {
+			let removed = true;
+			for (const entry of await this.base.readdir(path)) {
+				if (!(await this.removeCreated(join(path, entry)))) removed = false;
+			}
+			if (removed) await this.base.rm(path);
+			return removed;
+		}
+
+		if (!this.created.has(path)) return false;
+		await this.base.rm(path);
+		this.created.delete(path);
+		return true;
+	}
+}
+
+function isInsideTargets(path: string, targets: string[]): boolean {
+	return targets.some((target) => path === target || path.startsWith(`${target}${sep}`));
+}
+
+/**
+ * Target directories that already exist and contain files
+ */
+async function findNonEmptyTargets(targets: string[]): Promise<string[]> {
+	const fileSystem = getFileSystem();
+	const nonEmpty: string[] = [];
+
+	for (const target of targets) {
+		const stats = await fileSystem.stat(target).catch(() => null);
+		if (!stats) continue;
+		if (stats.isFile() || (await fileSystem.readdir(target)).length > 0) nonEmpty.push(target);
+	}
+
+	return nonEmpty;
+}
+
+/**
+ * Run the operation in memory and list the existing files inside the targets it would write (even with the same
+ * content) or delete
+ */
+async function findCollisions(targets: string[], operation: () => Promise<unknown>): Promise<string[]> {
+	const fileSystem = getFileSystem();
+	const memoryFileSystem = new MemoryFileSystem(fileSystem);
+	await runWithFileSystem(memoryFileSystem, operation);
+
+	const collisions = new Set<string>();
+	for (const path of memoryFileSystem.getWrittenFiles()) {
+		if (isInsideTargets(path, targets) && (await fileSystem.stat(path).catch(() => null))?.isFile()) {
+			collisions.add(path);
+		}
+	}
+	for (const change of await memoryFileSystem.getChanges()) {
+		if (change.type === "deleted" && isInsideTargets(change.path, targets)) collisions.add(change.path);
+	}
+
+	return [...collisions].sort();
+}
+
+function formatConflictError(nonEmptyTargets: string[], collisions: string[], basePath: string): string {
+	const display = (path: string) => relative(basePath, path) || ".";
+	const lines = nonEmptyTargets.map(
+		(target) => `Target directory '${display(target)}' already exists and is not empty.`,
+	);
+
+	if (collisions.length > 0) {
+		lines.push("The following files would be overwritten:");
+		for (const path of collisions) lines.push(`  ${display(path)}`);
+	}
+
+	lines.push("Use --force to overwrite existing files or --merge to only write missing files.");
+	return lines.join("\n");
+}
+
+/**
+ * Scaffold into the given target directories.
+ *
+ * Non-empty targets abort with a list of colliding files unless `force` (overwrite) or `merge`
+ * (keep existing files, write only missing ones) is set. The operation is then either previewed
+ * (`dryRun`) or applied as a transaction. Paths are reported relative to `basePath`.
+ */
+export async function runScaffold(
+	targetPaths: string[],
+	options: ScaffoldOptions,
+	operation: () => Promise<unknown>,
+	basePath = process.cwd(),
+): Promise<void> {
+	const targets = targetPaths.map((path) => resolve(path));
+	const nonEmptyTargets = await findNonEmptyTargets(targets);
+
+	if (nonEmptyTargets.length > 0 && !options.force && !options.merge) {
+		const collisions = await findCollisions(targets, operation);
+		throw new Error(formatConflictError(nonEmptyTargets, collisions, basePath));
+	}
+
+	let mergeFileSystem: MergeFileSystem | undefined;
+	const run = options.merge
+		? () => {
+				mergeFileSystem = new MergeFileSystem(getFileSystem(), targets);
+				return runWithFileSystem(mergeFileSystem, operation);
+			}
+		: operation;
+
+	if (options.dryRun) await previewChanges(run, basePath);
+	else await runTransaction(run, basePath);
+
+	if (mergeFileSystem && mergeFileSystem.skipped.length > 0) {
+		console.log(chalk.yellow(`\n⏭️  Kept ${mergeFileSystem.skipped.length} existing file(s) (--merge):`));
+		for (const path of mergeFileSystem.skipped) console.log(chalk.gray(`  ${relative(basePath, path)}`));
+	}
+}
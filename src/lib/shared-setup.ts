@@ -1,18 +1,25 @@
-import { access, cp, mkdir, readFile, writeFile } from "node:fs/promises";
-import { dirname, join } from "node:path";
+import { basename, dirname, join, relative } from "node:path";
 import { fileURLToPath } from "node:url";
 import { rootPath } from "../constants";
-import { addOrmEndpoints, injectUIComponentDemos } from "../injections";
-import type { TemplatesConfig } from "../templates";
-import { getTemplateConfig, NATIVE_FRAMEWORKS, ORM_FRAMEWORKS, REACT_FRAMEWORKS } from "../templates";
-import type { AppTemplate, OrmConfig, PackageTemplate } from "../types";
-import { processTemplateReplacements, writeJsonFile } from "../utils/file";
+import type { TemplateInfo, TemplatesConfig } from "../templates";
+import { getTemplateConfig, getTemplateInfo, TEMPLATE_MANIFEST_FILE, templateHasCapability } from "../templates";
+import type { AppTemplate, OrmConfig, PackageTemplate, TemplateContext, TemplateContextPackage } from "../types";
+import { renderTemplateFiles, writeJsonFile } from "../utils/file";
+import { access, cp, mkdir, readdir, readFile, stat, writeFile } from "../utils/fs";
 import { toCamelCase } from "../utils/string";
+import { getUserConfigPath } from "./user-config";
+import { getWorkspacePath } from "./workspaces";
 
 // Get current file directory for template path resolution
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+const TEMPLATE_ROOT_PATH_REGEX = /(["'])\.\.\/\.\.\/(?=tsconfig\.base\.json|tailwind\.base|node_modules)/g;
+const CONFIG_FILE_REGEX = /\.(?:json|[cm]?js|ts)$/;
+
+/** Folder of a template holding its partials ({{> name}} includes _partials/name.hbs), not copied */
+const TEMPLATE_PARTIALS_DIRECTORY = "_partials";
+
 /**
  * Find a template in the configuration
  */
@@ -63,13 +70,13 @@ async function copyTemplateFiles(
 	template: string,
 	category: string,
 	targetPath: string,
-	replacements?: Record<string, string>,
+	context: TemplateContext,
 ): Promise<void> {
 	const templateConfig = getTemplateConfig();
 	const templateInfo = templateConfig.categories[category]?.templates[template];
 
 	if (!templateInfo?.path) throw new Error(`Template ${template} in category ${category} not found`);
-	const templatePath = join(rootPath, "templates", templateInfo.path);
+	const templatePath = templateInfo.path;
 
 	// Verify template path exists before copying
 	try {
@@ -78,21 +85,50 @@ async function copyTemplateFiles(
 		console.error(`❌ Template path not found: ${templatePath}`);
 		console.error(`Root path: ${rootPath}`);
 		console.error(`Available templates directory: ${join(rootPath, "templates")}`);
-		throw new Error(`Template directory ${templateInfo.path} not found at ${templatePath}`);
+		throw new Error(`Template directory not found at ${templatePath}`);
 	}
 
-	// Copy all files except node_modules and dist
+	// Copy all files except node_modules, dist, the template manifest and the partials
+	const copied: string[] = [];
 	await cp(templatePath, targetPath, {
 		recursive: true,
 		filter: (src) => {
 			const relativePath = src.replace(templatePath, "");
-			return !relativePath.includes("node_modules") && !relativePath.includes("dist");
+			const include =
+				!relativePath.includes("node_modules") &&
+				!relativePath.includes("dist") &&
+				relativePath !== `/${TEMPLATE_MANIFEST_FILE}` &&
+				relativePath !== `/${TEMPLATE_PARTIALS_DIRECTORY}`;
+			if (include) copied.push(src);
+			return include;
 		},
 	});
 
-	// If replacements are provided, process template files for content replacement
-	if (replacements) {
-		await processTemplateReplacements(targetPath, replacements);
+	// Only the copied files are rendered, so files already in the target (with --merge) are left alone
+	const files: string[] = [];
+	for (const src of copied) if ((await stat(src)).isFile()) files.push(relative(templatePath, src));
+	await renderTemplateFiles(targetPath, context, {
+		partialsPath: join(templatePath, TEMPLATE_PARTIALS_DIRECTORY),
+		conditions: templateInfo.files,
+		files,
+	});
+}
+
+/**
+ * Templates reach root files (tsconfig.base.json, tailwind.base, node_modules) through "../../", which only holds
+ * two levels below the root; rewrite those paths in the workspace's config files for other depths
+ */
+async function rebaseRootPaths(workspacePath: string, rootPath: string): Promise<void> {
+	const rootRelativePath = relative(workspacePath, rootPath);
+	if (rootRelativePath === join("..", "..")) return;
+
+	for (const entry of await readdir(workspacePath)) {
+		const filePath = join(workspacePath, entry);
+		if (!CONFIG_FILE_REGEX.test(entry) || !(await stat(filePath)).isFile()) continue;
+
+		const content = await readFile(filePath, "utf-8");
+		const rebased = content.replace(TEMPLATE_ROOT_PATH_REGEX, `$1${rootRelativePath}/`);
+		if (rebased !== content) await writeFile(filePath, rebased);
 	}
 }
 
@@ -136,11 +172,12 @@ async function createBlankApp(
 	appPath: string,
 	appName: string,
 	projectName: string,
+	scope: string,
 	packages: PackageTemplate[],
 ): Promise<void> {
 	// Create package.json
 	const packageJson = {
-		name: `@${projectName}/${appName}`,
+		name: `@${scope}/${appName}`,
 		version: "1.0.0",
 		private: true,
 		type: "module",
@@ -151,7 +188,7 @@ async function createBlankApp(
 		},
 		dependencies: {
 			...packages.reduce<Record<string, string>>((acc, pkg) => {
-				acc[`@${projectName}/${pkg.name}`] = "workspace:*";
+				acc[`@${scope}/${pkg.name}`] = "workspace:*";
 				return acc;
 			}, {}),
 		},
@@ -165,7 +202,7 @@ async function createBlankApp(
 
 	// Create TypeScript config
 	const tsConfig = {
-		extends: "../../tsconfig.base.json",
+		extends: `${relative(appPath, projectName)}/tsconfig.base.json`,
 		compilerOptions: {
 			outDir: "./dist",
 			rootDir: "./src",
@@ -188,7 +225,7 @@ async function createBlankApp(
 			: "";
 
 	const imports = availablePackages
-		.map((pkg) => `// import { ${toCamelCase(pkg.name)}Name } from "@${projectName}/${pkg.name}";`)
+		.map((pkg) => `// import { ${toCamelCase(pkg.name)}Name } from "@${scope}/${pkg.name}";`)
 		.join("\n");
 
 	const content = `${imports ? `${imports}\n\n` : ""}export const appName = "${appName}";
@@ -202,7 +239,7 @@ ${showPackages}`;
 /**
  * Create a blank package with basic structure
  */
-async function createBlankPackage(pkgPath: string, pkgName: string): Promise<void> {
+async function createBlankPackage(pkgPath: string, pkgName: string, projectName: string): Promise<void> {
 	// Extract just the package name from the scoped name (@project/package-name -> package-name)
 	const packageName = pkgName.includes("/") ? pkgName.split("/").pop() || pkgName : pkgName;
 
@@ -227,7 +264,7 @@ async function createBlankPackage(pkgPath: string, pkgName: string): Promise<voi
 
 	// Create TypeScript config
 	const tsConfig = {
-		extends: "../../tsconfig.base.json",
+		extends: `${relative(pkgPath, projectName)}/tsconfig.base.json`,
 		compilerOptions: {
 			outDir: "./dist",
 		},
@@ -248,64 +285,118 @@ console.log("Blank Package:", ${camelCaseName}Name);
 }
 
 /**
- * Create an app with all necessary processing
+ * Error for an unknown template; namespaced templates come from a folder that may not be loaded
+ */
+function templateNotFound(template: string): Error {
+	const hint = template.includes("/")
+		? `; pass its folder with --template-dir ${template.split("/")[0]}=<path> or add it to templateDirs in ${getUserConfigPath()}`
+		: "";
+	return new Error(`Template ${template} not found${hint}`);
+}
+
+/**
+ * Context the template files of a workspace are rendered with
+ */
+function getTemplateContext(
+	projectName: string,
+	scope: string,
+	workspacePath: string,
+	workspace: AppTemplate | PackageTemplate,
+	templateInfo: TemplateInfo,
+	packages: PackageTemplate[] = [],
+	linkedPackages: PackageTemplate[] = [],
+	orm?: OrmConfig,
+): TemplateContext {
+	const ormType = orm && orm.type !== "none" ? orm.type : undefined;
+	const contextPackages = packages.map((pkg) => ({
+		name: pkg.name,
+		packageName: `@${scope}/${pkg.name}`,
+		template: pkg.template,
+		path: relative(workspacePath, join(projectName, getWorkspacePath("package", pkg))),
+		linked: linkedPackages.includes(pkg),
+	}));
+	const linkedTemplates: Record<string, TemplateContextPackage> = {};
+	for (const pkg of contextPackages) {
+		const key = toCamelCase(pkg.template);
+		if (pkg.linked && !linkedTemplates[key]) linkedTemplates[key] = pkg;
+	}
+
+	return {
+		name: workspace.name,
+		packageName: `@${scope}/${workspace.name}`,
+		scope,
+		projectName: basename(projectName),
+		port: templateInfo.port,
+		orm: {
+			type: ormType,
+			database: ormType && orm?.database,
+			drizzle: ormType === "drizzle",
+			prisma: ormType === "prisma",
+		},
+		packages: contextPackages,
+		linkedTemplates,
+		answers: workspace.answers ?? {},
+	};
+}
+
+/**
+ * Create an app with all necessary processing; projectName is the monorepo root path and scope its npm scope
  */
 export async function createAppWithProcessing(
 	projectName: string,
+	scope: string,
 	app: AppTemplate,
-	packages: PackageTemplate[],
+	monorepoPackages: PackageTemplate[],
 	orm?: OrmConfig,
 ): Promise<void> {
-	const appPath = join(projectName, "apps", app.name);
+	const appPath = join(projectName, getWorkspacePath("app", app));
+	// In path order, like the manifest, so upgrades generate the same files (and dependency order) as create
+	const packages = [...monorepoPackages].sort((a, b) =>
+		getWorkspacePath("package", a).localeCompare(getWorkspacePath("package", b)),
+	);
 	await mkdir(appPath, { recursive: true });
 
+	const templateInfo = getTemplateInfo(app.template);
+	if (!templateInfo) throw templateNotFound(app.template);
+	const hasOrm = orm !== undefined && orm.type !== "none";
+
+	// Link the packages the template declares, ORM packages only when an ORM is configured
+	const linkedPackages = packages.filter(
+		(pkg) => templateInfo.packages.includes(pkg.template) && (hasOrm || !templateHasCapability(pkg.template, "orm")),
+	);
+
 	if (app.template !== "blank") {
-		const replacements =
-			app.template === "react-native-expo"
-				? {
-						appName: projectName,
-						name: `${projectName}-${app.name}`,
-					}
-				: undefined;
-		await copyTemplateFiles(app.template, app.category, appPath, replacements);
-
-		// Add ORM endpoints if backend framework and ORM is configured
-		if (orm && orm.type !== "none" && ORM_FRAMEWORKS.includes(app.template))
-			await addOrmEndpoints(appPath, app.template, orm);
+		const context = getTemplateContext(projectName, scope, appPath, app, templateInfo, packages, linkedPackages, orm);
+		await copyTemplateFiles(app.template, app.category, appPath, context);
+		await rebaseRootPaths(appPath, projectName);
 	} else {
-		await createBlankApp(appPath, app.name, projectName, packages);
+		await createBlankApp(appPath, app.name, projectName, scope, packages);
 	}
 
 	// Update package.json with the correct name
-	await updatePackageJson(
-		appPath,
-		`@${projectName}/${app.name}`,
-		packages.filter((pkg) => {
-			// Include db package if ORM is enabled and this is a backend/fullstack framework
-			if (orm && orm.type !== "none" && ORM_FRAMEWORKS.includes(app.template) && pkg.template === "db") return true;
-			if (NATIVE_FRAMEWORKS.includes(app.template) && pkg.template === "ui-native") return true;
-			if ((REACT_FRAMEWORKS.includes(app.template) && pkg.template === "ui") || pkg.template === "hooks") return true;
-			if (pkg.template === "utils" || pkg.template === "schemas") return true;
-			return false;
-		}),
-	);
-
-	// Inject UI component demos if applicable
-	await injectUIComponentDemos(appPath, app, packages, projectName);
+	await updatePackageJson(appPath, `@${scope}/${app.name}`, linkedPackages);
 }
 
 /**
  * Create a package with all necessary processing
  */
-export async function createPackageWithProcessing(projectName: string, pkg: PackageTemplate): Promise<void> {
-	const pkgPath = join(projectName, "packages", pkg.name);
+export async function createPackageWithProcessing(
+	projectName: string,
+	scope: string,
+	pkg: PackageTemplate,
+): Promise<void> {
+	const pkgPath = join(projectName, getWorkspacePath("package", pkg));
 	await mkdir(pkgPath, { recursive: true });
 
 	if (pkg.template !== "blank") {
-		await copyTemplateFiles(pkg.template, pkg.category, pkgPath);
-		await updatePackageJson(pkgPath, `@${projectName}/${pkg.name}`, []);
+		const templateInfo = getTemplateInfo(pkg.template);
+		if (!templateInfo) throw templateNotFound(pkg.template);
+		const context = getTemplateContext(projectName, scope, pkgPath, pkg, templateInfo);
+		await copyTemplateFiles(pkg.template, pkg.category, pkgPath, context);
+		await rebaseRootPaths(pkgPath, projectName);
+		await updatePackageJson(pkgPath, `@${scope}/${pkg.name}`, []);
 	} else {
-		await createBlankPackage(pkgPath, `@${projectName}/${pkg.name}`);
+		await createBlankPackage(pkgPath, `@${scope}/${pkg.name}`, projectName);
 	}
 }
 
@@ -0,0 +1,191 @@
+/**
+ * Local content-hash cache for workspace scripts run by the task runner
+ *
+ * A script's result is keyed by a hash of the workspace's files, the hashes of the workspaces it depends on,
+ * the script itself, shared root files and build-relevant environment variables. On a hit the recorded output
+ * is replayed and dist/ is restored instead of running the script.
+ */
+
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import { readDirectoryFiles, writeJsonFile } from "../utils/file";
+import { cp, mkdir, pathExists, readdir, readFile, rm } from "../utils/fs";
+import type { WorkspaceGraph } from "./graph";
+import { GENERATED_OUTPUT_IGNORE } from "./manifest";
+import { SHARED_ROOT_FILES, type WorkspaceInfo } from "./workspaces";
+
+export const TASK_CACHE_DIRECTORY = join(".cache", "tasks");
+
+/** Output directory restored on a cache hit */
+const CACHED_OUTPUT = "dist";
+
+/** Output directories that cannot be restored; scripts producing them are not cached */
+const UNCACHEABLE_OUTPUTS = [".next", "build", "out"];
+
+/** Directories and file suffixes that are build output or tool state rather than inputs */
+const INPUT_IGNORE = [...GENERATED_OUTPUT_IGNORE, ".cache", ".react-router", "out"];
+const IGNORED_INPUT_SUFFIXES = [".tsbuildinfo", ".log"];
+
+/** Environment variables inlined into client bundles by the supported frameworks */
+const ENV_PREFIXES = ["NEXT_PUBLIC_", "VITE_", "EXPO_PUBLIC_", "PUBLIC_ENV__"];
+
+/** Entries kept per workspace and script, so switching branches back and forth still hits */
+const MAX_ENTRIES = 5;
+
+export interface OutputLine {
+	stream: "stdout" | "stderr";
+	line: string;
+}
+
+interface CacheEntry {
+	hash: string;
+	workspace: string;
+	script: string;
+	createdAt: string;
+	output: OutputLine[];
+	hasOutput: boolean;
+}
+
+export class TaskCache {
+	private readonly inputHashes = new Map<string, Promise<string>>();
+	private sharedHash?: Promise<string>;
+
+	constructor(
+		private readonly rootPath: string,
+		private readonly graph: WorkspaceGraph,
+		private readonly script: string,
+		/** Extra environment variables that affect the script's output */
+		private readonly env: string[] = [],
+	) {}
+
+	/**
+	 * Replay a cached run of the script: restore dist/ and return the recorded output, or null on a miss
+	 */
+	async restore(workspace: WorkspaceInfo): Promise<OutputLine[] | null> {
+		const entryPath = join(this.getTaskDirectory(workspace), await this.getTaskHash(workspace));
+		const entry = await readEntry(entryPath);
+		if (!entry) return null;
+
+		if (entry.hasOutput) {
+			const outputPath = join(workspace.absolutePath, CACHED_OUTPUT);
+			await rm(outputPath);
+			await cp(join(entryPath, CACHED_OUTPUT), outputPath, { recursive: true });
+		}
+		return entry.output;
+	}
+
+	/**
+	 * Store a successful run; returns false when its outputs cannot be restored from the cache
+	 */
+	async save(workspace: WorkspaceInfo, output: OutputLine[]): Promise<boolean> {
+		for (const directory of UNCACHEABLE_OUTPUTS) {
+			if (await pathExists(join(workspace.absolutePath, directory))) return false;
+		}
+
+		const hash = await this.getTaskHash(workspace);
+		const taskDirectory = this.getTaskDirectory(workspace);
+		const entryPath = join(taskDirectory, hash);
+		const outputPath = join(workspace.absolutePath, CACHED_OUTPUT);
+		const hasOutput = await pathExists(outputPath);
+
+		await rm(entryPath);
+		await mkdir(entryPath);
+		if (hasOutput) await cp(outputPath, join(entryPath, CACHED_OUTPUT), { recursive: true });
+
+		// Written last: an entry without it is incomplete and ignored
+		const entry: CacheEntry = {
+			hash,
+			workspace: workspace.packageName,
+			script: this.script,
+			createdAt: new Date().toISOString(),
+			output,
+			hasOutput,
+		};
+		await writeJsonFile(join(entryPath, "entry.json"), entry);
+
+		await this.prune(taskDirectory);
+		return true;
+	}
+
+	private getTaskDirectory(workspace: WorkspaceInfo): string {
+		return join(this.rootPath, TASK_CACHE_DIRECTORY, workspace.path, this.script);
+	}
+
+	private async prune(taskDirectory: string): Promise<void> {
+		const entries: Array<{ path: string; createdAt: string }> = [];
+		for (const name of await readdir(taskDirectory)) {
+			const entry = await readEntry(join(taskDirectory, name));
+			entries.push({ path: join(taskDirectory, name), createdAt: entry?.createdAt ?? "" });
+		}
+
+		entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+		for (const stale of entries.slice(MAX_ENTRIES)) await rm(stale.path);
+	}
+
+	private async getTaskHash(workspace: WorkspaceInfo): Promise<string> {
+		const hash = createHash("sha256");
+		hash.update(`script\0${this.script}\0${workspace.packageJson.scripts?.[this.script] ?? ""}\0`);
+		hash.update(`inputs\0${await this.getInputHash(workspace.packageName)}\0`);
+		hash.update(`shared\0${await this.getSharedHash()}\0`);
+
+		const envNames = Object.keys(process.env)
+			.filter((name) => this.env.includes(name) || ENV_PREFIXES.some((prefix) => name.startsWith(prefix)))
+			.concat("NODE_ENV")
+			.sort();
+		for (const name of new Set(envNames)) hash.update(`env\0${name}=${process.env[name] ?? ""}\0`);
+
+		return hash.digest("hex");
+	}
+
+	/**
+	 * Hash of a workspace's files combined with the input hashes of the workspaces it depends on
+	 */
+	private getInputHash(packageName: string): Promise<string> {
+		let inputHash = this.inputHashes.get(packageName);
+		if (!inputHash) {
+			inputHash = this.computeInputHash(packageName);
+			this.inputHashes.set(packageName, inputHash);
+		}
+		return inputHash;
+	}
+
+	private async computeInputHash(packageName: string): Promise<string> {
+		const hash = createHash("sha256");
+		const workspace = this.graph.workspaces.find((candidate) => candidate.packageName === packageName);
+
+		if (workspace) {
+			const files = await readDirectoryFiles(workspace.absolutePath, INPUT_IGNORE);
+			for (const path of [...files.keys()].sort()) {
+				if (IGNORED_INPUT_SUFFIXES.some((suffix) => path.endsWith(suffix))) continue;
+				hash.update(`file\0${path}\0`);
+				hash.update(files.get(path) as Buffer);
+			}
+		}
+
+		for (const dependency of this.graph.dependencies.get(packageName) ?? []) {
+			hash.update(`dependency\0${dependency}\0${await this.getInputHash(dependency)}\0`);
+		}
+
+		return hash.digest("hex");
+	}
+
+	private getSharedHash(): Promise<string> {
+		this.sharedHash ??= (async () => {
+			const hash = createHash("sha256");
+			for (const file of SHARED_ROOT_FILES) {
+				const path = join(this.rootPath, file);
+				if (await pathExists(path)) hash.update(`${file}\0`).update(await readFile(path));
+			}
+			return hash.digest("hex");
+		})();
+		return this.sharedHash;
+	}
+}
+
+async function readEntry(entryPath: string): Promise<CacheEntry | null> {
+	try {
+		return JSON.parse(await readFile(join(entryPath, "entry.json"), "utf-8"));
+	} catch {
+		return null;
+	}
+}
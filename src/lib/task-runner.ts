@@ -0,0 +1,201 @@
+/**
+ * Runs a package.json script across workspaces in dependency order, in parallel where the graph allows it
+ */
+
+import { availableParallelism } from "node:os";
+import chalk from "chalk";
+import { type PrefixedProcess, spawnPrefixed } from "../utils/process";
+import { sortTopologically, type WorkspaceGraph } from "./graph";
+import type { OutputLine, TaskCache } from "./task-cache";
+import type { WorkspaceInfo } from "./workspaces";
+
+export interface TaskRunnerOptions {
+	/** Maximum number of scripts running at once (defaults to the number of CPUs) */
+	concurrency?: number;
+	/** Keep running workspaces that do not depend on a failed one instead of stopping at the first failure */
+	continueOnError?: boolean;
+	/** Replay unchanged workspaces from the local task cache and store successful runs in it */
+	cache?: TaskCache;
+}
+
+export type TaskStatus = "success" | "failed" | "cancelled" | "skipped";
+
+export interface TaskResult {
+	workspace: WorkspaceInfo;
+	status: TaskStatus;
+	/** Milliseconds the script ran for */
+	duration: number;
+	exitCode?: number;
+	/** Replayed from the task cache instead of running */
+	cached?: boolean;
+}
+
+const PREFIX_COLORS = [chalk.cyan, chalk.magenta, chalk.yellow, chalk.green, chalk.blue, chalk.red];
+
+/**
+ * Workspaces with the script that a workspace must wait for: its closest dependencies that define the script,
+ * looking through dependencies that do not
+ */
+function getTaskDependencies(graph: WorkspaceGraph, packageName: string, taskNames: Set<string>): Set<string> {
+	const result = new Set<string>();
+	const visited = new Set<string>();
+	const queue = [...(graph.dependencies.get(packageName) ?? [])];
+
+	while (queue.length > 0) {
+		const name = queue.pop() as string;
+		if (visited.has(name)) continue;
+		visited.add(name);
+
+		if (taskNames.has(name)) result.add(name);
+		else queue.push(...(graph.dependencies.get(name) ?? []));
+	}
+
+	return result;
+}
+
+/**
+ * Run a script in every given workspace defining it; a workspace starts once the workspaces it depends on succeeded
+ */
+export async function runWorkspaceScript(
+	graph: WorkspaceGraph,
+	workspaces: WorkspaceInfo[],
+	script: string,
+	options: TaskRunnerOptions = {},
+): Promise<TaskResult[]> {
+	const concurrency = Math.max(1, options.concurrency ?? availableParallelism());
+	const tasks = sortTopologically(graph, workspaces).filter((workspace) => workspace.packageJson.scripts?.[script]);
+	const taskNames = new Set(tasks.map((task) => task.packageName));
+	const dependencies = new Map(
+		tasks.map((task) => [task.packageName, getTaskDependencies(graph, task.packageName, taskNames)]),
+	);
+
+	const width = Math.max(0, ...tasks.map((task) => task.packageName.length));
+	const prefixes = new Map(
+		tasks.map((task, index) => [
+			task.packageName,
+			PREFIX_COLORS[index % PREFIX_COLORS.length]?.(`${task.packageName.padEnd(width)} │`) ?? task.packageName,
+		]),
+	);
+
+	const results = new Map<string, TaskResult>();
+	const running = new Map<string, { process?: PrefixedProcess; done: Promise<void> }>();
+	let queue = [...tasks];
+	let stopped = false;
+
+	const start = (task: WorkspaceInfo) => {
+		const entry: { process?: PrefixedProcess; done: Promise<void> } = { done: Promise.resolve() };
+		running.set(task.packageName, entry);
+
+		entry.done = (async () => {
+			const startedAt = Date.now();
+			const prefix = prefixes.get(task.packageName) ?? "";
+			const cachedOutput = await options.cache?.restore(task);
+			let exitCode = 0;
+
+			if (cachedOutput) {
+				console.log(`${prefix} ${chalk.gray("cache hit, replaying output")}`);
+				for (const { stream, line } of cachedOutput) process[stream].write(`${prefix} ${line}\n`);
+			} else if (stopped) {
+				// Another script failed while the cache was being checked
+				exitCode = 1;
+			} else {
+				const output: OutputLine[] = [];
+				entry.process = spawnPrefixed("bun", ["run", script], task.absolutePath, prefix, (line, stream) =>
+					output.push({ stream, line }),
+				);
+				exitCode = await entry.process.exited;
+				if (exitCode === 0 && options.cache && !(await options.cache.save(task, output))) {
+					console.log(`${prefix} ${chalk.gray("not cached: outputs outside dist/ cannot be restored")}`);
+				}
+			}
+
+			running.delete(task.packageName);
+
+			// Scripts stopped because another one failed are not failures of their own
+			let status: TaskStatus = "failed";
+			if (exitCode === 0) status = "success";
+			else if (stopped) status = "cancelled";
+			results.set(task.packageName, {
+				workspace: task,
+				status,
+				exitCode,
+				duration: Date.now() - startedAt,
+				cached: cachedOutput !== null && cachedOutput !== undefined,
+			});
+
+			if (status === "failed" && !options.continueOnError && !stopped) {
+				stopped = true;
+				for (const other of running.values()) other.process?.kill();
+			}
+		})();
+	};
+
+	const skip = (task: WorkspaceInfo) =>
+		results.set(task.packageName, { workspace: task, status: "skipped", duration: 0 });
+
+	// Scripts run in their own process group, out of reach of the signal that stops us: stop them before exiting
+	const onSignal = (signal: NodeJS.Signals) => {
+		stopped = true;
+		for (const entry of running.values()) entry.process?.kill();
+		process.exit(signal === "SIGINT" ? 130 : 143);
+	};
+	process.once("SIGINT", onSignal);
+	process.once("SIGTERM", onSignal);
+	try {
+		while (queue.length > 0 || running.size > 0) {
+			const remaining: WorkspaceInfo[] = [];
+
+			for (const task of queue) {
+				const taskDependencies = [...(dependencies.get(task.packageName) ?? [])];
+				const blocked = taskDependencies.some((name) => {
+					const status = results.get(name)?.status;
+					return status !== undefined && status !== "success";
+				});
+
+				if (stopped || blocked) skip(task);
+				else if (running.size < concurrency && taskDependencies.every((name) => results.has(name))) start(task);
+				else remaining.push(task);
+			}
+			queue = remaining;
+
+			if (running.size === 0) break;
+			await Promise.race([...running.values()].map((entry) => entry.done));
+		}
+	} finally {
+		process.off("SIGINT", onSignal);
+		process.off("SIGTERM", onSignal);
+	}
+
+	for (const task of queue) skip(task);
+	return tasks.map((task) => results.get(task.packageName) as TaskResult);
+}
+
+/**
+ * Print one line per task and throw when any of them failed
+ */
+export function reportTaskResults(results: TaskResult[], script: string): void {
+	const markers: Record<TaskStatus, string> = {
+		success: chalk.green("✓"),
+		failed: chalk.red("✗"),
+		cancelled: chalk.yellow("■"),
+		skipped: chalk.gray("-"),
+	};
+
+	console.log(chalk.bold(`\n📋 ${script}`));
+	for (const result of results) {
+		let detail = `${(result.duration / 1000).toFixed(1)}s`;
+		if (result.status === "skipped" || result.status === "cancelled") detail = result.status;
+		else if (result.status === "failed") detail += `, exit code ${result.exitCode}`;
+		else if (result.cached) detail += ", cached";
+		console.log(`  ${markers[result.status]} ${result.workspace.packageName} ${chalk.gray(`(${detail})`)}`);
+	}
+
+	const failed = results.filter((result) => result.status === "failed");
+	if (failed.length > 0) {
+		throw new Error(`'${script}' failed in ${failed.map((result) => result.workspace.packageName).join(", ")}`);
+	}
+
+	const cached = results.filter((result) => result.cached).length;
+	const cachedSummary = cached > 0 ? ` (${cached} from cache)` : "";
+	console.log(chalk.green(`\n✅ Ran '${script}' in ${results.length} workspace(s)${cachedSummary}`));
+}
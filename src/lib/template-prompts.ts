@@ -0,0 +1,168 @@
+/**
+ * Questions declared by templates ("prompts" in template.json), asked once a workspace's template is selected
+ */
+
+import prompts from "prompts";
+import { getTemplateInfo, type TemplatePrompt } from "../templates";
+import type { AppTemplate, PackageTemplate, TemplateAnswer, TemplateAnswers } from "../types";
+import { evaluateCondition } from "../utils/template";
+import type { WorkspaceType } from "./manifest";
+
+const SET_REGEX = /^(app|package)\.([^=]+)\.(\w+)=(.*)$/s;
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0"];
+
+/** Answers given with --set: question answers keyed by "<app|package>.<workspace>" */
+export type TemplateAnswerPresets = Map<string, Map<string, string>>;
+
+/**
+ * Parse "<app|package>.<name>.<question>=<value>" answers from --set
+ */
+export function parseAnswerPresets(values: string[] = []): TemplateAnswerPresets {
+	const presets: TemplateAnswerPresets = new Map();
+	for (const value of values) {
+		const match = value.match(SET_REGEX);
+		if (!match) {
+			throw new Error(
+				`Invalid --set '${value}'. Expected app.<name>.<question>=<value> or package.<name>.<question>=<value>`,
+			);
+		}
+		const [, type, name, question = "", answer = ""] = match;
+		const key = `${type}.${name}`;
+		const answers = presets.get(key) ?? new Map<string, string>();
+		answers.set(question, answer);
+		presets.set(key, answers);
+	}
+	return presets;
+}
+
+/**
+ * Check an answer against the pattern or bounds of its question; returns the message to show when it fails
+ */
+function checkAnswer(prompt: TemplatePrompt, value: TemplateAnswer): true | string {
+	if (prompt.validate && !new RegExp(prompt.validate.pattern).test(String(value))) {
+		return prompt.validate.message ?? `Must match ${prompt.validate.pattern}`;
+	}
+	if (typeof value === "number") {
+		if (prompt.min !== undefined && value < prompt.min) return `Must be at least ${prompt.min}`;
+		if (prompt.max !== undefined && value > prompt.max) return `Must be at most ${prompt.max}`;
+	}
+	return true;
+}
+
+/**
+ * Convert an answer given as text to the type of its question
+ */
+function parseAnswer(prompt: TemplatePrompt, text: string, source: string): TemplateAnswer {
+	let value: TemplateAnswer = text;
+
+	if (prompt.type === "number") {
+		value = Number(text);
+		if (!text.trim() || !Number.isFinite(value)) throw new Error(`${source}: '${text}' is not a number`);
+	} else if (prompt.type === "confirm") {
+		const normalized = text.toLowerCase();
+		if (!TRUE_VALUES.includes(normalized) && !FALSE_VALUES.includes(normalized)) {
+			throw new Error(`${source}: expected true or false, got '${text}'`);
+		}
+		value = TRUE_VALUES.includes(normalized);
+	} else if (prompt.choices && !prompt.choices.some((choice) => choice.value === text)) {
+		throw new Error(`${source}: expected one of ${prompt.choices.map((choice) => choice.value).join(", ")}`);
+	}
+
+	const check = checkAnswer(prompt, value);
+	if (check !== true) throw new Error(`${source}: ${check}`);
+	return value;
+}
+
+/**
+ * Answer used without asking: the declared default, else the first choice of a select and "no" for a confirm
+ */
+function getDefaultAnswer(prompt: TemplatePrompt): TemplateAnswer | undefined {
+	if (prompt.default !== undefined) return prompt.default;
+	if (prompt.type === "select") return prompt.choices?.[0]?.value;
+	if (prompt.type === "confirm") return false;
+	return undefined;
+}
+
+async function askQuestion(prompt: TemplatePrompt): Promise<TemplateAnswer> {
+	const initial = getDefaultAnswer(prompt);
+	const response = await prompts({
+		type: prompt.type,
+		name: "answer",
+		message: prompt.message,
+		initial:
+			prompt.type === "select"
+				? Math.max(
+						0,
+						(prompt.choices ?? []).findIndex((choice) => choice.value === initial),
+					)
+				: initial,
+		choices: prompt.choices,
+		min: prompt.min,
+		max: prompt.max,
+		validate: (value: TemplateAnswer) => checkAnswer(prompt, value),
+	});
+
+	// Cancelled
+	if (response.answer === undefined) process.exit(0);
+	return response.answer;
+}
+
+/**
+ * Answer the questions of a workspace's template and store the answers on it: --set answers first, then the user
+ * is asked, or the defaults are used when not interactive
+ */
+export async function askTemplatePrompts(
+	type: WorkspaceType,
+	workspace: AppTemplate | PackageTemplate,
+	presets: TemplateAnswerPresets,
+	interactive: boolean,
+): Promise<void> {
+	const templatePrompts = getTemplateInfo(workspace.template)?.prompts ?? [];
+	const key = `${type}.${workspace.name}`;
+	const given = presets.get(key) ?? new Map<string, string>();
+	presets.delete(key);
+
+	for (const name of given.keys()) {
+		if (!templatePrompts.some((prompt) => prompt.name === name)) {
+			const available = templatePrompts.map((prompt) => prompt.name).join(", ") || "none";
+			throw new Error(
+				`--set ${key}.${name}: template ${workspace.template} has no question '${name}' (questions: ${available})`,
+			);
+		}
+	}
+
+	const answers: TemplateAnswers = {};
+	for (const prompt of templatePrompts) {
+		// Skipped questions stay unanswered, so later conditions can test them
+		const earlier = Object.fromEntries(templatePrompts.map(({ name }) => [name, answers[name]]));
+		if (prompt.when && !evaluateCondition(prompt.when, earlier)) continue;
+
+		const text = given.get(prompt.name);
+		const answer =
+			text !== undefined
+				? parseAnswer(prompt, text, `--set ${key}.${prompt.name}`)
+				: interactive
+					? await askQuestion(prompt)
+					: getDefaultAnswer(prompt);
+		if (answer === undefined) {
+			throw new Error(
+				`Template ${workspace.template} of ${workspace.name} asks "${prompt.message}"; answer it with --set ${key}.${prompt.name}=<value>`,
+			);
+		}
+		answers[prompt.name] = answer;
+	}
+
+	if (Object.keys(answers).length > 0) workspace.answers = answers;
+}
+
+/**
+ * Fail on --set answers left for workspaces that are not being created
+ */
+export function checkUnusedAnswerPresets(presets: TemplateAnswerPresets): void {
+	const [key] = presets.keys();
+	if (!key) return;
+
+	const [type, ...name] = key.split(".");
+	throw new Error(`--set ${key}.…: no ${type} named '${name.join(".")}' is being created`);
+}
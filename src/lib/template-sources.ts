@@ -0,0 +1,171 @@
+/**
+ * Templates fetched from git repositories and tarballs into the user cache folder
+ *
+ * A git repository is cloned once (bare) and each commit a ref resolves to is exported to its own folder, so a tag or
+ * commit always yields the same files. Tarballs are extracted into a folder named after their checksum.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readdir, readFile, rename, rm } from "node:fs/promises";
+import { isAbsolute, join, relative, resolve } from "node:path";
+import chalk from "chalk";
+import { getTemplateInfo, parseTemplateSource, registerTemplate, TEMPLATE_MANIFEST_FILE } from "../templates";
+import { execCommand } from "../utils/process";
+import { getUserCacheDirectory, resolveUserPath } from "./user-config";
+
+const COMMIT_REGEX = /^[0-9a-f]{40}$/;
+
+interface FetchedSource {
+	/** Folder holding the repository or tarball contents */
+	directory: string;
+	/** Commit or "sha256-<hex>" checksum of the fetched contents */
+	revision: string;
+}
+
+const hash = (value: string | Buffer) => createHash("sha256").update(value).digest("hex");
+
+const getSourcesDirectory = () => join(getUserCacheDirectory(), "templates");
+
+/**
+ * Fill a cache folder through a temporary sibling, so an interrupted fetch never leaves a partial folder behind
+ */
+async function populate(directory: string, fill: (temporary: string) => Promise<void>): Promise<void> {
+	if (existsSync(directory)) return;
+
+	const temporary = `${directory}.${process.pid}.tmp`;
+	await rm(temporary, { recursive: true, force: true });
+	await mkdir(temporary, { recursive: true });
+	try {
+		await fill(temporary);
+		await rename(temporary, directory);
+	} catch (error) {
+		await rm(temporary, { recursive: true, force: true });
+		// Another process filled it first
+		if (!existsSync(directory)) throw error;
+	}
+}
+
+/**
+ * Clone or update the repository, resolve the ref to a commit and export that commit
+ */
+async function fetchGitSource(url: string, ref = "HEAD"): Promise<FetchedSource> {
+	if (ref.startsWith("-")) throw new Error(`Invalid git ref '${ref}' for template repository ${url}`);
+
+	const repositoryPath = join(getSourcesDirectory(), "git", hash(url).slice(0, 16));
+	const gitDir = join(repositoryPath, "repository.git");
+	const git = (...args: string[]) => execCommand("git", ["--git-dir", gitDir, ...args], repositoryPath);
+
+	const cloned = existsSync(gitDir);
+	try {
+		await mkdir(repositoryPath, { recursive: true });
+		await populate(gitDir, async (temporary) => {
+			await execCommand("git", ["clone", "--bare", "--quiet", "--", url, temporary], repositoryPath);
+		});
+
+		// A commit already in the clone cannot change; anything else may have moved since the last fetch
+		const pinned =
+			COMMIT_REGEX.test(ref) &&
+			(await git("cat-file", "-e", `${ref}^{commit}`).then(
+				() => true,
+				() => false,
+			));
+		if (cloned && !pinned) await git("fetch", "--quiet", "--force", "--tags", "origin", "+refs/heads/*:refs/heads/*");
+	} catch (error) {
+		if (!cloned) await rm(repositoryPath, { recursive: true, force: true });
+		throw new Error(`Could not fetch template repository ${url}: ${error instanceof Error ? error.message : error}`);
+	}
+
+	let revision: string;
+	try {
+		revision = (await git("rev-parse", "--verify", "--quiet", `${ref}^{commit}`)).trim();
+	} catch {
+		throw new Error(`Could not find '${ref}' in template repository ${url}`);
+	}
+
+	const directory = join(repositoryPath, revision);
+	await populate(directory, async (temporary) => {
+		const archive = join(temporary, ".archive.tar");
+		await git("archive", "--format=tar", "-o", archive, revision);
+		await execCommand("tar", ["-xf", archive, "-C", temporary], temporary);
+		await rm(archive);
+	});
+
+	return { directory, revision };
+}
+
+/**
+ * Extract the tarball into a folder named after its checksum
+ */
+async function fetchTarballSource(file: string): Promise<FetchedSource> {
+	let content: Buffer;
+	try {
+		content = await readFile(file);
+	} catch (error) {
+		throw new Error(`Could not read template tarball ${file}: ${error instanceof Error ? error.message : error}`);
+	}
+
+	const checksum = hash(content);
+	const directory = join(getSourcesDirectory(), "tarballs", checksum);
+	await populate(directory, async (temporary) => {
+		await execCommand("tar", ["-xzf", file, "-C", temporary], temporary);
+	});
+
+	// Tarballs made by npm pack wrap their files in a single folder
+	const entries = await readdir(directory, { withFileTypes: true });
+	const [wrapper] = entries;
+	const unwrapped =
+		entries.length === 1 && wrapper?.isDirectory() && !existsSync(join(directory, TEMPLATE_MANIFEST_FILE))
+			? join(directory, wrapper.name)
+			: directory;
+
+	return { directory: unwrapped, revision: `sha256-${checksum}` };
+}
+
+/**
+ * Find the template folder of a fetched source: the given path, or apps/<path> and packages/<path> for sources laid out
+ * like a template folder, or the root when no path is given
+ */
+function findTemplateFolder(directory: string, path: string | undefined, source: string): string {
+	const candidates = path ? [path, join("apps", path), join("packages", path)] : ["."];
+
+	for (const candidate of candidates) {
+		const templatePath = resolve(directory, candidate);
+		const relativePath = relative(directory, templatePath);
+		if (relativePath.startsWith("..") || isAbsolute(relativePath)) {
+			throw new Error(`Template path '${path}' points outside of ${source}`);
+		}
+		if (existsSync(join(templatePath, TEMPLATE_MANIFEST_FILE))) return templatePath;
+	}
+
+	throw new Error(
+		path
+			? `No ${TEMPLATE_MANIFEST_FILE} found in '${path}' of ${source}`
+			: `No ${TEMPLATE_MANIFEST_FILE} found at the root of ${source}; add the template folder as ${source.startsWith("git+") ? "#<ref>:<path>" : "#<path>"}`,
+	);
+}
+
+/**
+ * Fetch a git or tarball template source into the cache and register it, returning its template key (the source, with
+ * a tarball path made absolute from the base directory). Template keys are returned unchanged.
+ */
+export async function resolveTemplateSource(
+	template: string,
+	type: "apps" | "packages",
+	baseDirectory = process.cwd(),
+): Promise<string> {
+	const source = parseTemplateSource(template);
+	if (!source) return template;
+
+	const file = source.kind === "tarball" ? resolveUserPath(source.file, baseDirectory) : "";
+	const key = source.kind === "tarball" ? `${file}${source.path ? `#${source.path}` : ""}` : template;
+	if (getTemplateInfo(key)) return key;
+
+	console.log(chalk.gray(`📥 Fetching template ${key}`));
+	const { directory, revision } =
+		source.kind === "git" ? await fetchGitSource(source.url, source.ref) : await fetchTarballSource(file);
+
+	const templatePath = findTemplateFolder(directory, source.path, key);
+	registerTemplate(key, templatePath, revision, type);
+	return key;
+}
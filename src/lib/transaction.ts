@@ -0,0 +1,154 @@
+/**
+ * Transactional scaffolding: record every file change and roll them back if the operation fails
+ */
+
+import { dirname, join, relative, resolve, sep } from "node:path";
+import chalk from "chalk";
+import { type FileStats, type FileSystemBackend, getFileSystem, runWithFileSystem } from "../utils/fs";
+
+interface RollbackReport {
+	restored: string[];
+	removed: string[];
+	removedDirectories: string[];
+	failed: string[];
+}
+
+/**
+ * File system backend that remembers the original state of everything it touches
+ */
+class TransactionFileSystem implements FileSystemBackend {
+	/** Original content of each touched file, or null when the file did not exist */
+	private readonly originals = new Map<string, Buffer | null>();
+	private readonly createdDirectories: string[] = [];
+
+	constructor(private readonly base: FileSystemBackend) {}
+
+	readFile(path: string): Promise<Buffer> {
+		return this.base.readFile(path);
+	}
+
+	async writeFile(path: string, data: string | Uint8Array): Promise<void> {
+		await this.recordFile(resolve(path));
+		await this.base.writeFile(path, data);
+	}
+
+	async mkdir(path: string): Promise<void> {
+		// Remember which directories did not exist yet, outermost first
+		const missing: string[] = [];
+		let current = resolve(path);
+		while (!(await this.exists(current))) {
+			missing.unshift(current);
+			current = dirname(current);
+		}
+
+		await this.base.mkdir(path);
+		this.createdDirectories.push(...missing);
+	}
+
+	readdir(path: string): Promise<string[]> {
+		return this.base.readdir(path);
+	}
+
+	stat(path: string): Promise<FileStats> {
+		return this.base.stat(path);
+	}
+
+	async rm(path: string): Promise<void> {
+		await this.recordTree(resolve(path));
+		await this.base.rm(path);
+	}
+
+	/**
+	 * Restore modified and deleted files, then delete created files and directories
+	 */
+	async rollback(): Promise<RollbackReport> {
+		const report: RollbackReport = { restored: [], removed: [], removedDirectories: [], failed: [] };
+		const isInsideCreatedDirectory = (path: string) =>
+			this.createdDirectories.some((directory) => path.startsWith(`${directory}${sep}`));
+
+		for (const [path, original] of this.originals) {
+			try {
+				if (original === null) {
+					if (isInsideCreatedDirectory(path)) continue;
+					await this.base.rm(path);
+					report.removed.push(path);
+				} else {
+					await this.base.mkdir(dirname(path));
+					await this.base.writeFile(path, original);
+					report.restored.push(path);
+				}
+			} catch {
+				report.failed.push(path);
+			}
+		}
+
+		// Removing the outermost created directories also removes everything created inside them
+		for (const directory of this.createdDirectories) {
+			if (this.createdDirectories.some((other) => directory.startsWith(`${other}${sep}`))) continue;
+			try {
+				await this.base.rm(directory);
+				report.removedDirectories.push(directory);
+			} catch {
+				report.failed.push(directory);
+			}
+		}
+
+		return report;
+	}
+
+	private async recordFile(path: string): Promise<void> {
+		if (this.originals.has(path)) return;
+		this.originals.set(path, await this.base.readFile(path).catch(() => null));
+	}
+
+	private async recordTree(path: string): Promise<void> {
+		const stats = await this.base.stat(path).catch(() => null);
+		if (!stats) return;
+		if (stats.isFile()) {
+			await this.recordFile(path);
+			return;
+		}
+		// Installed dependencies are not backed up (they may contain symlinks back into the workspace); reinstall instead
+		for (const entry of await this.base.readdir(path)) {
+			if (entry !== "node_modules") await this.recordTree(join(path, entry));
+		}
+	}
+
+	private async exists(path: string): Promise<boolean> {
+		return (await this.base.stat(path).catch(() => null)) !== null;
+	}
+}
+
+/**
+ * Print what was undone after a failed operation
+ */
+function printRollbackReport(report: RollbackReport, basePath = process.cwd()): void {
+	const display = (path: string) => relative(basePath, path) || ".";
+
+	console.log(chalk.yellow("\n↩️  Operation failed - rolling back changes"));
+	for (const path of report.restored) console.log(chalk.gray(`  restored ${display(path)}`));
+	for (const path of report.removed) console.log(chalk.gray(`  removed  ${display(path)}`));
+	for (const path of report.removedDirectories) console.log(chalk.gray(`  removed  ${display(path)}/`));
+	for (const path of report.failed) console.log(chalk.red(`  could not roll back ${display(path)}`));
+
+	const total =
+		report.restored.length + report.removed.length + report.removedDirectories.length + report.failed.length;
+	if (total === 0) {
+		console.log(chalk.gray("  no files had been changed"));
+	}
+}
+
+/**
+ * Run an operation as a transaction: if it throws, every file it created is deleted and every
+ * file it modified or deleted is restored before the error is rethrown.
+ */
+export async function runTransaction<T>(operation: () => Promise<T>, basePath = process.cwd()): Promise<T> {
+	const transaction = new TransactionFileSystem(getFileSystem());
+
+	try {
+		return await runWithFileSystem(transaction, operation);
+	} catch (error) {
+		printRollbackReport(await transaction.rollback(), basePath);
+		throw error;
+	}
+}
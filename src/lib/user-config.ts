@@ -0,0 +1,63 @@
+/**
+ * Per-user configuration (~/.config/create-bun-monorepo/config.json, or under $XDG_CONFIG_HOME)
+ */
+
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { isAbsolute, join, resolve } from "node:path";
+import { parseJsonc } from "../utils/jsonc";
+
+export interface UserConfig {
+	/** Extra template folders as "[namespace=]path", relative paths resolved against the config file */
+	templateDirs?: string[];
+}
+
+export function getUserConfigPath(): string {
+	const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+	return join(configHome, "create-bun-monorepo", "config.json");
+}
+
+/**
+ * Per-user cache folder (~/.cache/create-bun-monorepo, or under $XDG_CACHE_HOME)
+ */
+export function getUserCacheDirectory(): string {
+	const cacheHome = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+	return join(cacheHome, "create-bun-monorepo");
+}
+
+/**
+ * Expand a leading "~" and resolve a path against a base directory
+ */
+export function resolveUserPath(path: string, baseDirectory: string): string {
+	if (path === "~" || path.startsWith("~/")) return join(homedir(), path.slice(1));
+	return isAbsolute(path) ? path : resolve(baseDirectory, path);
+}
+
+/**
+ * Read the user configuration, or an empty one when the file does not exist
+ */
+export function readUserConfig(): UserConfig {
+	const configPath = getUserConfigPath();
+
+	let content: string;
+	try {
+		content = readFileSync(configPath, "utf-8");
+	} catch {
+		return {};
+	}
+
+	const config = parseJsonc<UserConfig>(content);
+	if (typeof config !== "object" || config === null || Array.isArray(config)) {
+		throw new Error(`Invalid ${configPath}: expected a JSON object`);
+	}
+
+	const { templateDirs } = config;
+	if (
+		templateDirs !== undefined &&
+		!(Array.isArray(templateDirs) && templateDirs.every((item) => typeof item === "string"))
+	) {
+		throw new Error(`Invalid ${configPath}: "templateDirs" must be an array of "[namespace=]path" strings`);
+	}
+
+	return config;
+}
@@ -0,0 +1,156 @@
+/**
+ * Regenerate workspaces from their template in memory and merge the output into the files on disk
+ */
+
+import { basename, dirname, join } from "node:path";
+import type { OrmConfig } from "../types";
+import { type MergeLabels, mergeThreeWay } from "../utils/diff";
+import { readDirectoryFiles } from "../utils/file";
+import { getFileSystem, MemoryFileSystem, mkdir, rm, runWithFileSystem, writeFile } from "../utils/fs";
+import {
+	GENERATED_OUTPUT_IGNORE,
+	getManifestPackages,
+	type MonorepoManifest,
+	resolveScope,
+	type WorkspaceRecord,
+} from "./manifest";
+import { createOrmSetup } from "./orm-setup";
+import { createAppWithProcessing, createPackageWithProcessing } from "./shared-setup";
+
+export type FileAction = "updated" | "added" | "removed" | "merged" | "conflict" | "kept";
+
+export interface FileResult {
+	path: string;
+	action: FileAction;
+	/** New content to write, or null to delete the file */
+	content?: Buffer | null;
+	note?: string;
+}
+
+function getWorkspaceOrm(record: WorkspaceRecord): OrmConfig | undefined {
+	const { orm, database } = record.options;
+	return orm && orm !== "none" && database ? { type: orm, database } : undefined;
+}
+
+/**
+ * Generate a workspace with the current templates, in memory, and return its files
+ */
+export function generateWorkspace(
+	rootPath: string,
+	manifest: MonorepoManifest,
+	record: WorkspaceRecord,
+): Promise<Map<string, Buffer>> {
+	const workspacePath = join(rootPath, record.path);
+	const projectName = basename(rootPath);
+	const scope = resolveScope(rootPath, manifest);
+	const template = {
+		name: record.name,
+		template: record.template,
+		category: record.category,
+		directory: dirname(record.path),
+		answers: record.answers,
+	};
+	const orm = getWorkspaceOrm(record);
+	const originalCwd = process.cwd();
+
+	return runWithFileSystem(new MemoryFileSystem(getFileSystem()), async () => {
+		// Start from an empty workspace directory so existing files do not leak into the output
+		await rm(workspacePath);
+
+		try {
+			process.chdir(dirname(rootPath));
+			if (record.type === "app") {
+				await createAppWithProcessing(projectName, scope, template, getManifestPackages(manifest), orm);
+			} else {
+				await createPackageWithProcessing(projectName, scope, template);
+				if (record.template === "db" && orm) await createOrmSetup(projectName, orm, record.path);
+			}
+		} finally {
+			process.chdir(originalCwd);
+		}
+
+		return readDirectoryFiles(workspacePath, GENERATED_OUTPUT_IGNORE);
+	});
+}
+
+const isSame = (a: Buffer | undefined, b: Buffer | undefined) => (a && b ? a.equals(b) : a === b);
+
+const isBinary = (content: Buffer | undefined) => content?.includes(0) ?? false;
+
+/**
+ * Three-way merge every file of a workspace: base (previous template output), current (on disk) and generated; the
+ * labels name the two template outputs in conflict markers
+ */
+export function mergeWorkspace(
+	base: Map<string, Buffer>,
+	current: Map<string, Buffer>,
+	generated: Map<string, Buffer>,
+	labels: Omit<MergeLabels, "ours">,
+): FileResult[] {
+	const paths = [...new Set([...base.keys(), ...current.keys(), ...generated.keys()])].sort();
+	const results: FileResult[] = [];
+
+	for (const path of paths) {
+		const baseContent = base.get(path);
+		const currentContent = current.get(path);
+		const generatedContent = generated.get(path);
+
+		// Nothing to do when both sides agree or only the local copy changed
+		if (isSame(currentContent, generatedContent) || isSame(baseContent, generatedContent)) continue;
+
+		// Files untouched locally simply follow the template
+		if (isSame(baseContent, currentContent)) {
+			if (generatedContent) {
+				results.push({ path, action: currentContent ? "updated" : "added", content: generatedContent });
+			} else {
+				results.push({ path, action: "removed", content: null });
+			}
+			continue;
+		}
+
+		if (!currentContent) {
+			results.push({ path, action: "kept", note: "deleted locally but changed in the template" });
+			continue;
+		}
+
+		if (!generatedContent) {
+			results.push({ path, action: "kept", note: "removed from the template but modified locally" });
+			continue;
+		}
+
+		if (isBinary(baseContent) || isBinary(currentContent) || isBinary(generatedContent)) {
+			results.push({ path, action: "conflict", note: "binary file changed locally and in the template" });
+			continue;
+		}
+
+		const merged = mergeThreeWay(
+			baseContent?.toString("utf-8") ?? "",
+			currentContent.toString("utf-8"),
+			generatedContent.toString("utf-8"),
+			{ ours: "current", ...labels },
+		);
+		results.push({
+			path,
+			action: merged.conflicts > 0 ? "conflict" : "merged",
+			content: Buffer.from(merged.text),
+			note: merged.conflicts > 0 ? `${merged.conflicts} conflicting region(s)` : undefined,
+		});
+	}
+
+	return results;
+}
+
+/**
+ * Write the merged files of a workspace and delete the removed ones
+ */
+export async function applyFileResults(workspacePath: string, files: FileResult[]): Promise<void> {
+	for (const file of files) {
+		const filePath = join(workspacePath, file.path);
+		if (file.content === null) {
+			await rm(filePath);
+		} else if (file.content) {
+			await mkdir(dirname(filePath));
+			await writeFile(filePath, file.content);
+		}
+	}
+}
@@ -0,0 +1,371 @@
+/**
+ * Workspace discovery and shared helpers for commands that operate on an existing monorepo
+ */
+
+import { basename, dirname, join, posix, resolve } from "node:path";
+import { pathExists, readdir, readFile, stat, writeFile } from "../utils/fs";
+
+export interface PackageJson {
+	name?: string;
+	version?: string;
+	workspaces?: string[];
+	scripts?: Record<string, string>;
+	dependencies?: Record<string, string>;
+	devDependencies?: Record<string, string>;
+	peerDependencies?: Record<string, string>;
+	optionalDependencies?: Record<string, string>;
+	[key: string]: unknown;
+}
+
+export type WorkspaceKind = "app" | "package";
+
+export interface WorkspaceInfo {
+	/** Directory name */
+	name: string;
+	type: WorkspaceKind;
+	/** Path relative to the monorepo root */
+	path: string;
+	absolutePath: string;
+	/** Name from the workspace's package.json */
+	packageName: string;
+	packageJson: PackageJson;
+}
+
+export const DEPENDENCY_FIELDS = [
+	"dependencies",
+	"devDependencies",
+	"peerDependencies",
+	"optionalDependencies",
+] as const;
+
+/** Default folders of new apps and packages */
+export const WORKSPACE_DIRECTORIES: Record<WorkspaceKind, string> = { app: "apps", package: "packages" };
+
+/** Extensions of source files scanned for import specifiers */
+export const SOURCE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mts", ".cts", ".mjs", ".cjs"];
+
+/** Root files shared by every workspace; changing one of them can affect any workspace */
+export const SHARED_ROOT_FILES = ["package.json", "bun.lock", "bun.lockb", "tsconfig.json", "tsconfig.base.json"];
+
+const IGNORED_DIRECTORIES = new Set(["node_modules", "dist", "build", ".next", ".turbo", ".cache", ".react-router"]);
+
+export async function readPackageJson(directory: string): Promise<PackageJson> {
+	return JSON.parse(await readFile(join(directory, "package.json"), "utf-8"));
+}
+
+/**
+ * Find the monorepo root: the nearest directory at or above `startDirectory` whose package.json has workspaces
+ */
+export async function findMonorepoRoot(startDirectory = process.cwd()): Promise<string> {
+	const start = resolve(startDirectory);
+	if (!(await pathExists(start))) throw new Error(`Directory ${start} does not exist`);
+
+	for (let directory = start; ; directory = dirname(directory)) {
+		const packageJson = await readPackageJson(directory).catch(() => null);
+		if (Array.isArray(packageJson?.workspaces)) return directory;
+		if (dirname(directory) === directory) break;
+	}
+
+	throw new Error(
+		`No Bun monorepo found at ${start} or above it (no package.json with workspaces). Run this command inside a monorepo or pass --cwd <path>.`,
+	);
+}
+
+interface WorkspaceGlob {
+	pattern: string;
+	negated: boolean;
+	regex: RegExp;
+}
+
+const LEADING_DOT_SLASH_REGEX = /^\.\//;
+const TRAILING_SLASH_REGEX = /\/+$/;
+const GLOB_CHARACTERS_REGEX = /[*?{]/;
+
+/**
+ * Convert a workspace glob (`*`, `**`, `?` and `{a,b}`) into a regex matching root-relative paths
+ */
+function globToRegExp(pattern: string): RegExp {
+	let source = "";
+
+	for (let index = 0; index < pattern.length; index++) {
+		const character = pattern[index] as string;
+		const braceEnd = character === "{" ? pattern.indexOf("}", index) : -1;
+
+		if (pattern.startsWith("**/", index)) {
+			source += "(?:.*/)?";
+			index += 2;
+		} else if (pattern.startsWith("**", index)) {
+			source += ".*";
+			index++;
+		} else if (character === "*") {
+			source += "[^/]*";
+		} else if (character === "?") {
+			source += "[^/]";
+		} else if (braceEnd !== -1) {
+			const alternatives = pattern.slice(index + 1, braceEnd).split(",");
+			source += `(?:${alternatives.map(escapeRegExp).join("|")})`;
+			index = braceEnd;
+		} else {
+			source += escapeRegExp(character);
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+function parseWorkspaceGlobs(patterns: string[]): WorkspaceGlob[] {
+	return patterns.map((raw) => {
+		const negated = raw.startsWith("!");
+		const pattern = (negated ? raw.slice(1) : raw)
+			.replace(LEADING_DOT_SLASH_REGEX, "")
+			.replace(TRAILING_SLASH_REGEX, "");
+		return { pattern, negated, regex: globToRegExp(pattern) };
+	});
+}
+
+/**
+ * Folders whose direct subdirectories are workspaces, from root `workspaces` globs such as "services/*"
+ */
+export function getWorkspaceGlobFolders(patterns: string[]): string[] {
+	const folders = parseWorkspaceGlobs(patterns)
+		.filter((glob) => !glob.negated && glob.pattern.endsWith("/*"))
+		.map((glob) => glob.pattern.slice(0, -2))
+		.filter((folder) => folder && !GLOB_CHARACTERS_REGEX.test(folder));
+	return [...new Set(folders)];
+}
+
+/**
+ * Check a root-relative directory against the root `workspaces` globs; negated globs win over matching ones
+ */
+export function matchWorkspaceGlobs(path: string, patterns: string[]): { included: boolean; excludedBy?: string } {
+	const globs = parseWorkspaceGlobs(patterns);
+	const exclusion = globs.find((glob) => glob.negated && glob.regex.test(path));
+	if (exclusion) return { included: false, excludedBy: `!${exclusion.pattern}` };
+	return { included: globs.some((glob) => !glob.negated && glob.regex.test(path)) };
+}
+
+/**
+ * Expand the root `workspaces` globs into the root-relative directories holding a package.json.
+ * Only the part of the tree a glob can reach is walked; hidden directories and build output are skipped.
+ */
+export async function expandWorkspaceGlobs(rootPath: string, patterns: string[]): Promise<string[]> {
+	const found = new Set<string>();
+
+	const visit = async (glob: WorkspaceGlob, directory: string, depth: number): Promise<void> => {
+		if (directory && glob.regex.test(directory) && (await pathExists(join(rootPath, directory, "package.json")))) {
+			found.add(directory);
+		}
+		if (depth === 0) return;
+
+		for (const entry of await readdir(join(rootPath, directory)).catch(() => [])) {
+			if (entry.startsWith(".") || entry === "node_modules" || IGNORED_DIRECTORIES.has(entry)) continue;
+
+			const path = directory ? `${directory}/${entry}` : entry;
+			const stats = await stat(join(rootPath, path)).catch(() => null);
+			if (stats?.isDirectory()) await visit(glob, path, depth - 1);
+		}
+	};
+
+	for (const glob of parseWorkspaceGlobs(patterns)) {
+		if (glob.negated) continue;
+
+		// Start below the literal leading segments; "**" can reach any depth
+		const segments = glob.pattern.split("/");
+		const literalCount = segments.findIndex((segment) => GLOB_CHARACTERS_REGEX.test(segment));
+		const base = segments.slice(0, literalCount === -1 ? segments.length : literalCount).join("/");
+		const depth = glob.pattern.includes("**")
+			? Number.POSITIVE_INFINITY
+			: segments.length - (base ? base.split("/").length : 0);
+		await visit(glob, base, depth);
+	}
+
+	return [...found].filter((path) => matchWorkspaceGlobs(path, patterns).included).sort();
+}
+
+const LIBRARY_MAIN_REGEX = /\.(?:[cm]?[jt]sx?)$/;
+
+/**
+ * Whether a workspace is an app or a package: implied by an apps/ or packages/ folder, otherwise a package when
+ * its package.json declares library entry points
+ */
+function inferWorkspaceKind(path: string, packageJson: PackageJson): WorkspaceKind {
+	const folder = basename(dirname(path));
+	if (folder === WORKSPACE_DIRECTORIES.app) return "app";
+	if (folder === WORKSPACE_DIRECTORIES.package) return "package";
+
+	const { exports, module, types, main } = packageJson;
+	const hasLibraryMain = typeof main === "string" && LIBRARY_MAIN_REGEX.test(main);
+	return exports || module || types || hasLibraryMain ? "package" : "app";
+}
+
+/**
+ * List the apps and packages of a monorepo: the directories matched by its root `workspaces` globs
+ */
+export async function findWorkspaces(rootPath: string): Promise<WorkspaceInfo[]> {
+	const { workspaces: patterns = [] } = await readPackageJson(rootPath);
+	const workspaces: WorkspaceInfo[] = [];
+
+	for (const path of await expandWorkspaceGlobs(rootPath, patterns)) {
+		const absolutePath = join(rootPath, path);
+		const packageJson = await readPackageJson(absolutePath).catch(() => null);
+		if (!packageJson) continue;
+
+		workspaces.push({
+			name: basename(path),
+			type: inferWorkspaceKind(path, packageJson),
+			path,
+			absolutePath,
+			packageName: packageJson.name ?? basename(path),
+			packageJson,
+		});
+	}
+
+	// Apps first, like the apps/ and packages/ layout the CLI generates
+	return workspaces.sort((a, b) => a.type.localeCompare(b.type) || a.path.localeCompare(b.path));
+}
+
+/**
+ * Root-relative path of an app or package; its folder defaults to apps/ or packages/
+ */
+export function getWorkspacePath(type: WorkspaceKind, workspace: { name: string; directory?: string }): string {
+	return `${workspace.directory ?? WORKSPACE_DIRECTORIES[type]}/${workspace.name}`;
+}
+
+/**
+ * Check a workspace folder option: a folder inside the monorepo, returned as a normalized root-relative path
+ */
+export function normalizeWorkspaceDirectory(directory: string, option: string): string {
+	const normalized = posix.normalize(directory.replaceAll("\\", "/")).replace(TRAILING_SLASH_REGEX, "");
+	if (posix.isAbsolute(normalized) || normalized === "." || normalized === ".." || normalized.startsWith("../")) {
+		throw new Error(`${option} must be a folder inside the monorepo, relative to its root (got '${directory}')`);
+	}
+	return normalized;
+}
+
+/**
+ * Workspace dependencies declared by a package.json (names from every dependency field)
+ */
+export function getDependencyNames(packageJson: PackageJson): string[] {
+	return [...new Set(DEPENDENCY_FIELDS.flatMap((field) => Object.keys(packageJson[field] ?? {})))];
+}
+
+/**
+ * Rename a dependency key in place (keeping its position); returns whether anything changed
+ */
+export function renameDependency(packageJson: PackageJson, oldName: string, newName: string): boolean {
+	let changed = false;
+
+	for (const field of DEPENDENCY_FIELDS) {
+		const dependencies = packageJson[field];
+		if (!dependencies || !(oldName in dependencies)) continue;
+
+		packageJson[field] = Object.fromEntries(
+			Object.entries(dependencies).map(([name, version]) => [name === oldName ? newName : name, version]),
+		);
+		changed = true;
+	}
+
+	return changed;
+}
+
+/**
+ * Remove a dependency from every dependency field; returns whether anything changed
+ */
+export function removeDependency(packageJson: PackageJson, dependency: string): boolean {
+	let changed = false;
+
+	for (const field of DEPENDENCY_FIELDS) {
+		const dependencies = packageJson[field];
+		if (!dependencies || !(dependency in dependencies)) continue;
+
+		delete dependencies[dependency];
+		if (Object.keys(dependencies).length === 0) delete packageJson[field];
+		changed = true;
+	}
+
+	return changed;
+}
+
+/**
+ * Recursively list source files below a directory, skipping build output and node_modules
+ */
+export async function listSourceFiles(directory: string): Promise<string[]> {
+	const files: string[] = [];
+
+	for (const entry of await readdir(directory).catch(() => [])) {
+		if (IGNORED_DIRECTORIES.has(entry)) continue;
+
+		const path = join(directory, entry);
+		const stats = await stat(path);
+		if (stats.isDirectory()) files.push(...(await listSourceFiles(path)));
+		else if (SOURCE_EXTENSIONS.some((extension) => entry.endsWith(extension))) files.push(path);
+	}
+
+	return files;
+}
+
+/**
+ * Whether a tsconfig reference (relative to the tsconfig's directory) points at the given directory
+ */
+export function referencesPath(reference: unknown, tsConfigDirectory: string, target: string): boolean {
+	if (!reference || typeof reference !== "object" || !("path" in reference)) return false;
+	const { path } = reference as { path: unknown };
+	return typeof path === "string" && resolve(tsConfigDirectory, path) === resolve(target);
+}
+
+const REGEX_SPECIAL_CHARACTERS = /[.*+?^${}()|[\]\\]/g;
+
+export function escapeRegExp(value: string): string {
+	return value.replace(REGEX_SPECIAL_CHARACTERS, "\\$&");
+}
+
+/**
+ * Regex matching import/export/require specifiers of a package (including subpaths).
+ * The quote and specifier are captured so the specifier can be rewritten.
+ */
+export function createImportRegex(packageName: string, flags = "g"): RegExp {
+	return new RegExp(
+		`((?:\\bfrom|\\bimport|\\brequire\\s*\\(|\\bimport\\s*\\()\\s*)(["'])${escapeRegExp(packageName)}((?:/[^"']*)?)\\2`,
+		flags,
+	);
+}
+
+export interface ImportMatch {
+	file: string;
+	line: number;
+	text: string;
+}
+
+/**
+ * Find source lines importing a package in the given directories
+ */
+export async function findImports(directories: string[], packageName: string): Promise<ImportMatch[]> {
+	const matches: ImportMatch[] = [];
+	const importRegex = createImportRegex(packageName, "");
+
+	for (const directory of directories) {
+		for (const file of await listSourceFiles(directory)) {
+			const lines = (await readFile(file, "utf-8")).split("\n");
+			lines.forEach((text, index) => {
+				if (importRegex.test(text)) matches.push({ file, line: index + 1, text: text.trim() });
+			});
+		}
+	}
+
+	return matches;
+}
+
+/**
+ * Rewrite import specifiers of the renamed package (including subpath imports); returns whether anything changed
+ */
+export async function rewriteImports(file: string, oldPackageName: string, newPackageName: string): Promise<boolean> {
+	const content = await readFile(file, "utf-8");
+	const updated = content.replace(
+		createImportRegex(oldPackageName),
+		(_match, prefix: string, quote: string, subpath: string) => `${prefix}${quote}${newPackageName}${subpath}${quote}`,
+	);
+
+	if (updated === content) return false;
+	await writeFile(file, updated);
+	return true;
+}
@@ -0,0 +1,138 @@
+import { join, relative } from "node:path";
+import chalk from "chalk";
+import { injectUITailwindContent } from "./injections";
+import { previewChanges } from "./lib/dry-run";
+import {
+	findWorkspace,
+	GENERATED_OUTPUT_IGNORE,
+	type MonorepoManifest,
+	readManifest,
+	type WorkspaceRecord,
+} from "./lib/manifest";
+import { runTransaction } from "./lib/transaction";
+import { applyFileResults, generateWorkspace, mergeWorkspace } from "./lib/workspace-merge";
+import {
+	findImports,
+	findMonorepoRoot,
+	findWorkspaces,
+	getDependencyNames,
+	referencesPath,
+	type WorkspaceInfo,
+} from "./lib/workspaces";
+import type { LinkOptions } from "./types";
+import { patchJsonFile, readDirectoryFiles } from "./utils/file";
+import { pathExists, readFile } from "./utils/fs";
+import { parseJsonc } from "./utils/jsonc";
+
+const UI_TEMPLATES = ["ui", "ui-native"];
+
+export async function link(packageName: string, appNames: string[], options: LinkOptions = {}): Promise<void> {
+	console.log(chalk.blue("🔗 Link Package"));
+	console.log(chalk.gray("Wire an existing package into existing apps\n"));
+
+	const rootPath = await findMonorepoRoot(options.cwd);
+
+	const workspaces = await findWorkspaces(rootPath);
+	const pkg = workspaces.find((workspace) => workspace.type === "package" && workspace.name === packageName);
+	if (!pkg) {
+		const available = workspaces.filter((workspace) => workspace.type === "package").map((workspace) => workspace.name);
+		throw new Error(`Package '${packageName}' not found. Available: ${available.join(", ") || "none"}`);
+	}
+
+	const apps = appNames.map((appName) => {
+		const app = workspaces.find((workspace) => workspace.type === "app" && workspace.name === appName);
+		if (!app) {
+			const available = workspaces.filter((workspace) => workspace.type === "app").map((workspace) => workspace.name);
+			throw new Error(`App '${appName}' not found. Available: ${available.join(", ") || "none"}`);
+		}
+		return app;
+	});
+
+	const operation = async () => {
+		for (const app of apps) await linkPackage(rootPath, pkg, app);
+	};
+	if (options.dryRun) {
+		await previewChanges(operation, rootPath);
+		return;
+	}
+	await runTransaction(operation, rootPath);
+
+	console.log(chalk.green(`\n✅ Linked ${pkg.packageName} into ${apps.map((app) => app.name).join(", ")}`));
+	console.log(chalk.gray("📦 Run the following command to install the workspace dependency:"));
+	console.log(chalk.yellow("  bun install"));
+}
+
+async function linkPackage(rootPath: string, pkg: WorkspaceInfo, app: WorkspaceInfo): Promise<void> {
+	if (getDependencyNames(app.packageJson).includes(pkg.packageName)) {
+		console.log(chalk.gray(`  ${app.name} already depends on ${pkg.packageName}`));
+	} else {
+		app.packageJson.dependencies = { ...app.packageJson.dependencies, [pkg.packageName]: "workspace:*" };
+		await patchJsonFile(join(app.absolutePath, "package.json"), app.packageJson);
+		console.log(chalk.gray(`  ${app.name}: added ${pkg.packageName}@workspace:*`));
+	}
+
+	await addTsConfigReference(app, pkg);
+
+	// UI packages also get the demo and style wiring apps receive when created with them
+	const manifest = await readManifest(rootPath);
+	const packageRecord = manifest && findWorkspace(manifest, "package", pkg.name);
+	if (!UI_TEMPLATES.includes(packageRecord?.template ?? pkg.name)) return;
+
+	const appRecord = manifest && findWorkspace(manifest, "app", app.name);
+	const alreadyImported = (await findImports([app.absolutePath], pkg.packageName)).length > 0;
+	if (manifest && appRecord && packageRecord && appRecord.template !== "unknown" && !alreadyImported) {
+		await mergeLinkedPackage(rootPath, manifest, appRecord, packageRecord);
+	} else {
+		await injectUITailwindContent(app.absolutePath, [pkg.absolutePath]);
+	}
+}
+
+/**
+ * Merge into an app what its template generates differently once the package is linked (the component demo and the
+ * Tailwind content globs), leaving the rest of the app as it is. package.json is left out: its dependency is added above.
+ */
+async function mergeLinkedPackage(
+	rootPath: string,
+	manifest: MonorepoManifest,
+	appRecord: WorkspaceRecord,
+	packageRecord: WorkspaceRecord,
+): Promise<void> {
+	const unlinked = { ...manifest, workspaces: manifest.workspaces.filter((workspace) => workspace !== packageRecord) };
+	const base = await generateWorkspace(rootPath, unlinked, appRecord);
+	const generated = await generateWorkspace(rootPath, manifest, appRecord);
+
+	const appPath = join(rootPath, appRecord.path);
+	const current = await readDirectoryFiles(appPath, GENERATED_OUTPUT_IGNORE);
+	const files = mergeWorkspace(base, current, generated, {
+		base: `template ${appRecord.template}`,
+		theirs: `template ${appRecord.template} with ${packageRecord.name}`,
+	}).filter((file) => file.path !== "package.json");
+	await applyFileResults(appPath, files);
+
+	for (const file of files) {
+		const note = file.note ? ` - ${file.note}` : "";
+		console.log(chalk.gray(`  ${appRecord.name}: ${file.path} (${file.action})${note}`));
+	}
+}
+
+/**
+ * Add a project reference from the app's tsconfig.json to the package
+ */
+async function addTsConfigReference(app: WorkspaceInfo, pkg: WorkspaceInfo): Promise<void> {
+	const tsConfigPath = join(app.absolutePath, "tsconfig.json");
+	if (!(await pathExists(tsConfigPath))) return;
+
+	let tsConfig: { references?: unknown[] };
+	try {
+		tsConfig = parseJsonc(await readFile(tsConfigPath, "utf-8"));
+	} catch {
+		console.log(chalk.yellow(`⚠️  Could not parse ${tsConfigPath}, add a reference to ${pkg.path} manually`));
+		return;
+	}
+
+	const references = tsConfig.references ?? [];
+	if (references.some((reference) => referencesPath(reference, app.absolutePath, pkg.absolutePath))) return;
+
+	tsConfig.references = [...references, { path: relative(app.absolutePath, pkg.absolutePath) }];
+	await patchJsonFile(tsConfigPath, tsConfig);
+}
@@ -0,0 +1,148 @@
+import { join, relative } from "node:path";
+import chalk from "chalk";
+import prompts from "prompts";
+import { previewChanges } from "./lib/dry-run";
+import { BASE_DIRECTORY, readManifest, writeManifest } from "./lib/manifest";
+import { getOrmDependencies, getOrmScripts } from "./lib/orm-setup";
+import { runTransaction } from "./lib/transaction";
+import {
+	findImports,
+	findMonorepoRoot,
+	findWorkspaces,
+	type ImportMatch,
+	type PackageJson,
+	referencesPath,
+	removeDependency,
+	type WorkspaceInfo,
+	type WorkspaceKind,
+} from "./lib/workspaces";
+import type { DatabaseType, OrmConfig, RemoveOptions } from "./types";
+import { patchJsonFile } from "./utils/file";
+import { pathExists, readFile, rm } from "./utils/fs";
+import { parseJsonc } from "./utils/jsonc";
+
+const ALL_ORM_CONFIGS: OrmConfig[] = (["drizzle", "prisma"] as const).flatMap((type) =>
+	(["postgresql", "mysql", "sqlite"] as DatabaseType[]).map((database) => ({ type, database })),
+);
+
+export async function remove(type: WorkspaceKind, name: string, options: RemoveOptions = {}): Promise<void> {
+	console.log(chalk.blue(`🗑️  Remove ${type === "app" ? "App" : "Package"}`));
+	console.log(chalk.gray("Delete a workspace and unwire it from the rest of the monorepo\n"));
+
+	const rootPath = await findMonorepoRoot(options.cwd);
+
+	const workspaces = await findWorkspaces(rootPath);
+	const target = workspaces.find((workspace) => workspace.type === type && workspace.name === name);
+	if (!target) {
+		const available = workspaces.filter((workspace) => workspace.type === type).map((workspace) => workspace.name);
+		throw new Error(
+			`${type === "app" ? "App" : "Package"} '${name}' not found. Available: ${available.join(", ") || "none"}`,
+		);
+	}
+
+	const others = workspaces.filter((workspace) => workspace !== target);
+	const importingFiles = await findImports(
+		others.map((workspace) => workspace.absolutePath),
+		target.packageName,
+	);
+
+	if (!options.yes && !options.dryRun) {
+		const response = await prompts({
+			type: "confirm",
+			name: "confirmed",
+			message: `Delete ${target.path} and remove every reference to ${target.packageName}?`,
+			initial: false,
+		});
+
+		if (!response.confirmed) {
+			console.log(chalk.gray("Operation cancelled."));
+			return;
+		}
+	}
+
+	const operation = () => removeWorkspace(rootPath, target, others);
+	if (options.dryRun) await previewChanges(operation, rootPath);
+	else await runTransaction(operation, rootPath);
+
+	if (importingFiles.length > 0) printImportWarning(rootPath, target, importingFiles);
+	if (options.dryRun) return;
+
+	console.log(chalk.green(`\n✅ Removed ${target.path}`));
+	console.log(chalk.gray("📦 Run the following command to update the lockfile:"));
+	console.log(chalk.yellow("  bun install"));
+}
+
+async function removeWorkspace(rootPath: string, target: WorkspaceInfo, others: WorkspaceInfo[]): Promise<void> {
+	await rm(target.absolutePath);
+
+	// Drop the dependency from every other workspace
+	for (const workspace of others) {
+		if (removeDependency(workspace.packageJson, target.packageName)) {
+			await patchJsonFile(join(workspace.absolutePath, "package.json"), workspace.packageJson);
+		}
+	}
+
+	// Drop project references to the removed directory
+	await removeTsConfigReference(rootPath, target.absolutePath);
+	for (const workspace of others) await removeTsConfigReference(workspace.absolutePath, target.absolutePath);
+
+	const manifest = await readManifest(rootPath);
+	const isDbPackage = target.type === "package" && target.name === "db";
+
+	if (isDbPackage) await removeOrmSetup(rootPath, manifest?.orm);
+
+	if (manifest) {
+		manifest.workspaces = manifest.workspaces.filter((workspace) => workspace.path !== target.path);
+		if (isDbPackage) manifest.orm = undefined;
+		await writeManifest(rootPath, manifest);
+		await rm(join(rootPath, BASE_DIRECTORY, target.path));
+	}
+}
+
+async function removeTsConfigReference(tsConfigDirectory: string, target: string): Promise<void> {
+	const tsConfigPath = join(tsConfigDirectory, "tsconfig.json");
+	if (!(await pathExists(tsConfigPath))) return;
+
+	let tsConfig: { references?: unknown[] };
+	try {
+		tsConfig = parseJsonc(await readFile(tsConfigPath, "utf-8"));
+	} catch {
+		console.log(chalk.yellow(`⚠️  Could not parse ${tsConfigPath}, check its references manually`));
+		return;
+	}
+
+	const references = tsConfig.references ?? [];
+	const remaining = references.filter((reference) => !referencesPath(reference, tsConfigDirectory, target));
+	if (remaining.length === references.length) return;
+
+	tsConfig.references = remaining;
+	await patchJsonFile(tsConfigPath, tsConfig);
+}
+
+/**
+ * Remove the ORM scripts, dependencies and Docker Compose file added alongside the db package
+ */
+async function removeOrmSetup(rootPath: string, orm?: OrmConfig): Promise<void> {
+	const packageJsonPath = join(rootPath, "package.json");
+	const packageJson: PackageJson = JSON.parse(await readFile(packageJsonPath, "utf-8"));
+
+	// Without a recorded ORM, remove whatever any ORM setup could have added
+	for (const config of orm ? [orm] : ALL_ORM_CONFIGS) {
+		for (const script of Object.keys(getOrmScripts(config))) delete packageJson.scripts?.[script];
+
+		const { dependencies, devDependencies } = getOrmDependencies(config);
+		for (const dependency of [...Object.keys(dependencies), ...Object.keys(devDependencies)]) {
+			removeDependency(packageJson, dependency);
+		}
+	}
+
+	await patchJsonFile(packageJsonPath, packageJson);
+	await rm(join(rootPath, "docker-compose.dev.yml"));
+}
+
+function printImportWarning(rootPath: string, target: WorkspaceInfo, matches: ImportMatch[]): void {
+	console.log(chalk.yellow(`\n⚠️  These files still import ${target.packageName} and need to be updated:`));
+	for (const match of matches) {
+		console.log(chalk.gray(`  ${relative(rootPath, match.file)}:${match.line}  ${match.text}`));
+	}
+}
@@ -0,0 +1,179 @@
+import { dirname, join, relative } from "node:path";
+import chalk from "chalk";
+import { renameUITailwindContent } from "./injections";
+import { previewChanges } from "./lib/dry-run";
+import { BASE_DIRECTORY, readManifest, writeManifest } from "./lib/manifest";
+import { runTransaction } from "./lib/transaction";
+import {
+	findMonorepoRoot,
+	findWorkspaces,
+	listSourceFiles,
+	referencesPath,
+	renameDependency,
+	rewriteImports,
+	type WorkspaceInfo,
+	type WorkspaceKind,
+} from "./lib/workspaces";
+import type { RenameOptions } from "./types";
+import { moveDirectory, patchJsonFile } from "./utils/file";
+import { pathExists, readFile } from "./utils/fs";
+import { parseJsonc } from "./utils/jsonc";
+
+const WORKSPACE_NAME_REGEX = /^[a-z0-9][a-z0-9._-]*$/i;
+const RELATIVE_PREFIX_REGEX = /^\.\//;
+
+interface RenameSummary {
+	dependents: string[];
+	tsConfigs: string[];
+	tailwindConfigs: string[];
+	sourceFiles: string[];
+}
+
+export async function rename(
+	type: WorkspaceKind,
+	oldName: string,
+	newName: string,
+	options: RenameOptions = {},
+): Promise<void> {
+	console.log(chalk.blue(`✏️  Rename ${type === "app" ? "App" : "Package"}`));
+	console.log(chalk.gray("Move a workspace and update every reference to it\n"));
+
+	if (!WORKSPACE_NAME_REGEX.test(newName)) {
+		throw new Error(`Invalid name '${newName}': use letters, digits, '.', '_' or '-'`);
+	}
+
+	const rootPath = await findMonorepoRoot(options.cwd);
+
+	const workspaces = await findWorkspaces(rootPath);
+	const target = workspaces.find((workspace) => workspace.type === type && workspace.name === oldName);
+	if (!target) {
+		const available = workspaces.filter((workspace) => workspace.type === type).map((workspace) => workspace.name);
+		throw new Error(
+			`${type === "app" ? "App" : "Package"} '${oldName}' not found. Available: ${available.join(", ") || "none"}`,
+		);
+	}
+
+	const newPath = join(dirname(target.absolutePath), newName);
+	if (await pathExists(newPath)) throw new Error(`${relative(rootPath, newPath)} already exists`);
+
+	const newPackageName = getRenamedPackageName(target.packageName, oldName, newName);
+	if (workspaces.some((workspace) => workspace.packageName === newPackageName)) {
+		throw new Error(`Another workspace is already named ${newPackageName}`);
+	}
+
+	console.log(chalk.gray(`📁 ${target.path} → ${relative(rootPath, newPath)}`));
+	console.log(chalk.gray(`📦 ${target.packageName} → ${newPackageName}\n`));
+
+	const summary: RenameSummary = { dependents: [], tsConfigs: [], tailwindConfigs: [], sourceFiles: [] };
+	const operation = () => renameWorkspace(rootPath, target, workspaces, newName, newPackageName, summary);
+	if (options.dryRun) {
+		await previewChanges(operation, rootPath);
+		return;
+	}
+	await runTransaction(operation, rootPath);
+
+	console.log(chalk.green(`\n✅ Renamed ${target.path} to ${relative(rootPath, newPath)}`));
+	console.log(chalk.gray(`  ${summary.dependents.length} dependent package.json file(s) updated`));
+	console.log(chalk.gray(`  ${summary.tsConfigs.length} tsconfig.json file(s) updated`));
+	console.log(chalk.gray(`  ${summary.tailwindConfigs.length} Tailwind config(s) with rewritten content globs`));
+	console.log(chalk.gray(`  ${summary.sourceFiles.length} source file(s) with rewritten imports`));
+	console.log(chalk.gray("📦 Run the following command to relink the workspaces:"));
+	console.log(chalk.yellow("  bun install"));
+}
+
+/**
+ * Replace the last segment of a package name ("@scope/old" → "@scope/new"); other names become the new name
+ */
+function getRenamedPackageName(packageName: string, oldName: string, newName: string): string {
+	if (packageName.endsWith(`/${oldName}`)) return `${packageName.slice(0, -oldName.length)}${newName}`;
+	const scope = packageName.startsWith("@") ? packageName.split("/")[0] : undefined;
+	return scope ? `${scope}/${newName}` : newName;
+}
+
+async function renameWorkspace(
+	rootPath: string,
+	target: WorkspaceInfo,
+	workspaces: WorkspaceInfo[],
+	newName: string,
+	newPackageName: string,
+	summary: RenameSummary,
+): Promise<void> {
+	const oldPath = target.absolutePath;
+	const newPath = join(dirname(oldPath), newName);
+
+	// node_modules holds links into the old location; bun install recreates it
+	await moveDirectory(oldPath, newPath, ["node_modules"]);
+
+	const packageJson = target.packageJson;
+	packageJson.name = newPackageName;
+	await patchJsonFile(join(newPath, "package.json"), packageJson);
+
+	const movedWorkspaces = workspaces.map((workspace) =>
+		workspace === target ? { ...workspace, absolutePath: newPath } : workspace,
+	);
+
+	for (const workspace of movedWorkspaces) {
+		if (workspace.packageJson === packageJson) continue;
+		if (renameDependency(workspace.packageJson, target.packageName, newPackageName)) {
+			await patchJsonFile(join(workspace.absolutePath, "package.json"), workspace.packageJson);
+			summary.dependents.push(workspace.name);
+		}
+	}
+
+	for (const directory of [rootPath, ...movedWorkspaces.map((workspace) => workspace.absolutePath)]) {
+		if (await updateTsConfigReference(directory, oldPath, newPath)) summary.tsConfigs.push(directory);
+	}
+
+	// Apps styling a renamed UI package scan its sources through relative content globs
+	for (const workspace of movedWorkspaces) {
+		if (await renameUITailwindContent(workspace.absolutePath, oldPath, newPath)) {
+			summary.tailwindConfigs.push(workspace.name);
+		}
+	}
+
+	for (const workspace of movedWorkspaces) {
+		for (const file of await listSourceFiles(workspace.absolutePath)) {
+			if (await rewriteImports(file, target.packageName, newPackageName)) summary.sourceFiles.push(file);
+		}
+	}
+
+	const manifest = await readManifest(rootPath);
+	const record = manifest?.workspaces.find((workspace) => workspace.path === target.path);
+	if (manifest && record) {
+		const oldBasePath = join(rootPath, BASE_DIRECTORY, record.path);
+		record.name = newName;
+		record.path = relative(rootPath, newPath);
+		if (await pathExists(oldBasePath)) await moveDirectory(oldBasePath, join(rootPath, BASE_DIRECTORY, record.path));
+		await writeManifest(rootPath, manifest);
+	}
+}
+
+/**
+ * Point project references to the old directory at the new one; returns whether anything changed
+ */
+async function updateTsConfigReference(tsConfigDirectory: string, oldPath: string, newPath: string): Promise<boolean> {
+	const tsConfigPath = join(tsConfigDirectory, "tsconfig.json");
+	if (!(await pathExists(tsConfigPath))) return false;
+
+	let tsConfig: { references?: Array<{ path: string }> };
+	try {
+		tsConfig = parseJsonc(await readFile(tsConfigPath, "utf-8"));
+	} catch {
+		console.log(chalk.yellow(`⚠️  Could not parse ${tsConfigPath}, check its references manually`));
+		return false;
+	}
+
+	let changed = false;
+	for (const reference of tsConfig.references ?? []) {
+		if (!referencesPath(reference, tsConfigDirectory, oldPath)) continue;
+
+		// Keep the "./" style of the original reference
+		const relativePath = relative(tsConfigDirectory, newPath);
+		reference.path =
+			RELATIVE_PREFIX_REGEX.test(reference.path) && !relativePath.startsWith(".") ? `./${relativePath}` : relativePath;
+		changed = true;
+	}
+
+	if (changed) await patchJsonFile(tsConfigPath, tsConfig);
+	return changed;
+}
@@ -0,0 +1,22 @@
+import chalk from "chalk";
+import { buildWorkspaceGraph } from "./lib/graph";
+import { TaskCache } from "./lib/task-cache";
+import { reportTaskResults, runWorkspaceScript } from "./lib/task-runner";
+import { findMonorepoRoot, findWorkspaces } from "./lib/workspaces";
+import type { RunOptions } from "./types";
+
+export async function run(script: string, options: RunOptions = {}): Promise<void> {
+	const rootPath = await findMonorepoRoot(options.cwd);
+
+	const graph = buildWorkspaceGraph(await findWorkspaces(rootPath));
+	const targets = graph.workspaces.filter((workspace) => workspace.packageJson.scripts?.[script]);
+	if (targets.length === 0) {
+		console.log(chalk.yellow(`⚠️  No workspace defines a '${script}' script`));
+		return;
+	}
+
+	console.log(chalk.blue(`▶ Running '${script}' in ${targets.length} workspace(s), dependencies first\n`));
+	const cache = options.cache ? new TaskCache(rootPath, graph, script, options.env) : undefined;
+	const results = await runWorkspaceScript(graph, targets, script, { ...options, cache });
+	reportTaskResults(results, script);
+}
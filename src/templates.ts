@@ -1,11 +1,78 @@
 /**
- * Template configuration for the create-bun-monorepo
+ * Template configuration for the create-bun-monorepo, loaded from the template.json manifest of every template folder
  */
 
-interface TemplateInfo {
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { basename, dirname, isAbsolute, join, normalize, sep } from "node:path";
+import { rootPath } from "./constants";
+import { logger } from "./lib/logger";
+import { getUserConfigPath, readUserConfig, resolveUserPath } from "./lib/user-config";
+import type { TemplateAnswer } from "./types";
+import { isValidCondition } from "./utils/template";
+
+/** Manifest describing a template, at the root of each templates/apps/* and templates/packages/* folder */
+export const TEMPLATE_MANIFEST_FILE = "template.json";
+
+/**
+ * Traits of a template: "orm" apps can use the database ORM (and get its endpoints), "orm" packages are only linked
+ * when an ORM is configured; "react" and "native" mark React and React Native apps
+ */
+export const TEMPLATE_CAPABILITIES = ["orm", "react", "native"] as const;
+export type TemplateCapability = (typeof TEMPLATE_CAPABILITIES)[number];
+
+/** Kinds of questions a template can ask */
+export const TEMPLATE_PROMPT_TYPES = ["text", "number", "confirm", "select"] as const;
+export type TemplatePromptType = (typeof TEMPLATE_PROMPT_TYPES)[number];
+
+/**
+ * Question a template asks once it is selected; template files read the answer as answers.<name>
+ */
+export interface TemplatePrompt {
+	name: string;
+	type: TemplatePromptType;
+	message: string;
+	/** Choices of select questions */
+	choices?: Array<{ title: string; value: string; description?: string }>;
+	default?: TemplateAnswer;
+	/** Pattern text answers must match, and the message shown when one does not */
+	validate?: { pattern: string; message?: string };
+	/** Bounds of number answers */
+	min?: number;
+	max?: number;
+	/** Condition on the earlier answers ("router == pages"); the question is skipped when it does not hold */
+	when?: string;
+}
+
+/**
+ * Contents of a template.json file
+ */
+export interface TemplateManifest {
 	name: string;
 	description: string;
+	category: string;
+	capabilities: TemplateCapability[];
+	/**
+	 * Package templates that apps created from this template depend on, when the monorepo has them; templates from an
+	 * extra folder can name the packages of the same folder without their namespace
+	 */
+	packages: string[];
+	/** Port the dev server listens on */
+	port?: number;
+	/**
+	 * Files and folders (paths in the template folder) only created when a condition holds: a context variable such as
+	 * "orm.type", "!orm.type" for its opposite, or a comparison such as "answers.router == pages"
+	 */
+	files: Record<string, string>;
+	prompts: TemplatePrompt[];
+}
+
+export interface TemplateInfo extends Omit<TemplateManifest, "category"> {
+	/** Template folder, null for the blank template */
 	path: string | null;
+	/** Namespace of the extra template folder the template comes from, undefined for built-in templates */
+	namespace?: string;
+	/** Commit (git) or "sha256-<hex>" checksum (tarball) of templates fetched from a source */
+	revision?: string;
 }
 
 interface CategoryInfo {
@@ -18,142 +85,449 @@ export interface TemplatesConfig {
 	categories: Record<string, CategoryInfo>;
 }
 
-// Template categories and their templates
-const TEMPLATES_CONFIG: TemplatesConfig = {
-	categories: {
-		blank: {
-			name: "Blank Template",
-			description: "Empty template with basic TypeScript setup",
-			templates: {
-				blank: {
-					name: "Blank",
-					description: "Basic TypeScript project with minimal setup",
-					path: null,
-				},
-			},
-		},
-		frontend: {
-			name: "Frontend Applications",
-			description: "Web frontend applications and frameworks",
-			templates: {
-				"react-vite": {
-					name: "React + Vite",
-					description: "React application with Vite bundler and HMR",
-					path: "apps/react-vite",
-				},
-				"react-webpack": {
-					name: "React + Webpack",
-					description: "React application with Webpack bundler",
-					path: "apps/react-webpack",
-				},
-				"react-vike": {
-					name: "React + Vike",
-					description: "Full-stack React framework with Vike for SSR/SPA",
-					path: "apps/react-vike",
-				},
-				nextjs: {
-					name: "Next.js",
-					description: "Full-stack React framework with SSR/SSG",
-					path: "apps/nextjs",
-				},
-				"nextjs-solito": {
-					name: "Next.js + Solito",
-					description: "Next.js with Solito for universal React Native",
-					path: "apps/nextjs-solito",
-				},
-				"react-router": {
-					name: "React Router v7 (previously Remix)",
-					description: "CSR + SSR React framework with nested routing",
-					path: "apps/react-router",
-				},
-			},
-		},
-		mobile: {
-			name: "Mobile Applications",
-			description: "React Native and mobile development",
-			templates: {
-				"react-native-expo": {
-					name: "React Native + Expo",
-					description: "React Native with Expo for rapid development",
-					path: "apps/react-native-expo",
-				},
-				"react-native-bare": {
-					name: "React Native Bare",
-					description: "Bare React Native setup without Expo",
-					path: "apps/react-native-bare",
-				},
-			},
-		},
-		backend: {
-			name: "Backend Services",
-			description: "API servers and backend services",
-			templates: {
-				express: {
-					name: "Express.js",
-					description: "Fast, unopinionated web framework for Node.js",
-					path: "apps/express",
-				},
-				hono: {
-					name: "Hono",
-					description: "Ultrafast web framework for Cloudflare Workers, Deno, and Bun",
-					path: "apps/hono",
-				},
-				nestjs: {
-					name: "NestJS",
-					description: "Progressive Node.js framework for scalable server-side applications",
-					path: "apps/nestjs",
-				},
-			},
-		},
-		packages: {
-			name: "Shared Packages",
-			description: "Reusable libraries and utilities",
-			templates: {
-				utils: {
-					name: "Utilities",
-					description: "Common utility functions for objects, arrays, strings, and dates",
-					path: "packages/utils",
-				},
-				ui: {
-					name: "UI Components",
-					description: "Reusable UI components with Tailwind CSS and Radix UI",
-					path: "packages/ui",
-				},
-				schemas: {
-					name: "Schemas",
-					description: "Zod schemas that can be used for backend data validation and frontend forms",
-					path: "packages/schemas",
-				},
-				hooks: {
-					name: "React Hooks",
-					description: "Custom React hooks reusable across React and React Native apps",
-					path: "packages/hooks",
-				},
-				"ui-native": {
-					name: "UI Native Components",
-					description: "Reusable React Native components for mobil apps & web apps with a RN/Expo adapter.",
-					path: "packages/ui-native",
-				},
-				db: {
-					name: "Database",
-					description: "Database client and schemas with ORM support",
-					path: "packages/db",
-				},
-			},
-		},
-	},
-} as const;
-
-// Full-stack frameworks that can use ORMs (even though they're in frontend category)
-const FULLSTACK_FRAMEWORKS = ["nextjs", "nextjs-solito", "react-router", "react-vike"];
-const BACKEND_FRAMEWORKS = ["express", "hono", "nestjs"];
-const MOBILE_FRAMEWORKS = ["react-native-expo", "react-native-bare"];
-
-export const ORM_FRAMEWORKS = [...FULLSTACK_FRAMEWORKS, ...BACKEND_FRAMEWORKS];
-export const NATIVE_FRAMEWORKS = [...MOBILE_FRAMEWORKS, "nextjs-solito"];
-export const REACT_FRAMEWORKS = [...MOBILE_FRAMEWORKS, ...FULLSTACK_FRAMEWORKS, "react-vite", "react-webpack"];
-
-// Helper function to get template config (replaces loadTemplateConfig)
+// Template categories, filled with the templates whose manifest names them
+const CATEGORIES: Record<string, Omit<CategoryInfo, "templates">> = {
+	blank: { name: "Blank Template", description: "Empty template with basic TypeScript setup" },
+	frontend: { name: "Frontend Applications", description: "Web frontend applications and frameworks" },
+	mobile: { name: "Mobile Applications", description: "React Native and mobile development" },
+	backend: { name: "Backend Services", description: "API servers and backend services" },
+	packages: { name: "Shared Packages", description: "Reusable libraries and utilities" },
+};
+
+const BLANK_TEMPLATE: TemplateInfo = {
+	name: "Blank",
+	description: "Basic TypeScript project with minimal setup",
+	capabilities: [],
+	packages: [],
+	files: {},
+	prompts: [],
+	path: null,
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+	Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const PROMPT_NAME_REGEX = /^[A-Za-z_]\w*$/;
+const CONDITION_VARIABLE_REGEX = /^!?\s*(\w+)/;
+const PROMPT_FIELDS = new Set(["name", "type", "message", "choices", "default", "validate", "min", "max", "when"]);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Check the "prompts" of a template.json file
+ */
+function validateTemplatePrompts(value: unknown, fail: (message: string) => never): TemplatePrompt[] {
+	if (!Array.isArray(value)) return fail(`"prompts" must be an array of questions`);
+
+	const prompts: TemplatePrompt[] = [];
+	for (const [index, item] of value.entries()) {
+		const label = `prompts[${index}]`;
+		if (!isObject(item)) return fail(`${label} must be an object`);
+
+		const { name, type, message, choices, validate, min, max, when } = item;
+		if (typeof name !== "string" || !PROMPT_NAME_REGEX.test(name)) {
+			return fail(`${label}.name must be letters, numbers and "_", not starting with a number`);
+		}
+		if (prompts.some((prompt) => prompt.name === name)) fail(`${label}.name '${name}' is used twice`);
+		if (!(TEMPLATE_PROMPT_TYPES as readonly unknown[]).includes(type)) {
+			fail(`${label}.type must be one of ${TEMPLATE_PROMPT_TYPES.join(", ")}`);
+		}
+		if (typeof message !== "string" || !message) fail(`${label}.message must be a non-empty string`);
+
+		const prompt: TemplatePrompt = { name, type: type as TemplatePromptType, message: message as string };
+
+		if (type === "select") {
+			if (!Array.isArray(choices) || choices.length === 0) {
+				fail(`${label}.choices must be a non-empty array of values or { "title", "value" } objects`);
+			}
+			prompt.choices = (choices as unknown[]).map((choice) => {
+				if (typeof choice === "string") return { title: choice, value: choice };
+				if (isObject(choice) && typeof choice.title === "string" && typeof choice.value === "string") {
+					const description = typeof choice.description === "string" ? choice.description : undefined;
+					return { title: choice.title, value: choice.value, description };
+				}
+				return fail(`${label}.choices must be a non-empty array of values or { "title", "value" } objects`);
+			});
+		} else if (choices !== undefined) {
+			fail(`${label}.choices only applies to select questions`);
+		}
+
+		if (validate !== undefined) {
+			if (type !== "text" || !isObject(validate) || typeof validate.pattern !== "string") {
+				fail(`${label}.validate must be { "pattern", "message" } on a text question`);
+			}
+			const { pattern, message: invalidMessage } = validate as Record<string, unknown>;
+			try {
+				new RegExp(pattern as string);
+			} catch {
+				fail(`${label}.validate.pattern is not a valid regular expression`);
+			}
+			prompt.validate = {
+				pattern: pattern as string,
+				message: typeof invalidMessage === "string" ? invalidMessage : undefined,
+			};
+		}
+
+		for (const [key, bound] of [
+			["min", min],
+			["max", max],
+		] as const) {
+			if (bound === undefined) continue;
+			if (type !== "number" || typeof bound !== "number") fail(`${label}.${key} must be a number on a number question`);
+			prompt[key] = bound as number;
+		}
+
+		const initial = item.default;
+		if (initial !== undefined) {
+			const expected = { text: "string", number: "number", confirm: "boolean", select: "string" }[prompt.type];
+			if (typeof initial !== expected) fail(`${label}.default must be a ${expected}`);
+			if (prompt.choices && !prompt.choices.some((choice) => choice.value === initial)) {
+				fail(`${label}.default must be one of the choices`);
+			}
+			prompt.default = initial as TemplateAnswer;
+		}
+
+		if (when !== undefined) {
+			const variable = typeof when === "string" && isValidCondition(when) && when.match(CONDITION_VARIABLE_REGEX)?.[1];
+			if (!variable || !prompts.some((prompt) => prompt.name === variable)) {
+				fail(`${label}.when must be a condition on an earlier question (e.g. "router == pages")`);
+			}
+			prompt.when = when as string;
+		}
+
+		const unknown = Object.keys(item).filter((key) => !PROMPT_FIELDS.has(key));
+		if (unknown.length > 0) fail(`${label} has unknown field${unknown.length > 1 ? "s" : ""} ${unknown.join(", ")}`);
+
+		prompts.push(prompt);
+	}
+	return prompts;
+}
+
+/** Manifests already warned about their deprecated "replacements" field */
+const warnedReplacements = new Set<string>();
+
+/**
+ * Check the contents of a template.json file against the manifest schema
+ */
+export function validateTemplateManifest(value: unknown, source: string): TemplateManifest {
+	const fail = (message: string): never => {
+		throw new Error(`Invalid ${source}: ${message}`);
+	};
+
+	if (typeof value !== "object" || value === null || Array.isArray(value)) return fail("expected a JSON object");
+	const manifest = value as Record<string, unknown>;
+
+	for (const key of ["name", "description", "category"]) {
+		if (typeof manifest[key] !== "string" || !manifest[key]) fail(`"${key}" must be a non-empty string`);
+	}
+	if (!Object.hasOwn(CATEGORIES, manifest.category as string) || manifest.category === "blank") {
+		fail(
+			`"category" must be one of ${Object.keys(CATEGORIES)
+				.filter((key) => key !== "blank")
+				.join(", ")}`,
+		);
+	}
+
+	const capabilities = manifest.capabilities ?? [];
+	if (
+		!isStringArray(capabilities) ||
+		capabilities.some((item) => !(TEMPLATE_CAPABILITIES as readonly string[]).includes(item))
+	) {
+		fail(`"capabilities" must be an array of ${TEMPLATE_CAPABILITIES.join(", ")}`);
+	}
+
+	const packages = manifest.packages ?? [];
+	if (!isStringArray(packages)) fail(`"packages" must be an array of package template names`);
+
+	const port = manifest.port;
+	if (port !== undefined && !(Number.isInteger(port) && (port as number) > 0 && (port as number) < 65536)) {
+		fail(`"port" must be an integer between 1 and 65535`);
+	}
+
+	const files = manifest.files ?? {};
+	if (typeof files !== "object" || files === null || Array.isArray(files)) {
+		fail(`"files" must map template paths to conditions`);
+	}
+	for (const [path, condition] of Object.entries(files as Record<string, unknown>)) {
+		if (isAbsolute(path) || normalize(path).split(sep).includes("..")) {
+			fail(`"files" path '${path}' must be relative to the template folder`);
+		}
+		if (typeof condition !== "string" || !isValidCondition(condition)) {
+			fail(`"files" condition of '${path}' must be a context variable, "!variable" or "variable == value"`);
+		}
+	}
+
+	const prompts = validateTemplatePrompts(manifest.prompts ?? [], fail);
+
+	// Templates written before the template language substituted {{key}} in every text file; the field is ignored for
+	// one release so their folders still load, with a warning that their placeholders are copied verbatim
+	if (manifest.replacements !== undefined && !warnedReplacements.has(source)) {
+		warnedReplacements.add(source);
+		logger.warn(
+			`${source}: "replacements" is deprecated and ignored: only files ending in .hbs are rendered, so rename the files using {{name}}, {{appName}} or {{scope}} to <file>.hbs (use {{scope}} for {{appName}}) and remove the field`,
+		);
+	}
+
+	const known = new Set([
+		"name",
+		"description",
+		"category",
+		"capabilities",
+		"packages",
+		"port",
+		"files",
+		"prompts",
+		"replacements",
+	]);
+	const unknown = Object.keys(manifest).filter((key) => !known.has(key));
+	if (unknown.length > 0) fail(`unknown field${unknown.length > 1 ? "s" : ""} ${unknown.join(", ")}`);
+
+	return {
+		name: manifest.name as string,
+		description: manifest.description as string,
+		category: manifest.category as string,
+		capabilities: capabilities as TemplateCapability[],
+		packages: packages as string[],
+		port: port as number | undefined,
+		files: files as Record<string, string>,
+		prompts,
+	};
+}
+
+/**
+ * Folder holding apps/ and packages/ template folders; templates of extra folders are keyed "<namespace>/<folder>"
+ */
+export interface TemplateDirectory {
+	namespace?: string;
+	path: string;
+}
+
+const NAMESPACE_REGEX = /^[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * Parse a "[namespace=]path" template folder; the namespace defaults to the folder name
+ */
+export function parseTemplateDirectory(spec: string, baseDirectory: string): TemplateDirectory {
+	const separator = spec.indexOf("=");
+	const prefix = separator === -1 ? undefined : spec.slice(0, separator);
+	const hasNamespace = prefix !== undefined && NAMESPACE_REGEX.test(prefix);
+
+	const path = resolveUserPath(hasNamespace ? spec.slice(separator + 1) : spec, baseDirectory);
+	const namespace = hasNamespace ? prefix : basename(path);
+	if (!NAMESPACE_REGEX.test(namespace)) {
+		throw new Error(
+			`Cannot use '${namespace}' as the namespace of template folder ${path}; name it explicitly with <namespace>=<path> (lowercase letters, numbers, "-", "." or "_")`,
+		);
+	}
+	return { namespace, path };
+}
+
+/**
+ * Template fetched from a git repository ("git+<url>[#<ref>][:<path>]") or a tarball ("<file>.tgz[#<path>]"); path
+ * is the template folder inside it
+ */
+export type TemplateSource =
+	| { kind: "git"; url: string; ref?: string; path?: string }
+	| { kind: "tarball"; file: string; path?: string };
+
+const GIT_SOURCE_REGEX = /^git\+([^#]+)(?:#([^:]*)(?::(.*))?)?$/;
+const TARBALL_SOURCE_REGEX = /^(?:file:(?:\/\/)?)?([^#]+\.(?:tgz|tar\.gz))(?:#(.*))?$/;
+const SOURCE_SUFFIX_REGEX = /\.(?:git|tgz|tar\.gz)$/;
+const TRAILING_SLASH_REGEX = /\/+$/;
+
+/**
+ * Parse a git or tarball template source, or return undefined for template keys
+ */
+export function parseTemplateSource(spec: string): TemplateSource | undefined {
+	const git = spec.match(GIT_SOURCE_REGEX);
+	if (git?.[1]) return { kind: "git", url: git[1], ref: git[2] || undefined, path: git[3] || undefined };
+
+	const tarball = spec.match(TARBALL_SOURCE_REGEX);
+	if (tarball?.[1]) return { kind: "tarball", file: tarball[1], path: tarball[2] || undefined };
+
+	return undefined;
+}
+
+/**
+ * Read the template.json of a template folder
+ */
+function readTemplateManifest(templatePath: string): TemplateManifest {
+	const source = join(templatePath, TEMPLATE_MANIFEST_FILE);
+	let content: unknown;
+	try {
+		content = JSON.parse(readFileSync(source, "utf-8"));
+	} catch (error) {
+		throw new Error(`Could not read ${source}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	return validateTemplateManifest(content, source);
+}
+
+/**
+ * Read and validate the manifests of every template folder under the built-in templates and the extra folders
+ */
+function loadTemplateConfig(directories: TemplateDirectory[]): TemplatesConfig {
+	const categories: Record<string, CategoryInfo> = {};
+	for (const [key, category] of Object.entries(CATEGORIES)) {
+		categories[key] = { ...category, templates: key === "blank" ? { blank: BLANK_TEMPLATE } : {} };
+	}
+
+	const builtInTemplates = new Set<string>();
+	const packageTemplates = new Set<string>();
+	const appTemplates = new Map<string, TemplateInfo>();
+	const namespaces = new Map<string, string>();
+
+	for (const { namespace, path: directoryPath } of directories) {
+		if (namespace !== undefined) {
+			const existing = namespaces.get(namespace);
+			if (existing) {
+				throw new Error(`Template folders ${existing} and ${directoryPath} both use the namespace '${namespace}'`);
+			}
+			namespaces.set(namespace, directoryPath);
+			if (!["apps", "packages"].some((type) => existsSync(join(directoryPath, type)))) {
+				throw new Error(`Template folder ${directoryPath} has no apps/ or packages/ folder`);
+			}
+		}
+
+		for (const type of ["apps", "packages"] as const) {
+			const typePath = join(directoryPath, type);
+			if (namespace !== undefined && !existsSync(typePath)) continue;
+
+			for (const entry of readdirSync(typePath).sort()) {
+				const templatePath = join(typePath, entry);
+				if (entry.startsWith(".") || entry === "node_modules" || !statSync(templatePath).isDirectory()) continue;
+
+				const key = namespace === undefined ? entry : `${namespace}/${entry}`;
+				const source = join(templatePath, TEMPLATE_MANIFEST_FILE);
+				const { category, ...manifest } = readTemplateManifest(templatePath);
+
+				if ((type === "packages") !== (category === "packages")) {
+					throw new Error(
+						`Invalid ${source}: ${type === "packages" ? 'package templates must use the "packages" category' : 'app templates cannot use the "packages" category'}`,
+					);
+				}
+				if (entry === "blank") throw new Error(`Invalid ${source}: "blank" is reserved for the blank template`);
+				if (namespace !== undefined && builtInTemplates.has(entry)) {
+					throw new Error(
+						`Template ${key} (${templatePath}) clashes with the built-in ${entry} template; rename its folder`,
+					);
+				}
+				if (packageTemplates.has(key) || appTemplates.has(key)) {
+					throw new Error(`Invalid ${source}: an app or package template named ${key} already exists`);
+				}
+
+				const info = { ...manifest, path: templatePath, namespace };
+				const templates = categories[category]?.templates;
+				if (templates) templates[key] = info;
+				if (namespace === undefined) builtInTemplates.add(key);
+				if (type === "packages") packageTemplates.add(key);
+				else appTemplates.set(key, info);
+			}
+		}
+	}
+
+	// Package references resolve to templates of the same folder first, then to built-in or namespaced ones
+	for (const [template, info] of appTemplates) {
+		info.packages = info.packages.map((pkg) =>
+			info.namespace && packageTemplates.has(`${info.namespace}/${pkg}`) ? `${info.namespace}/${pkg}` : pkg,
+		);
+
+		const missing = info.packages.filter((pkg) => !packageTemplates.has(pkg));
+		if (missing.length > 0) {
+			throw new Error(
+				`Invalid ${join(info.path ?? template, TEMPLATE_MANIFEST_FILE)}: unknown package template${missing.length > 1 ? "s" : ""} ${missing.join(", ")}`,
+			);
+		}
+	}
+
+	return { categories };
+}
+
+let extraTemplateDirectories: TemplateDirectory[] = [];
+let templateConfig: TemplatesConfig | undefined;
+
+/**
+ * Use extra template folders ("[namespace=]path", relative to the base directory) on top of the user config's
+ */
+export function setTemplateDirectories(specs: string[], baseDirectory = process.cwd()): void {
+	extraTemplateDirectories = specs.map((spec) => parseTemplateDirectory(spec, baseDirectory));
+	templateConfig = undefined;
+}
+
+/**
+ * The built-in templates folder followed by the extra ones from the user config and --template-dir
+ */
+function getTemplateDirectories(): TemplateDirectory[] {
+	const configBase = dirname(getUserConfigPath());
+	return [
+		{ path: join(rootPath, "templates") },
+		...(readUserConfig().templateDirs ?? []).map((spec) => parseTemplateDirectory(spec, configBase)),
+		...extraTemplateDirectories,
+	];
+}
+
+/**
+ * Templates grouped by category, loaded from their manifests on first use
+ */
 export function getTemplateConfig(): TemplatesConfig {
-	return TEMPLATES_CONFIG;
+	templateConfig ??= loadTemplateConfig(getTemplateDirectories());
+	return templateConfig;
+}
+
+/**
+ * Look up a template by key in any category
+ */
+export function getTemplateInfo(template: string): TemplateInfo | undefined {
+	for (const category of Object.values(getTemplateConfig().categories)) {
+		const info = category.templates[template];
+		if (info) return info;
+	}
+	return undefined;
+}
+
+export function templateHasCapability(template: string, capability: TemplateCapability): boolean {
+	return getTemplateInfo(template)?.capabilities.includes(capability) ?? false;
+}
+
+/**
+ * Add a template fetched from a source under the given key, after checking its manifest and package references
+ */
+export function registerTemplate(
+	key: string,
+	templatePath: string,
+	revision: string,
+	type: "apps" | "packages",
+): TemplateManifest {
+	const manifest = readTemplateManifest(templatePath);
+	const { categories } = getTemplateConfig();
+
+	if ((type === "packages") !== (manifest.category === "packages")) {
+		throw new Error(
+			`Template ${key} is ${manifest.category === "packages" ? "a package" : "an app"} template, it cannot be used for ${type}`,
+		);
+	}
+
+	const packageTemplates = categories.packages?.templates ?? {};
+	const missing = manifest.packages.filter((pkg) => !packageTemplates[pkg]);
+	if (missing.length > 0) {
+		throw new Error(
+			`Invalid ${join(templatePath, TEMPLATE_MANIFEST_FILE)}: unknown package template${missing.length > 1 ? "s" : ""} ${missing.join(", ")}`,
+		);
+	}
+
+	const { category, ...info } = manifest;
+	const templates = categories[category]?.templates;
+	if (templates) templates[key] = { ...info, path: templatePath, revision };
+	return manifest;
+}
+
+/**
+ * Workspace name used when only a template is given: its key without the namespace ("acme/fastify" -> "fastify"),
+ * or the template folder, repository or tarball name of a source ("git+file:///srv/templates.git#v2:fastify" -> "fastify")
+ */
+export function getDefaultWorkspaceName(template: string): string {
+	const source = parseTemplateSource(template);
+	const name = source ? source.path || (source.kind === "git" ? source.url : source.file) : template;
+	const trimmed = name.replace(TRAILING_SLASH_REGEX, "");
+	return trimmed.slice(trimmed.lastIndexOf("/") + 1).replace(SOURCE_SUFFIX_REGEX, "");
 }
@@ -2,33 +2,191 @@
  * Type definitions for the create-bun-monorepo
  */
 
+/** Answer to a question declared by a template */
+export type TemplateAnswer = string | number | boolean;
+
+/** Answers to the questions of a template, by question name */
+export type TemplateAnswers = Record<string, TemplateAnswer>;
+
 export interface AppTemplate {
 	name: string;
 	template: string;
 	category: string;
+	/** Workspace folder relative to the monorepo root (defaults to apps) */
+	directory?: string;
+	answers?: TemplateAnswers;
 }
 
 export interface PackageTemplate {
 	name: string;
 	template: string;
 	category: string;
+	/** Workspace folder relative to the monorepo root (defaults to packages) */
+	directory?: string;
+	answers?: TemplateAnswers;
 }
 
 export type OrmType = "drizzle" | "prisma" | "none";
 
+export type DatabaseType = "postgresql" | "mysql" | "sqlite";
+
+export type LintingType = "biome" | "eslint-prettier" | "none";
+
 export interface OrmConfig {
 	type: OrmType;
-	database: "postgresql" | "mysql" | "sqlite";
+	database: DatabaseType;
 }
 
 export interface CreateOptions {
 	appName: string;
-	linting: "biome" | "eslint-prettier" | "none";
+	linting: LintingType;
 	apps: AppTemplate[];
 	packages: PackageTemplate[];
 	orm?: OrmConfig;
+	/** npm scope of the workspace packages, without the "@" */
+	scope: string;
+	/** Folders apps and packages are created in */
+	appsDir: string;
+	packagesDir: string;
+}
+
+/**
+ * Options controlling how scaffolding is applied
+ */
+export interface ScaffoldOptions {
+	/** Only print the planned file changes */
+	dryRun?: boolean;
+	/** Overwrite files in non-empty target directories */
+	force?: boolean;
+	/** Write only files missing from non-empty target directories */
+	merge?: boolean;
+}
+
+/**
+ * Values supplied on the command line for the create command.
+ * Anything left undefined falls back to environment variables, then prompts (or defaults with --yes).
+ */
+export interface CreateFlags extends ScaffoldOptions {
+	name?: string;
+	linting?: LintingType;
+	apps?: string[];
+	packages?: string[];
+	orm?: OrmType;
+	database?: DatabaseType;
+	scope?: string;
+	appsDir?: string;
+	packagesDir?: string;
+	/** Answers to template questions as "<app|package>.<name>.<question>=<value>" */
+	set?: string[];
+	yes?: boolean;
+}
+
+/**
+ * Options of commands that operate on an existing monorepo
+ */
+export interface MonorepoCommandOptions {
+	/** Directory to look for the monorepo root from (defaults to the current directory) */
+	cwd?: string;
+}
+
+/**
+ * Options shared by the add command flows
+ */
+export interface AddCommandOptions extends ScaffoldOptions, MonorepoCommandOptions {
+	/** Workspace folder new apps and packages are created in */
+	dir?: string;
+	/** Answers to template questions as "<app|package>.<name>.<question>=<value>" */
+	set?: string[];
+}
+
+export interface UpgradeOptions extends MonorepoCommandOptions {
+	dryRun?: boolean;
+}
+
+export interface RenameOptions extends MonorepoCommandOptions {
+	dryRun?: boolean;
+}
+
+export interface LinkOptions extends MonorepoCommandOptions {
+	dryRun?: boolean;
+}
+
+export type GraphFormat = "mermaid" | "dot" | "json";
+
+export interface GraphOptions extends MonorepoCommandOptions {
+	format?: GraphFormat;
+	/** Write the graph to this file instead of stdout */
+	output?: string;
+}
+
+export interface AffectedOptions extends MonorepoCommandOptions {
+	/** Git ref to compare the working tree against */
+	base: string;
+	/** Script to run in every affected workspace */
+	run?: string;
+}
+
+export interface RunOptions extends MonorepoCommandOptions {
+	/** Maximum number of scripts running at once */
+	concurrency?: number;
+	/** Keep going after a failure, skipping only the workspaces depending on it */
+	continueOnError?: boolean;
+	/** Reuse results of unchanged workspaces from the local task cache */
+	cache?: boolean;
+	/** Environment variables included in the cache key */
+	env?: string[];
+}
+
+export interface DoctorOptions extends MonorepoCommandOptions {
+	/** Repair the problems that can be fixed automatically */
+	fix?: boolean;
+	dryRun?: boolean;
 }
 
-export interface FileReplacements {
-	[placeholder: string]: string;
+export interface RemoveOptions extends MonorepoCommandOptions {
+	dryRun?: boolean;
+	/** Skip the confirmation prompt */
+	yes?: boolean;
+}
+
+/**
+ * A package of the monorepo as seen by the template files of an app
+ */
+export interface TemplateContextPackage {
+	name: string;
+	packageName: string;
+	template: string;
+	/** Folder of the package relative to the app ("../../packages/ui") */
+	path: string;
+	/** Whether the app depends on it */
+	linked: boolean;
+}
+
+/**
+ * Values template files (*.hbs) are rendered with
+ */
+export interface TemplateContext {
+	/** Workspace name ("web") */
+	name: string;
+	/** npm package name of the workspace ("@acme/web") */
+	packageName: string;
+	/** npm scope without the "@" */
+	scope: string;
+	/** Name of the monorepo folder */
+	projectName: string;
+	/** Dev server port from the template manifest */
+	port?: number;
+	/** Configured ORM, with a flag per ORM for {{#if orm.drizzle}} */
+	orm: {
+		type?: OrmType;
+		database?: DatabaseType;
+		drizzle: boolean;
+		prisma: boolean;
+	};
+	/** Packages of the monorepo (empty when rendering a package); linked ones are dependencies of the workspace */
+	packages: TemplateContextPackage[];
+	/** First linked package of each template, by camelCased template name, for {{#if linkedTemplates.uiNative}} */
+	linkedTemplates: Record<string, TemplateContextPackage>;
+	/** Answers to the template's questions; skipped questions have none */
+	answers: TemplateAnswers;
 }
@@ -0,0 +1,147 @@
+import { join } from "node:path";
+import chalk from "chalk";
+import { previewChanges } from "./lib/dry-run";
+import {
+	GENERATED_OUTPUT_IGNORE,
+	getCliVersion,
+	MANIFEST_FILE,
+	type MonorepoManifest,
+	readManifest,
+	readWorkspaceBase,
+	type WorkspaceRecord,
+	writeManifest,
+	writeWorkspaceBase,
+} from "./lib/manifest";
+import { resolveTemplateSource } from "./lib/template-sources";
+import { runTransaction } from "./lib/transaction";
+import {
+	applyFileResults,
+	type FileAction,
+	type FileResult,
+	generateWorkspace,
+	mergeWorkspace,
+} from "./lib/workspace-merge";
+import { findMonorepoRoot } from "./lib/workspaces";
+import { getTemplateInfo } from "./templates";
+import type { UpgradeOptions } from "./types";
+import { readDirectoryFiles } from "./utils/file";
+
+interface WorkspaceUpgrade {
+	record: WorkspaceRecord;
+	files: FileResult[];
+	/** Freshly generated output, stored as the new base */
+	generated: Map<string, Buffer>;
+}
+
+const ACTION_MARKERS: Record<FileAction, string> = {
+	updated: chalk.green("~"),
+	added: chalk.green("+"),
+	removed: chalk.red("-"),
+	merged: chalk.cyan("≈"),
+	conflict: chalk.red("✗"),
+	kept: chalk.yellow("!"),
+};
+
+export async function upgrade(workspaceName?: string, options: UpgradeOptions = {}): Promise<void> {
+	console.log(chalk.blue("⬆️  Upgrade Workspaces"));
+	console.log(chalk.gray("Re-sync generated workspaces with the templates of this CLI version\n"));
+
+	const rootPath = await findMonorepoRoot(options.cwd);
+	const manifest = await readManifest(rootPath);
+	if (!manifest) {
+		throw new Error(`No ${MANIFEST_FILE} found in ${rootPath}. Run upgrade inside a generated monorepo.`);
+	}
+
+	const records = selectWorkspaces(manifest, workspaceName);
+	const upgrades: WorkspaceUpgrade[] = [];
+
+	for (const record of records) {
+		const base = await readWorkspaceBase(rootPath, record.path);
+		if (!base) {
+			console.log(chalk.yellow(`⚠️  Skipping ${record.path}: no pristine base stored for it`));
+			continue;
+		}
+
+		// Git and tarball sources are fetched again, so a moved branch or tag brings its new revision
+		await resolveTemplateSource(record.template, record.type === "app" ? "apps" : "packages");
+		const generated = await generateWorkspace(rootPath, manifest, record);
+		const current = await readDirectoryFiles(join(rootPath, record.path), GENERATED_OUTPUT_IGNORE);
+		const files = mergeWorkspace(base, current, generated, {
+			base: `template ${record.cliVersion}`,
+			theirs: `template ${getCliVersion()}`,
+		});
+		upgrades.push({ record, files, generated });
+	}
+
+	const apply = () => applyUpgrades(rootPath, manifest, upgrades);
+	if (options.dryRun) await previewChanges(apply, rootPath);
+	else await runTransaction(apply, rootPath);
+
+	printSummary(upgrades, options.dryRun);
+}
+
+/**
+ * Workspaces to upgrade: the one named (by name or path), or every workspace with a known template
+ */
+function selectWorkspaces(manifest: MonorepoManifest, workspaceName?: string): WorkspaceRecord[] {
+	if (workspaceName) {
+		const matches = manifest.workspaces.filter(
+			(workspace) => workspace.name === workspaceName || workspace.path === workspaceName,
+		);
+		if (matches.length === 0) throw new Error(`Workspace '${workspaceName}' is not recorded in ${MANIFEST_FILE}`);
+		if (matches.length > 1) {
+			throw new Error(
+				`Workspace name '${workspaceName}' is ambiguous: ${matches.map((match) => match.path).join(", ")}`,
+			);
+		}
+		const [match] = matches as [WorkspaceRecord];
+		if (match.template === "unknown") throw new Error(`Template of ${match.path} is unknown, it cannot be upgraded`);
+		return [match];
+	}
+
+	const unknown = manifest.workspaces.filter((workspace) => workspace.template === "unknown");
+	for (const workspace of unknown) {
+		console.log(chalk.yellow(`⚠️  Skipping ${workspace.path}: its template is unknown`));
+	}
+	return manifest.workspaces.filter((workspace) => workspace.template !== "unknown");
+}
+
+async function applyUpgrades(rootPath: string, manifest: MonorepoManifest, upgrades: WorkspaceUpgrade[]) {
+	for (const { record, files, generated } of upgrades) {
+		await applyFileResults(join(rootPath, record.path), files);
+		await writeWorkspaceBase(rootPath, record.path, generated);
+		record.cliVersion = getCliVersion();
+		record.revision = getTemplateInfo(record.template)?.revision;
+	}
+
+	if (upgrades.length > 0) await writeManifest(rootPath, manifest);
+}
+
+function printSummary(upgrades: WorkspaceUpgrade[], dryRun = false): void {
+	const counts = new Map<FileAction, number>();
+
+	for (const { record, files } of upgrades) {
+		console.log(chalk.bold(`\n📦 ${record.path} (${record.template})`));
+		if (files.length === 0) console.log(chalk.gray("  already up to date"));
+
+		for (const file of files) {
+			counts.set(file.action, (counts.get(file.action) ?? 0) + 1);
+			const note = file.note ? chalk.gray(` - ${file.note}`) : "";
+			console.log(`  ${ACTION_MARKERS[file.action]} ${file.path} ${chalk.gray(`(${file.action})`)}${note}`);
+		}
+	}
+
+	const summary = (["updated", "added", "removed", "merged", "conflict", "kept"] as const)
+		.map((action) => `${counts.get(action) ?? 0} ${action}`)
+		.join(", ");
+	console.log(chalk.gray(`\n${summary}`));
+
+	if (dryRun) return;
+	if (counts.get("conflict")) {
+		console.log(
+			chalk.yellow("\n⚠️  Resolve the conflict markers (<<<<<<< current ... >>>>>>> template) before building."),
+		);
+	} else if (upgrades.length > 0) {
+		console.log(chalk.green("\n✅ Upgrade complete"));
+	}
+}
@@ -0,0 +1,263 @@
+/**
+ * Line-based diffing utilities
+ */
+
+export type DiffOperation = { type: "equal" | "delete" | "insert"; line: string };
+
+const LINE_SPLIT_REGEX = /\r?\n/;
+
+/**
+ * Split text into lines, ignoring the empty entry produced by a trailing newline
+ */
+export function splitLines(text: string): string[] {
+	if (text === "") return [];
+	const lines = text.split(LINE_SPLIT_REGEX);
+	if (lines[lines.length - 1] === "") lines.pop();
+	return lines;
+}
+
+/**
+ * Compute the line operations turning `a` into `b` (longest common subsequence)
+ */
+export function diffLines(a: string[], b: string[]): DiffOperation[] {
+	// Common prefix and suffix never need the LCS table
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	)
+		suffix++;
+
+	const middleA = a.slice(prefix, a.length - suffix);
+	const middleB = b.slice(prefix, b.length - suffix);
+	const rows = middleA.length;
+	const columns = middleB.length;
+
+	// lengths[i * (columns + 1) + j] = LCS length of middleA[i:] and middleB[j:]
+	const lengths = new Uint32Array((rows + 1) * (columns + 1));
+	for (let i = rows - 1; i >= 0; i--) {
+		for (let j = columns - 1; j >= 0; j--) {
+			lengths[i * (columns + 1) + j] =
+				middleA[i] === middleB[j]
+					? (lengths[(i + 1) * (columns + 1) + j + 1] ?? 0) + 1
+					: Math.max(lengths[(i + 1) * (columns + 1) + j] ?? 0, lengths[i * (columns + 1) + j + 1] ?? 0);
+		}
+	}
+
+	const operations: DiffOperation[] = a.slice(0, prefix).map((line) => ({ type: "equal", line }));
+
+	let i = 0;
+	let j = 0;
+	while (i < rows && j < columns) {
+		if (middleA[i] === middleB[j]) {
+			operations.push({ type: "equal", line: middleA[i++] as string });
+			j++;
+		} else if ((lengths[(i + 1) * (columns + 1) + j] ?? 0) >= (lengths[i * (columns + 1) + j + 1] ?? 0)) {
+			operations.push({ type: "delete", line: middleA[i++] as string });
+		} else {
+			operations.push({ type: "insert", line: middleB[j++] as string });
+		}
+	}
+	while (i < rows) operations.push({ type: "delete", line: middleA[i++] as string });
+	while (j < columns) operations.push({ type: "insert", line: middleB[j++] as string });
+
+	operations.push(...a.slice(a.length - suffix).map((line): DiffOperation => ({ type: "equal", line })));
+	return operations;
+}
+
+/**
+ * Create a unified diff between two texts (empty string when they are identical)
+ */
+export function createUnifiedDiff(
+	oldText: string,
+	newText: string,
+	oldLabel = "a",
+	newLabel = "b",
+	context = 3,
+): string {
+	const operations = diffLines(splitLines(oldText), splitLines(newText));
+	if (operations.every((operation) => operation.type === "equal")) return "";
+
+	const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+	// Indices of changed operations, grouped into hunks when their context overlaps
+	const changed = operations.flatMap((operation, index) => (operation.type === "equal" ? [] : [index]));
+	const hunks: Array<[number, number]> = [];
+	for (const index of changed) {
+		const last = hunks[hunks.length - 1];
+		if (last && index - last[1] <= context * 2) last[1] = index;
+		else hunks.push([index, index]);
+	}
+
+	for (const [first, last] of hunks) {
+		const start = Math.max(0, first - context);
+		const end = Math.min(operations.length - 1, last + context);
+
+		// Line numbers at the start of the hunk
+		let oldStart = 1;
+		let newStart = 1;
+		for (const operation of operations.slice(0, start)) {
+			if (operation.type !== "insert") oldStart++;
+			if (operation.type !== "delete") newStart++;
+		}
+
+		const hunk = operations.slice(start, end + 1);
+		const oldCount = hunk.filter((operation) => operation.type !== "insert").length;
+		const newCount = hunk.filter((operation) => operation.type !== "delete").length;
+
+		lines.push(
+			`@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`,
+		);
+		for (const operation of hunk) {
+			const marker = operation.type === "equal" ? " " : operation.type === "delete" ? "-" : "+";
+			lines.push(`${marker}${operation.line}`);
+		}
+	}
+
+	return `${lines.join("\n")}\n`;
+}
+
+/** A changed region of the base: base lines [baseStart, baseEnd) are replaced by `lines` */
+interface DiffHunk {
+	baseStart: number;
+	baseEnd: number;
+	lines: string[];
+}
+
+export interface MergeLabels {
+	ours: string;
+	base: string;
+	theirs: string;
+}
+
+export interface MergeResult {
+	text: string;
+	conflicts: number;
+}
+
+/**
+ * Group line operations into hunks positioned on the base text
+ */
+function toHunks(operations: DiffOperation[]): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+	let current: DiffHunk | undefined;
+	let baseIndex = 0;
+
+	for (const operation of operations) {
+		if (operation.type === "equal") {
+			if (current) hunks.push(current);
+			current = undefined;
+			baseIndex++;
+			continue;
+		}
+
+		current ??= { baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+		if (operation.type === "delete") {
+			current.baseEnd++;
+			baseIndex++;
+		} else {
+			current.lines.push(operation.line);
+		}
+	}
+	if (current) hunks.push(current);
+
+	return hunks;
+}
+
+/**
+ * Apply the hunks of one side to the base lines [start, end)
+ */
+function applyHunks(base: string[], hunks: DiffHunk[], start: number, end: number): string[] {
+	const lines: string[] = [];
+	let position = start;
+	for (const hunk of hunks) {
+		lines.push(...base.slice(position, hunk.baseStart), ...hunk.lines);
+		position = hunk.baseEnd;
+	}
+	lines.push(...base.slice(position, end));
+	return lines;
+}
+
+/**
+ * Three-way merge of two texts derived from a common base (diff3).
+ * Changes made on only one side are applied; overlapping changes that differ are written with conflict markers.
+ */
+export function mergeThreeWay(
+	baseText: string,
+	oursText: string,
+	theirsText: string,
+	labels: MergeLabels = { ours: "ours", base: "base", theirs: "theirs" },
+): MergeResult {
+	const base = splitLines(baseText);
+	const oursHunks = toHunks(diffLines(base, splitLines(oursText)));
+	const theirsHunks = toHunks(diffLines(base, splitLines(theirsText)));
+
+	const lines: string[] = [];
+	let conflicts = 0;
+	let basePosition = 0;
+	let oursIndex = 0;
+	let theirsIndex = 0;
+
+	while (oursIndex < oursHunks.length || theirsIndex < theirsHunks.length) {
+		const nextOurs = oursHunks[oursIndex];
+		const nextTheirs = theirsHunks[theirsIndex];
+		const first = !nextTheirs || (nextOurs && nextOurs.baseStart <= nextTheirs.baseStart) ? nextOurs : nextTheirs;
+		if (!first) break;
+
+		// Grow the region until no hunk from either side touches it
+		const start = first.baseStart;
+		let end = first.baseEnd;
+		const groupOurs: DiffHunk[] = [];
+		const groupTheirs: DiffHunk[] = [];
+		let grew = true;
+		while (grew) {
+			grew = false;
+			const oursHunk = oursHunks[oursIndex];
+			if (oursHunk && oursHunk.baseStart <= end) {
+				groupOurs.push(oursHunk);
+				end = Math.max(end, oursHunk.baseEnd);
+				oursIndex++;
+				grew = true;
+			}
+			const theirsHunk = theirsHunks[theirsIndex];
+			if (theirsHunk && theirsHunk.baseStart <= end) {
+				groupTheirs.push(theirsHunk);
+				end = Math.max(end, theirsHunk.baseEnd);
+				theirsIndex++;
+				grew = true;
+			}
+		}
+
+		lines.push(...base.slice(basePosition, start));
+		basePosition = end;
+
+		const ours = applyHunks(base, groupOurs, start, end);
+		const theirs = applyHunks(base, groupTheirs, start, end);
+
+		if (groupTheirs.length === 0 || ours.join("\n") === theirs.join("\n")) {
+			lines.push(...ours);
+		} else if (groupOurs.length === 0) {
+			lines.push(...theirs);
+		} else {
+			conflicts++;
+			lines.push(
+				`<<<<<<< ${labels.ours}`,
+				...ours,
+				`||||||| ${labels.base}`,
+				...base.slice(start, end),
+				"=======",
+				...theirs,
+				`>>>>>>> ${labels.theirs}`,
+			);
+		}
+	}
+
+	lines.push(...base.slice(basePosition));
+
+	const text = lines.length > 0 ? `${lines.join("\n")}\n` : "";
+	return { text, conflicts };
+}
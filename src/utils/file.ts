@@ -2,9 +2,10 @@
  * File system utilities for the scaffolder
  */
 
-import { readdir, readFile, stat, writeFile } from "node:fs/promises";
-import { join } from "node:path";
-import type { FileReplacements } from "../types";
+import { basename, dirname, join, sep } from "node:path";
+import { cp, mkdir, pathExists, readdir, readFile, rm, stat, writeFile } from "./fs";
+import { patchJson } from "./jsonc";
+import { evaluateCondition, renderPath, renderTemplate } from "./template";
 
 /**
  * Stringify JSON with consistent formatting (tabs, compact arrays, double quotes, and trailing newline)
@@ -45,61 +46,134 @@ export async function writeJsonFile(path: string, obj: unknown): Promise<void> {
 }
 
 /**
- * Process template replacements in files recursively
+ * Update a JSON file in place, keeping its comments and formatting and touching only the values that changed
  */
-export async function processTemplateReplacements(targetPath: string, replacements: FileReplacements): Promise<void> {
-	const processDirectory = async (dirPath: string): Promise<void> => {
-		const entries = await readdir(dirPath);
-
-		for (const entry of entries) {
-			const fullPath = join(dirPath, entry);
-			const stats = await stat(fullPath);
-
-			if (stats.isDirectory()) {
-				await processDirectory(fullPath);
-			} else if (stats.isFile()) {
-				await processTemplateFile(fullPath, replacements);
-			}
+export async function patchJsonFile(path: string, obj: unknown): Promise<void> {
+	if (!(await pathExists(path))) {
+		await writeJsonFile(path, obj);
+		return;
+	}
+	try {
+		const content = await readFile(path, "utf-8");
+		const patched = patchJson(content, obj);
+		if (patched !== content) await writeFile(path, patched, { encoding: "utf-8" });
+	} catch (error) {
+		throw new Error(`Failed to update JSON file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * Read every file below a directory, keyed by path relative to it; entries named in `ignore` are skipped
+ */
+export async function readDirectoryFiles(directory: string, ignore: string[] = []): Promise<Map<string, Buffer>> {
+	const files = new Map<string, Buffer>();
+
+	const readDirectory = async (relativePath: string): Promise<void> => {
+		for (const entry of await readdir(join(directory, relativePath))) {
+			if (ignore.includes(entry)) continue;
+
+			const entryPath = join(relativePath, entry);
+			const stats = await stat(join(directory, entryPath));
+			if (stats.isDirectory()) await readDirectory(entryPath);
+			else if (stats.isFile()) files.set(entryPath, await readFile(join(directory, entryPath)));
 		}
 	};
 
-	await processDirectory(targetPath);
+	await readDirectory("");
+	return files;
 }
 
 /**
- * Process a single template file for replacements
+ * Move a directory; entries named in `ignore` (such as node_modules) are not carried over
  */
-async function processTemplateFile(filePath: string, replacements: FileReplacements): Promise<void> {
-	// Only process text files that might contain templates
-	const ext = filePath.split(".").pop()?.toLowerCase();
-	const textExtensions = ["json", "js", "ts", "tsx", "jsx", "md", "txt", "yml", "yaml", "xml", "html", "css", "scss"];
+export async function moveDirectory(source: string, destination: string, ignore: string[] = []): Promise<void> {
+	await cp(source, destination, { recursive: true, filter: (path) => !ignore.includes(basename(path)) });
+	await rm(source);
+}
 
-	if (!ext || !textExtensions.includes(ext)) {
-		return;
+/** Suffix of template files rendered with the template language, dropped from the generated file */
+export const TEMPLATE_FILE_SUFFIX = ".hbs";
+
+/** Dotfiles stored under another name in templates, since npm leaves them out of (or renames them in) the package */
+const DOTFILE_NAMES: Record<string, string> = {
+	_gitignore: ".gitignore",
+	_npmignore: ".npmignore",
+	_npmrc: ".npmrc",
+};
+
+export interface TemplateFileOptions {
+	/** Folder whose *.hbs files are the partials, included by their name */
+	partialsPath?: string;
+	/** Files and folders (paths in the template) removed unless their condition holds */
+	conditions?: Record<string, string>;
+	/** Files copied from the template (relative paths), the only ones rendered; defaults to every file in the target */
+	files?: string[];
+}
+
+/**
+ * Path of a template file in the workspace: {{variable}} parts resolved, the .hbs suffix dropped and dotfiles renamed
+ */
+function getOutputPath(path: string, context: object): string {
+	const rendered = renderPath(path, context);
+	const outputPath = rendered.endsWith(TEMPLATE_FILE_SUFFIX)
+		? rendered.slice(0, -TEMPLATE_FILE_SUFFIX.length)
+		: rendered;
+	const name = basename(outputPath);
+	return DOTFILE_NAMES[name] ? join(dirname(outputPath), DOTFILE_NAMES[name]) : outputPath;
+}
+
+/**
+ * Turn the files copied from a template into workspace files: drop the files whose condition does not hold, render the
+ * template files (*.hbs) against the context and resolve their paths
+ */
+export async function renderTemplateFiles(
+	targetPath: string,
+	context: object,
+	{ partialsPath, conditions = {}, files }: TemplateFileOptions = {},
+): Promise<void> {
+	for (const [path, condition] of Object.entries(conditions)) {
+		const conditionPath = join(targetPath, path);
+		if (!evaluateCondition(condition, context) && (await pathExists(conditionPath))) await rm(conditionPath);
 	}
 
-	try {
-		let content = await readFile(filePath, "utf-8");
-		let hasReplacements = false;
-
-		// Apply all replacements
-		for (const [placeholder, value] of Object.entries(replacements)) {
-			const regex = new RegExp(`\\{\\{${placeholder}\\}\\}`, "g");
-			if (content.includes(`{{${placeholder}}}`)) {
-				content = content.replace(regex, value);
-				hasReplacements = true;
-			}
+	const partials: Record<string, string> = {};
+	if (partialsPath && (await pathExists(partialsPath))) {
+		for (const entry of await readdir(partialsPath)) {
+			if (!entry.endsWith(TEMPLATE_FILE_SUFFIX)) continue;
+			partials[entry.slice(0, -TEMPLATE_FILE_SUFFIX.length)] = await readFile(join(partialsPath, entry), "utf-8");
 		}
+	}
+
+	// Folders renamed by {{variable}} parts, removed once their files have moved
+	const renamedDirectories = new Set<string>();
+
+	const templateFiles = files ?? [...(await readDirectoryFiles(targetPath)).keys()];
+
+	for (const path of templateFiles) {
+		// Removed by its condition
+		if (!(await pathExists(join(targetPath, path)))) continue;
 
-		// Write back only if replacements were made
-		if (hasReplacements) {
-			// Ensure UTF-8 encoding and preserve tabs/whitespace
-			await writeFile(filePath, content, { encoding: "utf-8" });
+		let outputPath: string;
+		let output: string | Buffer = await readFile(join(targetPath, path));
+		try {
+			outputPath = getOutputPath(path, context);
+			if (outputPath === path) continue;
+			if (path.endsWith(TEMPLATE_FILE_SUFFIX)) output = renderTemplate(output.toString("utf-8"), context, partials);
+		} catch (error) {
+			throw new Error(`Could not render ${path}: ${error instanceof Error ? error.message : String(error)}`);
 		}
-	} catch (error) {
-		// Log error but don't fail the entire process
-		console.warn(
-			`Warning: Could not process template file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
-		);
+
+		await mkdir(dirname(join(targetPath, outputPath)));
+		await writeFile(join(targetPath, outputPath), output);
+		await rm(join(targetPath, path));
+
+		const segments = path.split(sep);
+		const renamed = dirname(outputPath)
+			.split(sep)
+			.findIndex((segment, index) => segment !== segments[index]);
+		if (renamed !== -1 && renamed < segments.length - 1)
+			renamedDirectories.add(segments.slice(0, renamed + 1).join(sep));
 	}
+
+	for (const directory of renamedDirectories) await rm(join(targetPath, directory));
 }
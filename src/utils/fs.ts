@@ -0,0 +1,283 @@
+/**
+ * File system access for the scaffolder
+ *
+ * Every read and write made while scaffolding goes through the active backend, so an
+ * operation can be redirected to memory (dry-run) without changing the code performing it.
+ */
+
+import * as nodeFs from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+
+export interface FileStats {
+	isFile(): boolean;
+	isDirectory(): boolean;
+	size: number;
+}
+
+export interface FileSystemBackend {
+	readFile(path: string): Promise<Buffer>;
+	writeFile(path: string, data: string | Uint8Array): Promise<void>;
+	/** Create a directory and any missing parents */
+	mkdir(path: string): Promise<void>;
+	readdir(path: string): Promise<string[]>;
+	stat(path: string): Promise<FileStats>;
+	/** Remove a file or directory recursively; missing paths are ignored */
+	rm(path: string): Promise<void>;
+}
+
+export type FileChangeType = "created" | "modified" | "deleted";
+
+export interface FileChange {
+	path: string;
+	type: FileChangeType;
+	before?: Buffer;
+	after?: Buffer;
+}
+
+const diskFileSystem: FileSystemBackend = {
+	readFile: (path) => nodeFs.readFile(path),
+	writeFile: (path, data) => nodeFs.writeFile(path, data),
+	mkdir: async (path) => {
+		await nodeFs.mkdir(path, { recursive: true });
+	},
+	readdir: (path) => nodeFs.readdir(path),
+	stat: (path) => nodeFs.stat(path),
+	rm: (path) => nodeFs.rm(path, { recursive: true, force: true }),
+};
+
+function notFoundError(operation: string, path: string): Error {
+	return Object.assign(new Error(`ENOENT: no such file or directory, ${operation} '${path}'`), { code: "ENOENT" });
+}
+
+/**
+ * In-memory overlay over another backend.
+ * Writes stay in memory while reads fall through to the underlying backend for untouched paths.
+ */
+export class MemoryFileSystem implements FileSystemBackend {
+	private readonly files = new Map<string, Buffer>();
+	private readonly directories = new Set<string>();
+	private readonly removed = new Set<string>();
+
+	constructor(private readonly base: FileSystemBackend = diskFileSystem) {}
+
+	readFile(path: string): Promise<Buffer> {
+		const key = resolve(path);
+		const content = this.files.get(key);
+		if (content) return Promise.resolve(content);
+		if (this.isRemoved(key)) return Promise.reject(notFoundError("open", path));
+		return this.base.readFile(key);
+	}
+
+	async writeFile(path: string, data: string | Uint8Array): Promise<void> {
+		const key = resolve(path);
+		const parent = await this.stat(dirname(key)).catch(() => null);
+		if (!parent?.isDirectory()) throw notFoundError("open", path);
+
+		this.files.set(key, Buffer.from(data));
+		this.removed.delete(key);
+	}
+
+	async mkdir(path: string): Promise<void> {
+		let current = resolve(path);
+		// Directories recreated inside a removed path start out empty
+		while (!(await this.exists(current))) {
+			this.directories.add(current);
+			current = dirname(current);
+		}
+	}
+
+	async readdir(path: string): Promise<string[]> {
+		const key = resolve(path);
+		const entries = new Set<string>();
+
+		if (!this.isRemoved(key)) {
+			const baseEntries = await this.base.readdir(key).catch(() => null);
+			for (const entry of baseEntries ?? []) {
+				if (!this.isRemoved(join(key, entry))) entries.add(entry);
+			}
+		}
+
+		for (const entryPath of [...this.files.keys(), ...this.directories]) {
+			if (dirname(entryPath) === key) entries.add(entryPath.slice(key.length + 1));
+		}
+
+		if (entries.size === 0 && !(await this.stat(key).catch(() => null))?.isDirectory()) {
+			throw notFoundError("scandir", path);
+		}
+
+		return [...entries].sort();
+	}
+
+	stat(path: string): Promise<FileStats> {
+		const key = resolve(path);
+		const content = this.files.get(key);
+
+		if (content) return Promise.resolve({ isFile: () => true, isDirectory: () => false, size: content.length });
+		if (this.directories.has(key)) return Promise.resolve({ isFile: () => false, isDirectory: () => true, size: 0 });
+		if (this.isRemoved(key)) return Promise.reject(notFoundError("stat", path));
+		return this.base.stat(key);
+	}
+
+	async rm(path: string): Promise<void> {
+		const key = resolve(path);
+		const isInside = (entryPath: string) => entryPath === key || entryPath.startsWith(`${key}${sep}`);
+
+		for (const filePath of [...this.files.keys()]) if (isInside(filePath)) this.files.delete(filePath);
+		for (const directoryPath of [...this.directories])
+			if (isInside(directoryPath)) this.directories.delete(directoryPath);
+
+		if (await this.base.stat(key).catch(() => null)) this.removed.add(key);
+	}
+
+	/**
+	 * List every file written, whether or not its content differs from the underlying backend
+	 */
+	getWrittenFiles(): string[] {
+		return [...this.files.keys()].sort();
+	}
+
+	/**
+	 * List every file that differs from the underlying backend
+	 */
+	async getChanges(): Promise<FileChange[]> {
+		const changes: FileChange[] = [];
+
+		for (const [path, after] of this.files) {
+			const before = await this.base.readFile(path).catch(() => undefined);
+			if (!before) changes.push({ path, type: "created", after });
+			else if (!before.equals(after)) changes.push({ path, type: "modified", before, after });
+		}
+
+		for (const removedPath of this.removed) {
+			for (const path of await listFiles(this.base, removedPath)) {
+				if (this.files.has(path)) continue;
+				changes.push({ path, type: "deleted", before: await this.base.readFile(path) });
+			}
+		}
+
+		return changes.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	private async exists(path: string): Promise<boolean> {
+		return (await this.stat(path).catch(() => null)) !== null;
+	}
+
+	private isRemoved(path: string): boolean {
+		for (const removedPath of this.removed) {
+			if (path === removedPath || !relative(removedPath, path).startsWith("..")) return true;
+		}
+		return false;
+	}
+}
+
+/**
+ * Recursively list files below a path (or the path itself if it is a file)
+ */
+async function listFiles(backend: FileSystemBackend, path: string): Promise<string[]> {
+	const stats = await backend.stat(path).catch(() => null);
+	if (!stats) return [];
+	if (stats.isFile()) return [path];
+
+	const files: string[] = [];
+	for (const entry of await backend.readdir(path)) {
+		// Installed dependencies are summarized by their directory rather than listed file by file
+		if (entry === "node_modules") continue;
+		files.push(...(await listFiles(backend, join(path, entry))));
+	}
+	return files;
+}
+
+let activeFileSystem: FileSystemBackend = diskFileSystem;
+
+/**
+ * Get the backend currently used for file operations
+ */
+export function getFileSystem(): FileSystemBackend {
+	return activeFileSystem;
+}
+
+/**
+ * Run an operation with every file operation routed to the given backend
+ */
+export async function runWithFileSystem<T>(backend: FileSystemBackend, operation: () => Promise<T>): Promise<T> {
+	const previous = activeFileSystem;
+	activeFileSystem = backend;
+	try {
+		return await operation();
+	} finally {
+		activeFileSystem = previous;
+	}
+}
+
+export function readFile(path: string): Promise<Buffer>;
+export function readFile(path: string, encoding: BufferEncoding): Promise<string>;
+export async function readFile(path: string, encoding?: BufferEncoding): Promise<Buffer | string> {
+	const content = await activeFileSystem.readFile(path);
+	return encoding ? content.toString(encoding) : content;
+}
+
+/**
+ * Write a file (content is always written as UTF-8 when given as a string)
+ */
+export function writeFile(path: string, data: string | Uint8Array, _options?: unknown): Promise<void> {
+	return activeFileSystem.writeFile(path, data);
+}
+
+/**
+ * Create a directory, including missing parents
+ */
+export function mkdir(path: string, _options?: { recursive?: boolean }): Promise<void> {
+	return activeFileSystem.mkdir(path);
+}
+
+export function readdir(path: string): Promise<string[]> {
+	return activeFileSystem.readdir(path);
+}
+
+export function stat(path: string): Promise<FileStats> {
+	return activeFileSystem.stat(path);
+}
+
+/**
+ * Check that a path exists, throwing otherwise
+ */
+export async function access(path: string): Promise<void> {
+	await activeFileSystem.stat(path);
+}
+
+export async function pathExists(path: string): Promise<boolean> {
+	try {
+		await activeFileSystem.stat(path);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+export function rm(path: string): Promise<void> {
+	return activeFileSystem.rm(path);
+}
+
+/**
+ * Recursively copy a file or directory
+ */
+export async function cp(
+	source: string,
+	destination: string,
+	options: { recursive?: boolean; filter?: (source: string) => boolean } = {},
+): Promise<void> {
+	if (options.filter && !options.filter(source)) return;
+
+	const stats = await activeFileSystem.stat(source);
+
+	if (stats.isDirectory()) {
+		await activeFileSystem.mkdir(destination);
+		for (const entry of await activeFileSystem.readdir(source)) {
+			await cp(join(source, entry), join(destination, entry), options);
+		}
+		return;
+	}
+
+	await activeFileSystem.mkdir(dirname(destination));
+	await activeFileSystem.writeFile(destination, await activeFileSystem.readFile(source));
+}
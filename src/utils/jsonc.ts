@@ -0,0 +1,460 @@
+/**
+ * Minimal-edit JSON / JSONC editing
+ *
+ * Values are inserted, updated or removed at a path by splicing the document text, so comments, key order and
+ * the formatting of everything that did not change survive the edit.
+ */
+
+export type JsonPath = Array<string | number>;
+
+interface JsonNode {
+	type: "object" | "array" | "string" | "number" | "boolean" | "null";
+	offset: number;
+	length: number;
+	/** Object members or array items, in document order */
+	children: JsonMember[];
+}
+
+interface JsonMember {
+	/** Property name, or the item index in arrays */
+	key: string | number;
+	/** Start of the member (the property name in objects) */
+	offset: number;
+	/** Length of the quoted property name, 0 in arrays */
+	keyLength: number;
+	value: JsonNode;
+}
+
+/** Change to apply at a path: a new value (undefined removes it), or a new name for the property there */
+type JsonEdit = { path: JsonPath; value: unknown } | { path: JsonPath; renameTo: string };
+
+/** Spacing inside the braces and brackets of values written on one line ("{ "a": 1 }", "[1, 2]") */
+interface InlinePadding {
+	object: string;
+	array: string;
+}
+
+const LITERAL_REGEX = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+const WHITESPACE_REGEX = /\s/;
+const INDENTATION_REGEX = /^[ \t]*/;
+const LEADING_INDENTATION_REGEX = /\n([ \t]+)\S/;
+
+/**
+ * Parse a JSON document with comments and trailing commas into a tree with text offsets
+ */
+function parseTree(text: string): JsonNode {
+	let position = 0;
+
+	const fail = (message: string): never => {
+		throw new Error(`Invalid JSON at offset ${position}: ${message}`);
+	};
+
+	const skipTrivia = () => {
+		while (position < text.length) {
+			const character = text[position] as string;
+			if (WHITESPACE_REGEX.test(character)) {
+				position++;
+			} else if (text.startsWith("//", position)) {
+				const end = text.indexOf("\n", position);
+				position = end === -1 ? text.length : end + 1;
+			} else if (text.startsWith("/*", position)) {
+				const end = text.indexOf("*/", position + 2);
+				if (end === -1) fail("unterminated comment");
+				position = end + 2;
+			} else {
+				return;
+			}
+		}
+	};
+
+	const scanString = (): string => {
+		const start = position;
+		position++;
+		while (position < text.length && text[position] !== '"') {
+			position += text[position] === "\\" ? 2 : 1;
+		}
+		if (position >= text.length) fail("unterminated string");
+		position++;
+		return JSON.parse(text.slice(start, position));
+	};
+
+	const parseValue = (): JsonNode => {
+		skipTrivia();
+		const offset = position;
+		const character = text[position];
+
+		if (character === "{" || character === "[") {
+			const isObject = character === "{";
+			const closing = isObject ? "}" : "]";
+			const children: JsonMember[] = [];
+			position++;
+
+			for (;;) {
+				skipTrivia();
+				if (text[position] === closing) break;
+
+				const memberOffset = position;
+				let key: string | number = children.length;
+				if (isObject) {
+					if (text[position] !== '"') fail("expected a property name");
+					key = scanString();
+				}
+				const keyLength = isObject ? position - memberOffset : 0;
+				if (isObject) {
+					skipTrivia();
+					if (text[position] !== ":") fail("expected ':'");
+					position++;
+				}
+				children.push({ key, offset: memberOffset, keyLength, value: parseValue() });
+
+				skipTrivia();
+				if (text[position] === ",") position++;
+				else if (text[position] !== closing) fail(`expected ',' or '${closing}'`);
+			}
+
+			position++;
+			return { type: isObject ? "object" : "array", offset, length: position - offset, children };
+		}
+
+		if (character === '"') {
+			scanString();
+			return { type: "string", offset, length: position - offset, children: [] };
+		}
+
+		LITERAL_REGEX.lastIndex = position;
+		const literal = LITERAL_REGEX.exec(text)?.[0];
+		if (!literal) return fail("unexpected character");
+		position += literal.length;
+
+		let type: JsonNode["type"] = "number";
+		if (literal === "null") type = "null";
+		else if (literal === "true" || literal === "false") type = "boolean";
+		return { type, offset, length: literal.length, children: [] };
+	};
+
+	const root = parseValue();
+	skipTrivia();
+	if (position < text.length) fail("unexpected content after the document");
+	return root;
+}
+
+function toValue(text: string, node: JsonNode): unknown {
+	if (node.type === "object") {
+		return Object.fromEntries(node.children.map((member) => [member.key, toValue(text, member.value)]));
+	}
+	if (node.type === "array") return node.children.map((member) => toValue(text, member.value));
+	return JSON.parse(text.slice(node.offset, node.offset + node.length));
+}
+
+/**
+ * Parse JSON allowing comments and trailing commas (as in tsconfig.json)
+ */
+export function parseJsonc<T = unknown>(text: string): T {
+	return toValue(text, parseTree(text)) as T;
+}
+
+const nodeEnd = (node: JsonNode) => node.offset + node.length;
+
+function getLineIndentation(text: string, offset: number): string {
+	const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+	return text.slice(lineStart).match(INDENTATION_REGEX)?.[0] ?? "";
+}
+
+/**
+ * Indentation of the first indented line, defaulting to tabs like the files this CLI writes
+ */
+function detectIndentUnit(text: string): string {
+	const indentation = text.match(LEADING_INDENTATION_REGEX)?.[1];
+	return indentation?.startsWith("\t") ? "\t" : (indentation ?? "\t");
+}
+
+/**
+ * Position of the comma following a value (skipping whitespace and comments), or -1
+ */
+function findCommaAfter(text: string, offset: number): number {
+	let position = offset;
+	while (position < text.length) {
+		if (WHITESPACE_REGEX.test(text[position] as string)) position++;
+		else if (text.startsWith("//", position)) return -1;
+		else if (text.startsWith("/*", position)) position = text.indexOf("*/", position) + 2;
+		else break;
+	}
+	return text[position] === "," ? position : -1;
+}
+
+interface Formatting {
+	unit: string;
+	eol: string;
+}
+
+function formatValue(value: unknown, indentation: string, formatting: Formatting): string {
+	return JSON.stringify(value, null, formatting.unit).split("\n").join(`${formatting.eol}${indentation}`);
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+function formatInlineValue(value: unknown, padding: InlinePadding): string {
+	if (Array.isArray(value)) {
+		if (value.length === 0) return "[]";
+		return `[${padding.array}${value.map((item) => formatInlineValue(item, padding)).join(", ")}${padding.array}]`;
+	}
+	if (isPlainObject(value)) {
+		const members = Object.entries(value).filter(([, member]) => member !== undefined);
+		if (members.length === 0) return "{}";
+		const formatted = members.map(([key, member]) => `${JSON.stringify(key)}: ${formatInlineValue(member, padding)}`);
+		return `{${padding.object}${formatted.join(", ")}${padding.object}}`;
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Padding used by a single-line container and its members, defaulting to "{ "a": 1 }" and "[1, 2]"
+ */
+function detectInlinePadding(text: string, container: JsonNode): InlinePadding {
+	const padding: InlinePadding = { object: " ", array: "" };
+	for (const node of [container, ...container.children.map((member) => member.value)]) {
+		if ((node.type === "object" || node.type === "array") && node.children.length > 0) {
+			padding[node.type] = text[node.offset + 1] === " " ? " " : "";
+		}
+	}
+	return padding;
+}
+
+const formatMember = (key: string | number, value: string) =>
+	typeof key === "string" ? `${JSON.stringify(key)}: ${value}` : value;
+
+/**
+ * Whether the rest of a line holds nothing but a comment, which belongs to the member before it
+ */
+function isBlankOrComment(restOfLine: string): boolean {
+	const rest = restOfLine.trim();
+	return rest === "" || rest.startsWith("//") || (rest.startsWith("/*") && rest.endsWith("*/"));
+}
+
+function insertMember(
+	text: string,
+	container: JsonNode,
+	key: string | number,
+	value: unknown,
+	formatting: Formatting,
+): string {
+	const containerIndentation = getLineIndentation(text, container.offset);
+	const last = container.children.at(-1);
+
+	if (!last) {
+		const indentation = containerIndentation + formatting.unit;
+		const member = formatMember(key, formatValue(value, indentation, formatting));
+		const [open, close] = container.type === "object" ? ["{", "}"] : ["[", "]"];
+		const replacement = `${open}${formatting.eol}${indentation}${member}${formatting.eol}${containerIndentation}${close}`;
+		return text.slice(0, container.offset) + replacement + text.slice(nodeEnd(container));
+	}
+
+	const first = container.children[0] as JsonMember;
+	const isMultiline = text.slice(container.offset, first.offset).includes("\n");
+
+	if (!isMultiline) {
+		const member = formatMember(key, formatInlineValue(value, detectInlinePadding(text, container)));
+		return `${text.slice(0, nodeEnd(last.value))}, ${member}${text.slice(nodeEnd(last.value))}`;
+	}
+
+	const indentation = getLineIndentation(text, last.offset);
+	const member = formatMember(key, formatValue(value, indentation, formatting));
+	const valueEnd = nodeEnd(last.value);
+	const trailingComma = findCommaAfter(text, valueEnd);
+	const afterLast = trailingComma === -1 ? valueEnd : trailingComma + 1;
+
+	// Insert after the rest of the last member's line so a trailing comment stays with it
+	let position = afterLast;
+	const lineEnd = text.indexOf("\n", afterLast);
+	const restOfLine = text.slice(afterLast, lineEnd === -1 ? text.length : lineEnd).trim();
+	if (lineEnd !== -1 && isBlankOrComment(restOfLine)) {
+		position = text[lineEnd - 1] === "\r" ? lineEnd - 1 : lineEnd;
+	}
+
+	const inserted = `${formatting.eol}${indentation}${member}${trailingComma === -1 ? "" : ","}`;
+	if (trailingComma !== -1) return text.slice(0, position) + inserted + text.slice(position);
+	return `${text.slice(0, valueEnd)},${text.slice(valueEnd, position)}${inserted}${text.slice(position)}`;
+}
+
+function removeMember(text: string, container: JsonNode, index: number): string {
+	const member = container.children[index] as JsonMember;
+
+	if (container.children.length === 1) {
+		return `${text.slice(0, container.offset + 1)}${text.slice(nodeEnd(container) - 1)}`;
+	}
+
+	const comma = findCommaAfter(text, nodeEnd(member.value));
+	let start = member.offset;
+	let end = comma === -1 ? nodeEnd(member.value) : comma + 1;
+
+	// Members on their own line take the whole line, and its trailing comment, with them
+	const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+	const lineEnd = text.indexOf("\n", end);
+	const restOfLine = text.slice(end, lineEnd === -1 ? text.length : lineEnd);
+	if (text.slice(lineStart, start).trim() === "" && isBlankOrComment(restOfLine)) {
+		start = lineStart;
+		end = lineEnd === -1 ? text.length : lineEnd + 1;
+	} else {
+		while (text[end] === " ") end++;
+	}
+
+	// Removing the last member leaves a dangling comma after the previous one
+	const previous = container.children[index - 1];
+	const previousComma = comma === -1 && previous ? findCommaAfter(text, nodeEnd(previous.value)) : -1;
+	if (previousComma !== -1) {
+		text = `${text.slice(0, previousComma)}${text.slice(previousComma + 1)}`;
+		start--;
+		end--;
+	}
+
+	return text.slice(0, start) + text.slice(end);
+}
+
+/**
+ * Wrap a value in the objects and arrays needed to place it at a (missing) path
+ */
+function wrapValue(path: JsonPath, value: unknown): unknown {
+	return path.reduceRight<unknown>((wrapped, key) => (typeof key === "number" ? [wrapped] : { [key]: wrapped }), value);
+}
+
+/**
+ * Index of the member at a key; the last one wins for duplicated properties, as in JSON.parse
+ */
+function findMemberIndex(node: JsonNode, key: string | number): number {
+	if (node.type === "array") return typeof key === "number" ? key : -1;
+	for (let index = node.children.length - 1; index >= 0; index--) {
+		if (node.children[index]?.key === key) return index;
+	}
+	return -1;
+}
+
+/**
+ * Insert, update or (with an undefined value) remove the value at a path, editing only the affected text
+ */
+export function modifyJsonc(text: string, path: JsonPath, value: unknown): string {
+	const formatting: Formatting = { unit: detectIndentUnit(text), eol: text.includes("\r\n") ? "\r\n" : "\n" };
+	let node = parseTree(text);
+
+	for (let depth = 0; depth < path.length; depth++) {
+		const key = path[depth] as string | number;
+		const isLast = depth === path.length - 1;
+		const index = findMemberIndex(node, key);
+		const member = node.children[index];
+
+		if (!member) {
+			if (value === undefined) return text;
+			if (node.type !== "object" && node.type !== "array") {
+				throw new Error(
+					`Cannot set ${path.join(".")}: ${path.slice(0, depth).join(".") || "the root"} is a ${node.type}`,
+				);
+			}
+			return insertMember(text, node, key, wrapValue(path.slice(depth + 1), value), formatting);
+		}
+
+		if (isLast && value === undefined) return removeMember(text, node, index);
+		node = member.value;
+	}
+
+	const indentation = getLineIndentation(text, node.offset);
+	return text.slice(0, node.offset) + formatValue(value, indentation, formatting) + text.slice(nodeEnd(node));
+}
+
+/**
+ * Rename the property at a path where it is, keeping its value
+ */
+function renameJsoncProperty(text: string, path: JsonPath, newKey: string): string {
+	let node = parseTree(text);
+	let member: JsonMember | undefined;
+	for (const key of path) {
+		member = node.children[findMemberIndex(node, key)];
+		if (!member) return text;
+		node = member.value;
+	}
+	if (!member || typeof member.key !== "string") return text;
+
+	return text.slice(0, member.offset) + JSON.stringify(newKey) + text.slice(member.offset + member.keyLength);
+}
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Edits turning one value into another: changed leaves, added, removed and renamed keys, appended and removed items
+ */
+function diffValues(before: unknown, after: unknown, path: JsonPath, edits: JsonEdit[]): void {
+	if (isEqual(before, after)) return;
+
+	if (isPlainObject(before) && isPlainObject(after)) {
+		// A key replacing a removed one at the same position is a rename, made where the old key stands
+		const beforeKeys = Object.keys(before);
+		const renamed = new Map<string, string>();
+		Object.keys(after)
+			.filter((key) => after[key] !== undefined)
+			.forEach((key, index) => {
+				const oldKey = beforeKeys[index];
+				if (!(key in before) && oldKey !== undefined && after[oldKey] === undefined) renamed.set(key, oldKey);
+			});
+		const renamedKeys = new Set(renamed.values());
+
+		for (const key of beforeKeys) {
+			if (after[key] === undefined && !renamedKeys.has(key)) edits.push({ path: [...path, key], value: undefined });
+		}
+		for (const [key, value] of Object.entries(after)) {
+			if (value === undefined) continue;
+			const oldKey = renamed.get(key);
+			if (oldKey !== undefined) {
+				edits.push({ path: [...path, oldKey], renameTo: key });
+				diffValues(before[oldKey], value, [...path, key], edits);
+			} else if (key in before) {
+				diffValues(before[key], value, [...path, key], edits);
+			} else {
+				edits.push({ path: [...path, key], value });
+			}
+		}
+		return;
+	}
+
+	if (Array.isArray(before) && Array.isArray(after)) {
+		// Appended items
+		if (before.every((item, index) => isEqual(item, after[index]))) {
+			for (let index = before.length; index < after.length; index++) {
+				edits.push({ path: [...path, index], value: after[index] });
+			}
+			return;
+		}
+
+		// Removed items, the rest keeping its order
+		const removed: number[] = [];
+		let next = 0;
+		before.forEach((item, index) => {
+			if (next < after.length && isEqual(item, after[next])) next++;
+			else removed.push(index);
+		});
+		if (next === after.length) {
+			for (const index of removed.reverse()) edits.push({ path: [...path, index], value: undefined });
+			return;
+		}
+
+		if (before.length === after.length) {
+			after.forEach((item, index) => diffValues(before[index], item, [...path, index], edits));
+			return;
+		}
+	}
+
+	edits.push({ path, value: after });
+}
+
+/**
+ * Rewrite a JSON document to hold a new value, editing only the parts that differ from its current value
+ */
+export function patchJson(text: string, value: unknown): string {
+	const edits: JsonEdit[] = [];
+	diffValues(parseJsonc(text), value, [], edits);
+	return edits.reduce(
+		(patched, edit) =>
+			"renameTo" in edit
+				? renameJsoncProperty(patched, edit.path, edit.renameTo)
+				: modifyJsonc(patched, edit.path, edit.value),
+		text,
+	);
+}
@@ -0,0 +1,74 @@
+/**
+ * Child process helpers for commands that call git or run workspace scripts
+ */
+
+import { execFile, spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+
+/**
+ * Run a command and resolve with its stdout; rejects with stderr when it fails
+ */
+export function execCommand(command: string, args: string[], cwd: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(command, args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+			if (error) reject(new Error(stderr.trim() || error.message, { cause: error }));
+			else resolve(stdout);
+		});
+	});
+}
+
+export interface PrefixedProcess {
+	/** Resolves with the exit code once the process has exited */
+	exited: Promise<number>;
+	/** Terminate the process and the processes it started */
+	kill: () => void;
+}
+
+/**
+ * Run a command, writing each line of its output to ours behind a prefix (and passing it to onLine)
+ */
+export function spawnPrefixed(
+	command: string,
+	args: string[],
+	cwd: string,
+	prefix: string,
+	onLine?: (line: string, stream: "stdout" | "stderr") => void,
+): PrefixedProcess {
+	// Own process group, so kill() also reaches the scripts bun starts
+	const child = spawn(command, args, {
+		cwd,
+		detached: process.platform !== "win32",
+		env: { ...process.env, ...(process.stdout.isTTY && { FORCE_COLOR: "1" }) },
+		stdio: ["ignore", "pipe", "pipe"],
+	});
+
+	for (const [name, stream, output] of [
+		["stdout", child.stdout, process.stdout],
+		["stderr", child.stderr, process.stderr],
+	] as const) {
+		createInterface({ input: stream }).on("line", (line) => {
+			output.write(`${prefix} ${line}\n`);
+			onLine?.(line, name);
+		});
+	}
+
+	const exited = new Promise<number>((resolve) => {
+		child.on("error", (error) => {
+			process.stderr.write(`${prefix} ${error.message}\n`);
+			resolve(1);
+		});
+		child.on("close", (code) => resolve(code ?? 1));
+	});
+
+	const kill = () => {
+		if (child.exitCode !== null || child.pid === undefined) return;
+		try {
+			if (process.platform === "win32") child.kill();
+			else process.kill(-child.pid, "SIGTERM");
+		} catch {
+			// Already exited
+		}
+	};
+
+	return { exited, kill };
+}
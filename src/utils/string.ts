@@ -2,9 +2,65 @@
  * Utility functions for string manipulation and validation
  */
 
+// Words of a name in any case: "my-app", "my_app", "my app", "myApp" and "MyApp" all split into my, app
+const WORD_REGEX = /[A-Z]?[a-z0-9]+|[A-Z]+(?![a-z])/g;
+
+const splitWords = (str: string) => (str.match(WORD_REGEX) ?? []).map((word) => word.toLowerCase());
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
 /**
- * Convert kebab-case to camelCase for variable names
+ * Convert a name to camelCase for variable names ("ui-native" -> "uiNative")
  */
 export function toCamelCase(str: string): string {
-	return str.replace(/-([a-z])/g, (_, letter) => letter.toUpperCase());
+	return splitWords(str)
+		.map((word, index) => (index === 0 ? word : capitalize(word)))
+		.join("");
+}
+
+/**
+ * Convert a name to PascalCase for class and component names ("ui-native" -> "UiNative")
+ */
+export function toPascalCase(str: string): string {
+	return splitWords(str).map(capitalize).join("");
+}
+
+/**
+ * Convert a name to kebab-case for file and package names ("UiNative" -> "ui-native")
+ */
+export function toKebabCase(str: string): string {
+	return splitWords(str).join("-");
+}
+
+const SCOPE_NAME_REGEX = /^[a-z0-9][a-z0-9._~-]*$/;
+const INVALID_SCOPE_CHARACTERS_REGEX = /[^a-z0-9._~-]+/g;
+const SCOPE_EDGE_REGEX = /^[._~-]+|[._~-]+$/g;
+
+/** npm limits package names, including the scope, to 214 characters */
+const MAX_SCOPE_LENGTH = 100;
+
+/**
+ * Turn a project name into a legal npm scope name (without the "@"), e.g. "My App!" -> "my-app"
+ */
+export function normalizeScope(projectName: string): string {
+	const normalized = projectName
+		.toLowerCase()
+		.replace(INVALID_SCOPE_CHARACTERS_REGEX, "-")
+		.slice(0, MAX_SCOPE_LENGTH)
+		.replace(SCOPE_EDGE_REGEX, "");
+	return normalized || "monorepo";
+}
+
+/**
+ * Validate a scope given by the user ("@acme" or "acme") and return it without the "@"
+ */
+export function parseScope(value: string): string {
+	const trimmed = value.trim();
+	const scope = trimmed.startsWith("@") ? trimmed.slice(1) : trimmed;
+	if (!SCOPE_NAME_REGEX.test(scope) || scope.length > MAX_SCOPE_LENGTH) {
+		throw new Error(
+			`Invalid scope "${value}". Use lowercase letters, numbers, "-", "." or "_", starting with a letter or number (e.g. @acme).`,
+		);
+	}
+	return scope;
 }
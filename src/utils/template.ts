@@ -0,0 +1,262 @@
+/**
+ * Handlebars-style template language for template files
+ *
+ * - {{path}} outputs a value of the context, {{path | pascalCase}} passes it through filters
+ * - {{#if condition}}…{{else}}…{{/if}} and {{#unless condition}}…{{/unless}} test a condition: a value (empty
+ *   arrays are false), "!value", or a comparison such as answers.router == "pages" (or != pages)
+ * - {{#each path}}…{{else}}…{{/each}} repeats over an array; {{this}}, {{@index}}, {{@first}}, {{@last}} and the
+ *   fields of the item are available inside
+ * - {{> name}} includes a partial, indented like the tag
+ *
+ * File paths take {{variable}} tags only, so the [slug] folders of routers stay as they are; conditions of manifests use
+ * the {{#if}} syntax without braces.
+ *
+ * Block tags alone on their line leave no blank line behind. Anything else between double braces, such as a JSX
+ * style={{ margin: 0 }}, is kept as it is.
+ */
+
+import { toCamelCase, toKebabCase, toPascalCase } from "./string";
+
+const FILTERS: Record<string, (value: string) => string> = {
+	camelCase: toCamelCase,
+	pascalCase: toPascalCase,
+	kebabCase: toKebabCase,
+};
+
+const TAG_REGEX = /\{\{([^{}]*)\}\}/g;
+const OPEN_REGEX = /^#(if|unless|each)\s+(.+)$/;
+const PATH_REGEX = /^[\w.@]+$/;
+const CONDITION_REGEX = /^(!?)\s*([\w.@]+)(?:\s*(==|!=)\s*(?:"([^"]*)"|([\w.-]+)))?$/;
+const CLOSE_REGEX = /^\/(if|unless|each)$/;
+const PARTIAL_REGEX = /^>\s*([\w.-]+)$/;
+const VALUE_REGEX = /^([\w.@]+)((?:\s*\|\s*\w+)*)$/;
+const FILTER_SEPARATOR_REGEX = /\s*\|\s*/;
+const INDENTATION_REGEX = /^[ \t]*$/;
+const LINE_END_REGEX = /^[ \t]*(?:\r?\n|$)/;
+const LINE_REGEX = /^(?=.)/gm;
+
+type BlockType = "if" | "unless" | "each";
+
+interface Block {
+	kind: "block";
+	type: BlockType;
+	/** Condition of if and unless blocks, list of each blocks */
+	expression: string;
+	body: TemplateNode[];
+	/** Nodes after {{else}} */
+	otherwise: TemplateNode[];
+}
+
+type TemplateNode =
+	| string
+	| Block
+	| { kind: "value"; path: string; filters: string[] }
+	| { kind: "partial"; name: string; indentation: string };
+
+interface Frame {
+	value: unknown;
+	data?: Record<string, unknown>;
+}
+
+/**
+ * Split the " | filter" list of a value, checking every filter exists
+ */
+function parseFilters(list: string | undefined, source: string): string[] {
+	const filters = (list ?? "").split(FILTER_SEPARATOR_REGEX).filter(Boolean);
+	for (const filter of filters) {
+		if (!FILTERS[filter]) {
+			throw new Error(`Unknown filter "${filter}" in ${source}; use ${Object.keys(FILTERS).join(", ")}`);
+		}
+	}
+	return filters;
+}
+
+const applyFilters = (text: string, filters: string[]) =>
+	filters.reduce((result, filter) => FILTERS[filter]?.(result) ?? result, text);
+
+/**
+ * Split a template into text and tag nodes, nesting the blocks
+ */
+function parse(template: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	const stack: Array<{ block: Block; parent: TemplateNode[] }> = [];
+	let current = root;
+	let position = 0;
+
+	for (const match of template.matchAll(TAG_REGEX)) {
+		const tag = match[1]?.trim() ?? "";
+		const open = tag.match(OPEN_REGEX);
+		const close = tag.match(CLOSE_REGEX);
+		const partial = tag.match(PARTIAL_REGEX);
+		const value = tag.match(VALUE_REGEX);
+		const isBlockTag = Boolean(open || close || partial || tag === "else");
+		if (!isBlockTag && !value) continue;
+
+		// A block tag alone on its line takes its indentation and line break with it
+		let start = match.index;
+		let end = start + match[0].length;
+		let indentation = "";
+		const lineStart = template.lastIndexOf("\n", start - 1) + 1;
+		const before = template.slice(lineStart, start);
+		const after = template.slice(end).match(LINE_END_REGEX);
+		if (isBlockTag && lineStart >= position && INDENTATION_REGEX.test(before) && after) {
+			indentation = before;
+			start = lineStart;
+			end += after[0].length;
+		}
+
+		if (start > position) current.push(template.slice(position, start));
+		position = end;
+
+		if (open?.[1] && open[2]) {
+			const type = open[1] as BlockType;
+			const expression = open[2].trim();
+			if (type === "each" ? !PATH_REGEX.test(expression) : !CONDITION_REGEX.test(expression)) {
+				throw new Error(`Invalid {{${tag}}}: expected ${type === "each" ? "a variable" : "a condition"}`);
+			}
+			const block: Block = { kind: "block", type, expression, body: [], otherwise: [] };
+			current.push(block);
+			stack.push({ block, parent: current });
+			current = block.body;
+		} else if (close) {
+			const entry = stack.pop();
+			if (!entry || entry.block.type !== close[1]) {
+				throw new Error(
+					`Unexpected {{/${close[1]}}}${entry ? `, {{#${entry.block.type} ${entry.block.expression}}} is still open` : ""}`,
+				);
+			}
+			current = entry.parent;
+		} else if (tag === "else") {
+			const block = stack.at(-1)?.block;
+			if (!block || block.type === "unless") throw new Error("{{else}} outside of an {{#if}} or {{#each}} block");
+			current = block.otherwise;
+		} else if (partial?.[1]) {
+			current.push({ kind: "partial", name: partial[1], indentation });
+		} else if (value?.[1]) {
+			current.push({ kind: "value", path: value[1], filters: parseFilters(value[2], `{{${tag}}}`) });
+		}
+	}
+
+	const unclosed = stack.at(-1)?.block;
+	if (unclosed) throw new Error(`{{#${unclosed.type} ${unclosed.expression}}} is never closed`);
+
+	if (position < template.length) current.push(template.slice(position));
+	return root;
+}
+
+/**
+ * Look a path up in the innermost frame that defines its first segment
+ */
+function lookup(path: string, frames: Frame[]): unknown {
+	const frame = frames.at(-1);
+	if (path === "this" || path === ".") return frame?.value;
+
+	if (path.startsWith("@")) {
+		if (!frame?.data || !Object.hasOwn(frame.data, path.slice(1))) {
+			throw new Error(`{{${path}}} is only available inside {{#each}}`);
+		}
+		return frame.data[path.slice(1)];
+	}
+
+	const [head = "", ...rest] = path.startsWith("this.") ? path.slice(5).split(".") : path.split(".");
+	const scopes = path.startsWith("this.") ? [frame] : [...frames].reverse();
+	const owner = scopes.find(
+		(scope) => typeof scope?.value === "object" && scope.value !== null && Object.hasOwn(scope.value, head),
+	);
+	if (!owner) throw new Error(`Unknown template variable "${head}"`);
+
+	let value = (owner.value as Record<string, unknown>)[head];
+	for (const key of rest) {
+		value = typeof value === "object" && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+	}
+	return value;
+}
+
+const isTruthy = (value: unknown) => (Array.isArray(value) ? value.length > 0 : Boolean(value));
+
+function stringify(value: unknown): string {
+	if (value === undefined || value === null) return "";
+	return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function testCondition(condition: string, frames: Frame[]): boolean {
+	const match = condition.match(CONDITION_REGEX);
+	if (!match?.[2]) throw new Error(`Invalid condition "${condition}"`);
+
+	const [, negated, path, operator, quoted, bare] = match;
+	const value = lookup(path, frames);
+	const result = operator ? (stringify(value) === (quoted ?? bare)) === (operator === "==") : isTruthy(value);
+	return negated ? !result : result;
+}
+
+function renderNodes(
+	nodes: TemplateNode[],
+	frames: Frame[],
+	partials: Record<string, string>,
+	including: string[],
+): string {
+	let output = "";
+
+	for (const node of nodes) {
+		if (typeof node === "string") {
+			output += node;
+		} else if (node.kind === "value") {
+			output += applyFilters(stringify(lookup(node.path, frames)), node.filters);
+		} else if (node.kind === "partial") {
+			const partial = partials[node.name];
+			if (partial === undefined) throw new Error(`Unknown partial "${node.name}"`);
+			if (including.includes(node.name)) throw new Error(`Partial "${node.name}" includes itself`);
+
+			const rendered = renderNodes(parse(partial), frames, partials, [...including, node.name]);
+			output += node.indentation ? rendered.replace(LINE_REGEX, node.indentation) : rendered;
+		} else {
+			if (node.type !== "each") {
+				const matches = testCondition(node.expression, frames) === (node.type === "if");
+				output += renderNodes(matches ? node.body : node.otherwise, frames, partials, including);
+				continue;
+			}
+
+			const value = lookup(node.expression, frames);
+			if (value !== undefined && value !== null && !Array.isArray(value)) {
+				throw new Error(`{{#each ${node.expression}}} needs an array`);
+			}
+			const items: unknown[] = Array.isArray(value) ? value : [];
+			if (items.length === 0) output += renderNodes(node.otherwise, frames, partials, including);
+
+			for (const [index, item] of items.entries()) {
+				const data = { index, first: index === 0, last: index === items.length - 1 };
+				output += renderNodes(node.body, [...frames, { value: item, data }], partials, including);
+			}
+		}
+	}
+
+	return output;
+}
+
+/**
+ * Render a template against a context; partials are template sources keyed by name
+ */
+export function renderTemplate(template: string, context: object, partials: Record<string, string> = {}): string {
+	return renderNodes(parse(template), [{ value: context }], partials, []);
+}
+
+export const isValidCondition = (condition: string) => CONDITION_REGEX.test(condition.trim());
+
+/**
+ * Test a condition against a context, like {{#if}}: "orm.type", "!orm.type" or "answers.router == pages"
+ */
+export function evaluateCondition(condition: string, context: object): boolean {
+	return testCondition(condition.trim(), [{ value: context }]);
+}
+
+/**
+ * Replace the {{variable}} parts of a file path ("src/{{name}}.controller.ts", "{{name | pascalCase}}.tsx"). Square
+ * brackets are never variables, so the [name] and [...slug] routes of Next.js and Expo Router are kept
+ */
+export function renderPath(path: string, context: object): string {
+	return path.replace(TAG_REGEX, (_match, expression: string) => {
+		const [, variable, filters] = expression.trim().match(VALUE_REGEX) ?? [];
+		if (!variable) throw new Error(`Invalid {{${expression}}} in a file name: expected a variable`);
+		return applyFilters(stringify(lookup(variable, [{ value: context }])), parseFilters(filters, `{{${expression}}}`));
+	});
+}
@@ -0,0 +1,20 @@
+import "../styles/globals.css";
+import type { AppProps } from "next/app";
+import { Inter } from "next/font/google";
+import Head from "next/head";
+
+const inter = Inter({ subsets: ["latin"] });
+
+export default function App({ Component, pageProps }: AppProps) {
+	return (
+		<>
+			<Head>
+				<title>Next.js Example App</title>
+				<meta name="description" content="Generated by create-next-app" />
+			</Head>
+			<div className={inter.className}>
+				<Component {...pageProps} />
+			</div>
+		</>
+	);
+}
@@ -1,8 +0,0 @@
-const { theme } = require("../../tailwind.base");
-
-/** @type {import('tailwindcss').Config} */
-module.exports = {
-	content: ["./app/**/*.{js,ts,jsx,tsx,mdx}"],
-	theme,
-	plugins: [],
-};
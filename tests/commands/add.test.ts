@@ -0,0 +1,149 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { createFixture, writeFixtureFiles } from "../fixtures";
+import { createMonorepo, readJson, readText, runCli, runCliOk } from "./cli";
+
+const PLAN_SUMMARY_REGEX = /\d+ file\(s\) to create, 2 to modify, 0 to delete/;
+
+describe("add", () => {
+	test("finds the monorepo root from a workspace folder", () => {
+		const root = createMonorepo("--apps", "web[nextjs]");
+
+		runCliOk(join(root, "apps/web"), "add", "--package", "utils[utils]");
+
+		expect(readJson(root, "packages/utils/package.json").name).toBe("@acme/utils");
+		expect(existsSync(join(root, "apps/web/packages"))).toBe(false);
+	});
+
+	test("targets the monorepo given with --cwd", () => {
+		const root = createMonorepo("--apps", "web[nextjs]");
+
+		runCliOk(dirname(root), "add", "--app", "api[hono]", "--cwd", "acme");
+
+		expect(readJson(root, "apps/api/package.json").name).toBe("@acme/api");
+	});
+
+	test("creates the workspace in --dir and adds the folder to the root workspaces", () => {
+		const root = createMonorepo("--apps", "web[nextjs]");
+
+		runCliOk(root, "add", "--package", "utils[utils]", "--dir", "libs");
+		runCliOk(root, "add", "--app", "api[hono]", "--dir", "services");
+
+		expect(readJson(root, "package.json").workspaces).toEqual(["apps/*", "libs/*", "services/*"]);
+		expect(readJson(root, "libs/utils/package.json").name).toBe("@acme/utils");
+		expect(readJson(root, ".bun-monorepo.json").workspaces).toContainEqual(
+			expect.objectContaining({ name: "api", path: "services/api" }),
+		);
+		// Later commands discover the workspace through the globs
+		expect(runCliOk(root, "graph")).toContain('libs_utils["@acme/utils"]');
+	});
+
+	test("rejects a --dir outside the monorepo", () => {
+		const { status, output } = runCli(
+			createMonorepo("--apps", "web[nextjs]"),
+			"add",
+			"--app",
+			"x[hono]",
+			"--dir",
+			"../out",
+		);
+
+		expect(status).not.toBe(0);
+		expect(output).toContain("--dir must be a folder inside the monorepo, relative to its root (got '../out')");
+	});
+
+	test("only prints the plan with --dry-run", () => {
+		const root = createMonorepo("--apps", "web[nextjs]");
+		const manifest = readText(root, ".bun-monorepo.json");
+
+		const output = runCliOk(root, "add", "--app", "api[hono]", "--dry-run");
+
+		expect(output).toContain("Dry run - planned file changes (nothing was written)");
+		expect(output).toContain("~ .bun-monorepo.json (modified,");
+		expect(output).toMatch(PLAN_SUMMARY_REGEX);
+		expect(existsSync(join(root, "apps/api"))).toBe(false);
+		expect(readText(root, ".bun-monorepo.json")).toBe(manifest);
+	});
+
+	test("rolls back a failing add", () => {
+		const root = createMonorepo("--apps", "web[nextjs]");
+		const templates = createFixture({
+			"apps/broken/template.json": { name: "Broken", description: "Fails to render", category: "backend" },
+			"apps/broken/package.json": { name: "broken", version: "1.0.0" },
+			"apps/broken/src/index.ts.hbs": "{{#if orm.type}}\n",
+		});
+		const packageJson = readText(root, "package.json");
+
+		const { status, output } = runCli(
+			root,
+			"add",
+			"--app",
+			"svc[custom/broken]",
+			"--template-dir",
+			`custom=${templates}`,
+			"--dir",
+			"services",
+		);
+
+		expect(status).not.toBe(0);
+		expect(output).toContain("Operation failed - rolling back changes");
+		expect(output).toContain("Could not render src/index.ts.hbs: {{#if orm.type}} is never closed");
+		// The new workspaces glob is taken back out and the partial workspace removed
+		expect(readText(root, "package.json")).toBe(packageJson);
+		expect(existsSync(join(root, "services"))).toBe(false);
+	});
+
+	test("refuses to write into an existing workspace folder and lists the collisions", () => {
+		const root = createMonorepo("--apps", "web[nextjs]");
+		writeFileSync(join(root, "apps/web/next.config.js"), "// mine\n");
+
+		const { status, output } = runCli(root, "add", "--app", "web[nextjs]");
+
+		expect(status).not.toBe(0);
+		expect(output).toContain("Target directory 'apps/web' already exists and is not empty.");
+		expect(output).toContain("The following files would be overwritten:\n  apps/web/next.config.js\n");
+		expect(output).toContain("Use --force to overwrite existing files or --merge to only write missing files.");
+		expect(readText(root, "apps/web/next.config.js")).toBe("// mine\n");
+	});
+
+	test("overwrites existing files with --force", () => {
+		const root = createMonorepo("--apps", "web[nextjs]");
+		writeFileSync(join(root, "apps/web/next.config.js"), "// mine\n");
+
+		runCliOk(root, "add", "--app", "web[nextjs]", "--force");
+
+		expect(readText(root, "apps/web/next.config.js")).not.toBe("// mine\n");
+	});
+
+	test("only writes missing files with --merge", () => {
+		const root = createMonorepo("--apps", "web[nextjs]");
+		writeFileSync(join(root, "apps/web/next.config.js"), "// mine\n");
+		writeFileSync(join(root, "apps/web/notes.hbs"), "{{draft}}\n");
+		rmSync(join(root, "apps/web/postcss.config.cjs"));
+
+		const output = runCliOk(root, "add", "--app", "web[nextjs]", "--merge");
+
+		expect(output).toContain("Kept 7 existing file(s) (--merge):");
+		expect(readText(root, "apps/web/next.config.js")).toBe("// mine\n");
+		expect(readText(root, "apps/web/notes.hbs")).toBe("{{draft}}\n");
+		expect(existsSync(join(root, "apps/web/postcss.config.cjs"))).toBe(true);
+	});
+
+	test("keeps existing files that the template would remove or rename with --merge", () => {
+		const root = createMonorepo("--apps", "web[nextjs]");
+		// The template drops src/pages with the default app router and renames _gitignore
+		writeFixtureFiles(join(root, "apps/site"), {
+			"src/pages/index.tsx": "export default function Home() {}\n",
+			_gitignore: "dist\n",
+			"package.json": { name: "site" },
+		});
+
+		runCliOk(root, "add", "--app", "site[nextjs]", "--merge");
+
+		expect(readText(root, "apps/site/src/pages/index.tsx")).toBe("export default function Home() {}\n");
+		expect(readText(root, "apps/site/_gitignore")).toBe("dist\n");
+		expect(readJson(root, "apps/site/package.json")).toEqual({ name: "site" });
+		expect(existsSync(join(root, "apps/site/src/app/page.tsx"))).toBe(true);
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import { spawnSync } from "node:child_process";
+import { appendFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { addScript, createMonorepo, runCli, runCliOk } from "./cli";
+
+const git = (root: string, ...args: string[]) =>
+	spawnSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd: root });
+
+/** The monorepo with web[nextjs] → ui, utils and api[express] → utils, committed to a new git repository */
+function createCommittedMonorepo(): string {
+	const root = createMonorepo("--apps", "web[nextjs],api[express]", "--packages", "ui[ui],utils[utils]");
+	git(root, "init", "-q");
+	git(root, "add", "-A");
+	git(root, "commit", "-q", "-m", "init");
+	return root;
+}
+
+describe("affected", () => {
+	test("finds nothing without changes", () => {
+		expect(runCliOk(createCommittedMonorepo(), "affected", "--base", "HEAD")).toContain("No workspace is affected");
+	});
+
+	test("adds the workspaces depending on a changed package, in dependency order", () => {
+		const root = createCommittedMonorepo();
+		appendFileSync(join(root, "packages/utils/src/index.ts"), "// changed\n");
+
+		const output = runCliOk(root, "affected", "--base", "HEAD");
+
+		expect(output).toContain("3 affected workspace(s), in dependency order:");
+		expect(output).toContain(
+			[
+				"  @acme/utils (packages/utils, changed)",
+				"  @acme/api (apps/api, depends on a change)",
+				"  @acme/web (apps/web, depends on a change)",
+			].join("\n"),
+		);
+		expect(output).not.toContain("@acme/ui");
+	});
+
+	test("counts untracked files", () => {
+		const root = createCommittedMonorepo();
+		writeFileSync(join(root, "packages/ui/notes.md"), "# Notes\n");
+
+		const output = runCliOk(root, "affected", "--base", "HEAD");
+
+		expect(output).toContain("  @acme/ui (packages/ui, changed)\n  @acme/web (apps/web, depends on a change)");
+		expect(output).not.toContain("@acme/api");
+	});
+
+	test("affects every workspace when a shared root file changes", () => {
+		const root = createCommittedMonorepo();
+		appendFileSync(join(root, "package.json"), "\n");
+
+		const output = runCliOk(root, "affected", "--base", "HEAD");
+
+		expect(output).toContain("Shared root files changed (package.json), every workspace is affected");
+		expect(output).toContain("4 affected workspace(s)");
+	});
+
+	test("runs a script in the affected workspaces defining it with --run", () => {
+		const root = createCommittedMonorepo();
+		addScript(root, "packages/utils", "check", "echo checked utils");
+		addScript(root, "apps/api", "check", "echo checked api");
+		addScript(root, "packages/ui", "check", "echo checked ui");
+		git(root, "commit", "-qam", "check");
+		appendFileSync(join(root, "packages/utils/src/index.ts"), "// changed\n");
+
+		const output = runCliOk(root, "affected", "--base", "HEAD", "--run", "check");
+
+		expect(output).toContain("Ran 'check' in 2 workspace(s)");
+		expect(output.indexOf("checked utils")).toBeLessThan(output.indexOf("checked api"));
+		expect(output).not.toContain("checked ui");
+	});
+
+	test("fails on an unknown git ref", () => {
+		const { status, output } = runCli(createCommittedMonorepo(), "affected", "--base", "nope");
+
+		expect(status).not.toBe(0);
+		expect(output).toContain("'nope' is not a valid git ref");
+	});
+});
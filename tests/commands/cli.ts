@@ -0,0 +1,71 @@
+/**
+ * Run the CLI from its sources against monorepos created in temporary directories
+ */
+
+import { spawnSync } from "node:child_process";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { createFixture } from "../fixtures";
+
+const CLI_PATH = resolve(import.meta.dir, "../../src/index.ts");
+
+/** Empty user config and cache folders, so the user's own template folders stay out of the tests */
+const USER_DIRECTORY = mkdtempSync(join(tmpdir(), "cbm-user-"));
+
+export interface CliResult {
+	status: number | null;
+	/** stdout and stderr, in order of arrival within each stream */
+	output: string;
+}
+
+/**
+ * Run the CLI in a directory without questions, colours or a user config
+ */
+export function runCli(cwd: string, ...args: string[]): CliResult {
+	const result = spawnSync(process.execPath, [CLI_PATH, ...args], {
+		cwd,
+		encoding: "utf-8",
+		timeout: 60_000,
+		env: {
+			...process.env,
+			NON_INTERACTIVE: "true",
+			FORCE_COLOR: "0",
+			XDG_CONFIG_HOME: join(USER_DIRECTORY, "config"),
+			XDG_CACHE_HOME: join(USER_DIRECTORY, "cache"),
+		},
+	});
+	return { status: result.status, output: `${result.stdout}${result.stderr}` };
+}
+
+/**
+ * Run the CLI, failing the test with its output when it does not succeed
+ */
+export function runCliOk(cwd: string, ...args: string[]): string {
+	const { status, output } = runCli(cwd, ...args);
+	if (status !== 0) throw new Error(`create-bun-monorepo ${args.join(" ")} exited with ${status}:\n${output}`);
+	return output;
+}
+
+/**
+ * Create the "acme" monorepo with the given create flags; returns its root
+ */
+export function createMonorepo(...flags: string[]): string {
+	const directory = createFixture({});
+	runCliOk(directory, "create", "acme", "--yes", "--linting", "none", ...flags);
+	return join(directory, "acme");
+}
+
+export const readText = (root: string, path: string) => readFileSync(join(root, path), "utf-8");
+export const readJson = (root: string, path: string) => JSON.parse(readText(root, path));
+export const writeJson = (root: string, path: string, value: unknown) =>
+	writeFileSync(join(root, path), `${JSON.stringify(value, null, "\t")}\n`);
+
+/**
+ * Add a script to the package.json of a workspace, given by its path
+ */
+export function addScript(root: string, workspace: string, name: string, command: string): void {
+	const packageJson = readJson(root, `${workspace}/package.json`);
+	packageJson.scripts = { ...packageJson.scripts, [name]: command };
+	writeJson(root, `${workspace}/package.json`, packageJson);
+}
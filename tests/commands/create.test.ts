@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync, readdirSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { createFixture } from "../fixtures";
+import { readJson, runCliOk } from "./cli";
+
+const { version } = readJson(resolve(import.meta.dir, "../.."), "package.json");
+const PLAN_SUMMARY_REGEX = /\d+ file\(s\) to create, 0 to modify, 0 to delete/;
+
+describe("create", () => {
+	test("creates the monorepo with its workspaces", () => {
+		const directory = createFixture({});
+
+		runCliOk(directory, "create", "demo", "--yes", "--linting", "none", "--apps", "web[nextjs]");
+
+		expect(readJson(directory, "demo/package.json").workspaces).toContain("apps/*");
+		expect(readJson(directory, "demo/apps/web/package.json").name).toBe("@demo/web");
+	});
+
+	test("builds the workspaces through the cached run command of the generating version", () => {
+		const directory = createFixture({});
+
+		runCliOk(
+			directory,
+			"create",
+			"demo",
+			"--yes",
+			"--linting",
+			"none",
+			"--apps",
+			"web[nextjs]",
+			"--packages",
+			"ui[ui]",
+		);
+
+		const { scripts, devDependencies } = readJson(directory, "demo/package.json");
+		expect(scripts.build).toBe("create-bun-monorepo run build --cache");
+		expect(devDependencies["create-bun-monorepo"]).toBe(`^${version}`);
+	});
+
+	test("only prints the plan with --dry-run", () => {
+		const directory = createFixture({});
+
+		const output = runCliOk(
+			directory,
+			"create",
+			"demo",
+			"--yes",
+			"--linting",
+			"none",
+			"--apps",
+			"web[nextjs]",
+			"--dry-run",
+		);
+
+		expect(output).toContain("Dry run - planned file changes (nothing was written)");
+		expect(output).toContain("└── demo/");
+		expect(output).toContain("+ package.json (created,");
+		expect(output).toMatch(PLAN_SUMMARY_REGEX);
+		expect(readdirSync(directory)).toEqual([]);
+		expect(existsSync(join(directory, "demo"))).toBe(false);
+	});
+});
@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { appendFileSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createMonorepo, readJson, readText, runCli, runCliOk, writeJson } from "./cli";
+
+const PLAN_SUMMARY_REGEX = /0 file\(s\) to create, 5 to modify, 0 to delete/;
+
+/**
+ * A monorepo with one problem of each kind: a dangling, a duplicated and a missing project reference, an unknown
+ * workspace dependency and a package renamed away from the convention
+ */
+function createDriftedMonorepo(): string {
+	const root = createMonorepo("--apps", "web[nextjs],api[express]", "--packages", "ui[ui],utils[utils]");
+
+	const tsconfig = readJson(root, "tsconfig.json");
+	tsconfig.references = [
+		...tsconfig.references.filter((reference: { path: string }) => reference.path !== "apps/api"),
+		{ path: "packages/gone" },
+		{ path: "packages/ui" },
+	];
+	writeJson(root, "tsconfig.json", tsconfig);
+
+	const utils = readJson(root, "packages/utils/package.json");
+	writeJson(root, "packages/utils/package.json", { ...utils, name: "acme-utils" });
+	for (const app of ["api", "web"]) {
+		const path = join(root, `apps/${app}/package.json`);
+		writeFileSync(path, readFileSync(path, "utf-8").replace('"@acme/utils"', '"acme-utils"'));
+	}
+	const api = readJson(root, "apps/api/package.json");
+	api.dependencies["@acme/missing"] = "workspace:*";
+	writeJson(root, "apps/api/package.json", api);
+	appendFileSync(join(root, "apps/api/src/index.ts"), 'import { slugify } from "acme-utils";\n');
+
+	return root;
+}
+
+describe("doctor", () => {
+	test("finds no problems in a freshly created monorepo", () => {
+		const root = createMonorepo("--apps", "web[nextjs],api[express]", "--packages", "ui[ui],utils[utils]");
+
+		expect(runCliOk(root, "doctor")).toContain("No problems found");
+	});
+
+	test("reports drift and fails while errors remain", () => {
+		const { status, output } = runCli(createDriftedMonorepo(), "doctor");
+
+		expect(status).not.toBe(0);
+		expect(output).toContain("✗ error   tsconfig.json references packages/gone, which does not exist (fixable)");
+		expect(output).toContain("⚠ warning tsconfig.json references packages/ui more than once (fixable)");
+		expect(output).toContain("⚠ warning tsconfig.json has no reference to apps/api (fixable)");
+		expect(output).toContain(
+			"✗ error   apps/api depends on @acme/missing, which is not a workspace of this monorepo (fixable)",
+		);
+		expect(output).toContain("⚠ warning packages/utils is named acme-utils, expected @acme/utils (fixable)");
+		expect(output).toContain("2 error(s), 3 warning(s), 5 fixable automatically");
+		expect(output).toContain("Found 2 error(s) in the monorepo");
+	});
+
+	test("repairs the fixable problems with --fix", () => {
+		const root = createDriftedMonorepo();
+
+		expect(runCliOk(root, "doctor", "--fix")).toContain("Fixed 5 problem(s)");
+
+		expect(readJson(root, "tsconfig.json").references.map((reference: { path: string }) => reference.path)).toEqual([
+			"packages/ui",
+			"packages/utils",
+			"apps/web",
+			"apps/api",
+		]);
+		expect(readJson(root, "packages/utils/package.json").name).toBe("@acme/utils");
+		const { dependencies } = readJson(root, "apps/api/package.json");
+		expect(dependencies).toMatchObject({ "@acme/utils": "workspace:*" });
+		expect(dependencies).not.toHaveProperty("@acme/missing");
+		expect(dependencies).not.toHaveProperty("acme-utils");
+		expect(readText(root, "apps/api/src/index.ts")).toContain('import { slugify } from "@acme/utils";');
+		expect(runCliOk(root, "doctor")).toContain("No problems found");
+	});
+
+	test("only prints the edits with --fix --dry-run", () => {
+		const root = createDriftedMonorepo();
+		const tsconfig = readText(root, "tsconfig.json");
+
+		expect(runCliOk(root, "doctor", "--fix", "--dry-run")).toMatch(PLAN_SUMMARY_REGEX);
+		expect(readText(root, "tsconfig.json")).toBe(tsconfig);
+		expect(readJson(root, "packages/utils/package.json").name).toBe("acme-utils");
+	});
+
+	test("keeps dependencies that already use the conventional name of a package being renamed", () => {
+		const root = createMonorepo("--apps", "web[nextjs],api[express]", "--packages", "ui[ui],utils[utils]");
+		const utils = readJson(root, "packages/utils/package.json");
+		writeJson(root, "packages/utils/package.json", { ...utils, name: "acme-utils" });
+
+		const report = runCliOk(root, "doctor");
+		expect(report).toContain("⚠ warning packages/utils is named acme-utils, expected @acme/utils (fixable)");
+		expect(report).not.toContain("which is not a workspace of this monorepo");
+
+		runCliOk(root, "doctor", "--fix");
+
+		expect(readJson(root, "packages/utils/package.json").name).toBe("@acme/utils");
+		for (const app of ["api", "web"]) {
+			expect(readJson(root, `apps/${app}/package.json`).dependencies).toMatchObject({
+				"@acme/utils": "workspace:*",
+			});
+		}
+	});
+
+	test("prefers the scope of the root package when workspaces are split between scopes", () => {
+		const root = createMonorepo("--apps", "web[nextjs],api[express]");
+		rmSync(join(root, ".bun-monorepo.json"));
+		for (const [path, name] of [
+			["package.json", "proj"],
+			["apps/web/package.json", "@proj/web"],
+			["apps/api/package.json", "@other/api"],
+		] as const) {
+			writeJson(root, path, { ...readJson(root, path), name });
+		}
+
+		const output = runCliOk(root, "doctor");
+
+		expect(output).toContain("apps/api is named @other/api, expected @proj/api");
+		expect(output).not.toContain("apps/web is named");
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createMonorepo, readJson, runCli, runCliOk } from "./cli";
+
+/** Make the ui and utils packages depend on each other */
+function addCycle(root: string): void {
+	for (const [from, to] of [
+		["ui", "utils"],
+		["utils", "ui"],
+	]) {
+		const path = `packages/${from}/package.json`;
+		const packageJson = readJson(root, path);
+		packageJson.dependencies = { ...packageJson.dependencies, [`@acme/${to}`]: "workspace:*" };
+		writeFileSync(join(root, path), JSON.stringify(packageJson, null, "\t"));
+	}
+}
+
+describe("graph", () => {
+	const createGraphMonorepo = () =>
+		createMonorepo("--apps", "web[nextjs],api[express]", "--packages", "ui[ui],utils[utils]");
+
+	test("prints the workspace dependencies as a Mermaid flowchart", () => {
+		const output = runCliOk(createGraphMonorepo(), "graph");
+
+		expect(output).toContain("graph TD");
+		expect(output).toContain('\t\tapps_web["@acme/web"]');
+		expect(output).toContain("\tapps_api --> packages_utils");
+		expect(output).toContain("\tapps_web --> packages_ui");
+		expect(output).not.toContain("linkStyle");
+	});
+
+	test("gives workspaces whose paths differ only in punctuation their own Mermaid node", () => {
+		const root = createMonorepo("--apps", "my-web[hono],my_web[hono]", "--packages", "utils[utils]");
+
+		const output = runCliOk(root, "graph");
+
+		expect(output).toContain('\t\tapps_my_web["@acme/my_web"]');
+		expect(output).toContain('\t\tapps_my_web_2["@acme/my-web"]');
+		expect(output).toContain("\tapps_my_web --> packages_utils\n\tapps_my_web_2 --> packages_utils");
+	});
+
+	test("prints a Graphviz digraph with --format dot", () => {
+		const output = runCliOk(createGraphMonorepo(), "graph", "--format", "dot");
+
+		expect(output).toContain("digraph workspaces {");
+		expect(output).toContain('\t"@acme/web" -> "@acme/ui";');
+		expect(output).toContain('\t"@acme/api" -> "@acme/utils";');
+	});
+
+	test("writes JSON to --output", () => {
+		const root = createGraphMonorepo();
+
+		runCliOk(root, "graph", "--format", "json", "--output", "deps.json");
+
+		const graph = readJson(root, "deps.json");
+		expect(graph.cycles).toEqual([]);
+		expect(graph.workspaces).toContainEqual({
+			name: "@acme/web",
+			type: "app",
+			path: "apps/web",
+			dependencies: ["@acme/ui", "@acme/utils"],
+		});
+		expect(graph.workspaces).toContainEqual({
+			name: "@acme/utils",
+			type: "package",
+			path: "packages/utils",
+			dependencies: [],
+		});
+	});
+
+	test("reports and highlights dependency cycles", () => {
+		const root = createGraphMonorepo();
+		addCycle(root);
+
+		const output = runCliOk(root, "graph");
+		expect(output).toContain("Dependency cycle: @acme/ui → @acme/utils → @acme/ui");
+		expect(output).toContain("linkStyle 3,4 stroke:#e53e3e");
+
+		runCliOk(root, "graph", "--format", "json", "--output", "deps.json");
+		expect(readJson(root, "deps.json").cycles).toEqual([["@acme/ui", "@acme/utils", "@acme/ui"]]);
+	});
+
+	test("rejects unknown formats", () => {
+		const { status, output } = runCli(createGraphMonorepo(), "graph", "--format", "svg");
+
+		expect(status).not.toBe(0);
+		expect(output).toContain("Invalid value 'svg' for --format. Expected one of: mermaid, dot, json");
+	});
+});
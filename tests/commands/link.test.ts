@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createMonorepo, readJson, readText, runCli, runCliOk } from "./cli";
+
+const PLAN_SUMMARY_REGEX = /0 file\(s\) to create, \d+ to modify, 0 to delete/;
+
+/** A web app created without packages, then given a UI package it does not use yet */
+function createUnlinkedMonorepo(): string {
+	const root = createMonorepo("--apps", "web[nextjs]");
+	runCliOk(root, "add", "--package", "ui[ui]");
+	return root;
+}
+
+describe("link", () => {
+	test("adds the dependency and project reference to each app", () => {
+		const root = createMonorepo("--apps", "web[nextjs],api[express]");
+		runCliOk(root, "add", "--package", "utils[utils]");
+
+		const output = runCliOk(root, "link", "utils", "api", "web");
+
+		expect(output).toContain("Linked @acme/utils into api, web");
+		for (const app of ["api", "web"]) {
+			expect(readJson(root, `apps/${app}/package.json`).dependencies).toMatchObject({
+				"@acme/utils": "workspace:*",
+			});
+			expect(readText(root, `apps/${app}/tsconfig.json`)).toContain('"path": "../../packages/utils"');
+		}
+	});
+
+	test("merges what the template renders with a UI package into the app", () => {
+		const root = createUnlinkedMonorepo();
+
+		const output = runCliOk(root, "link", "ui", "web");
+
+		expect(output).toContain("web: src/app/page.tsx (updated)");
+		expect(readText(root, "apps/web/tailwind.config.js")).toContain('"../../packages/ui/src/**/*.{js,ts,jsx,tsx,mdx}"');
+		const page = readText(root, "apps/web/src/app/page.tsx");
+		expect(page).toContain('import { Button } from "@acme/ui";');
+		expect(page).toContain("<Button onClick={() => setCount(count + 1)}>Count: {count}</Button>");
+	});
+
+	test("leaves conflict markers where the merge clashes with local edits", () => {
+		const root = createUnlinkedMonorepo();
+		const pagePath = join(root, "apps/web/src/app/page.tsx");
+		writeFileSync(pagePath, readFileSync(pagePath, "utf-8").replace("Count: {count}", "Clicks: {count}"));
+
+		const output = runCliOk(root, "link", "ui", "web");
+
+		expect(output).toContain("src/app/page.tsx (conflict) - 1 conflicting region(s)");
+		const page = readText(root, "apps/web/src/app/page.tsx");
+		expect(page).toContain("<<<<<<< current");
+		expect(page).toContain("Clicks: {count}");
+		expect(page).toContain(">>>>>>> template nextjs with ui");
+	});
+
+	test("leaves existing links untouched", () => {
+		const root = createMonorepo("--apps", "web[nextjs]", "--packages", "ui[ui]");
+		const page = readText(root, "apps/web/src/app/page.tsx");
+
+		expect(runCliOk(root, "link", "ui", "web")).toContain("web already depends on @acme/ui");
+		expect(readText(root, "apps/web/src/app/page.tsx")).toBe(page);
+	});
+
+	test("only prints the plan with --dry-run", () => {
+		const root = createUnlinkedMonorepo();
+		const packageJson = readText(root, "apps/web/package.json");
+
+		expect(runCliOk(root, "link", "ui", "web", "--dry-run")).toMatch(PLAN_SUMMARY_REGEX);
+		expect(readText(root, "apps/web/package.json")).toBe(packageJson);
+	});
+
+	test("fails on unknown packages and apps", () => {
+		const root = createUnlinkedMonorepo();
+
+		const unknownPackage = runCli(root, "link", "nope", "web");
+		expect(unknownPackage.status).not.toBe(0);
+		expect(unknownPackage.output).toContain("Package 'nope' not found. Available: ui");
+		expect(runCli(root, "link", "ui", "mobile").output).toContain("App 'mobile' not found. Available: web");
+	});
+});
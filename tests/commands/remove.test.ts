@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { appendFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { createMonorepo, readJson, readText, runCli, runCliOk } from "./cli";
+
+const LEFTOVER_IMPORT_REGEX = /apps\/api\/src\/index\.ts:\d+ {2}import \{ slugify \} from "@acme\/utils";/;
+const PLAN_SUMMARY_REGEX = /0 file\(s\) to create, \d+ to modify, \d+ to delete/;
+
+describe("remove", () => {
+	test("deletes a package and every reference to it", () => {
+		const root = createMonorepo("--apps", "web[nextjs],api[hono]", "--packages", "ui[ui],utils[utils]");
+
+		const output = runCliOk(root, "remove", "--package", "utils", "--yes");
+
+		expect(output).toContain("Removed packages/utils");
+		expect(existsSync(join(root, "packages/utils"))).toBe(false);
+		expect(existsSync(join(root, ".bun-monorepo/base/packages/utils"))).toBe(false);
+		expect(readJson(root, "apps/web/package.json").dependencies).not.toHaveProperty("@acme/utils");
+		expect(readJson(root, "apps/api/package.json").dependencies).not.toHaveProperty("@acme/utils");
+		expect(readText(root, "tsconfig.json")).not.toContain("packages/utils");
+		expect(readJson(root, ".bun-monorepo.json").workspaces.map(({ name }: { name: string }) => name)).toEqual([
+			"api",
+			"web",
+			"ui",
+		]);
+	});
+
+	test("lists the imports left to update", () => {
+		const root = createMonorepo("--apps", "api[hono]", "--packages", "utils[utils]");
+		appendFileSync(join(root, "apps/api/src/index.ts"), 'import { slugify } from "@acme/utils";\n');
+
+		const output = runCliOk(root, "rm", "-p", "utils", "-y");
+
+		expect(output).toContain("These files still import @acme/utils");
+		expect(output).toMatch(LEFTOVER_IMPORT_REGEX);
+	});
+
+	test("removes the ORM scripts and Docker Compose file with the db package", () => {
+		const root = createMonorepo("--apps", "api[hono]", "--orm", "drizzle", "--database", "postgresql");
+		expect(existsSync(join(root, "docker-compose.dev.yml"))).toBe(true);
+
+		runCliOk(root, "remove", "--package", "db", "--yes");
+
+		expect(Object.keys(readJson(root, "package.json").scripts)).not.toContain("db:generate");
+		expect(existsSync(join(root, "docker-compose.dev.yml"))).toBe(false);
+		expect(existsSync(join(root, "packages/db"))).toBe(false);
+	});
+
+	test("only prints the plan with --dry-run", () => {
+		const root = createMonorepo("--apps", "web[nextjs]", "--packages", "ui[ui]");
+
+		const output = runCliOk(root, "remove", "--package", "ui", "--yes", "--dry-run");
+
+		expect(output).toMatch(PLAN_SUMMARY_REGEX);
+		expect(existsSync(join(root, "packages/ui"))).toBe(true);
+		expect(readJson(root, "apps/web/package.json").dependencies).toHaveProperty("@acme/ui");
+	});
+
+	test("names the available workspaces when the one given does not exist", () => {
+		const root = createMonorepo("--apps", "web[nextjs],api[hono]");
+
+		const { status, output } = runCli(root, "remove", "--app", "mobile", "--yes");
+
+		expect(status).toBe(1);
+		expect(output).toContain("App 'mobile' not found. Available: api, web");
+	});
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { appendFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { createMonorepo, readJson, readText, runCli, runCliOk } from "./cli";
+
+describe("rename", () => {
+	test("moves a package and rewrites its dependents, references and imports", () => {
+		const root = createMonorepo("--apps", "web[nextjs]", "--packages", "ui[ui],utils[utils]");
+		appendFileSync(join(root, "apps/web/src/app/page.tsx"), 'import { slugify } from "@acme/utils";\n');
+
+		const output = runCliOk(root, "rename", "--package", "utils", "shared");
+
+		expect(output).toContain("Renamed packages/utils to packages/shared");
+		expect(existsSync(join(root, "packages/utils"))).toBe(false);
+		expect(readJson(root, "packages/shared/package.json").name).toBe("@acme/shared");
+		expect(readJson(root, "apps/web/package.json").dependencies).toMatchObject({ "@acme/shared": "workspace:*" });
+		expect(readJson(root, "apps/web/package.json").dependencies).not.toHaveProperty("@acme/utils");
+		expect(readText(root, "tsconfig.json")).toContain('"path": "packages/shared"');
+		expect(readText(root, "apps/web/src/app/page.tsx")).toContain('import { slugify } from "@acme/shared";');
+	});
+
+	test("rewrites the Tailwind content globs pointing at a renamed UI package", () => {
+		const root = createMonorepo("--apps", "web[nextjs]", "--packages", "ui[ui]");
+
+		runCliOk(root, "rename", "-p", "ui", "design");
+
+		const config = readText(root, "apps/web/tailwind.config.js");
+		expect(config).toContain('"../../packages/design/src/**/*.{js,ts,jsx,tsx,mdx}"');
+		expect(config).not.toContain("packages/ui/");
+	});
+
+	test("moves an app with its manifest record and upgrade base", () => {
+		const root = createMonorepo("--apps", "web[nextjs]", "--packages", "ui[ui]");
+
+		runCliOk(root, "mv", "-a", "web", "site");
+
+		expect(readJson(root, "apps/site/package.json").name).toBe("@acme/site");
+		expect(readJson(root, ".bun-monorepo.json").workspaces[0]).toMatchObject({ name: "site", path: "apps/site" });
+		expect(existsSync(join(root, ".bun-monorepo/base/apps/site"))).toBe(true);
+		expect(runCliOk(root, "upgrade", "site")).toContain("already up to date");
+	});
+
+	test("refuses names already taken", () => {
+		const root = createMonorepo("--apps", "web[nextjs]", "--packages", "ui[ui],utils[utils]");
+
+		expect(runCli(root, "rename", "-p", "ui", "utils").output).toContain("packages/utils already exists");
+		expect(runCli(root, "rename", "-p", "ui", "web").output).toContain("Another workspace is already named @acme/web");
+		expect(existsSync(join(root, "packages/ui"))).toBe(true);
+	});
+
+	test("only prints the plan with --dry-run", () => {
+		const root = createMonorepo("--apps", "web[nextjs]", "--packages", "utils[utils]");
+
+		runCliOk(root, "rename", "-p", "utils", "shared", "--dry-run");
+
+		expect(existsSync(join(root, "packages/utils"))).toBe(true);
+		expect(existsSync(join(root, "packages/shared"))).toBe(false);
+	});
+});
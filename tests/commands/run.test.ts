@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import { appendFileSync, existsSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { addScript, createMonorepo, readText, runCli, runCliOk } from "./cli";
+
+const UTILS_FAILED_REGEX = /✗ @acme\/utils \([\d.]+s, exit code 2\)/;
+
+/** web[nextjs] → ui, utils and api[express] → utils, with a "check" script in the given workspaces */
+function createScriptedMonorepo(scripts: Record<string, string>): string {
+	const root = createMonorepo("--apps", "web[nextjs],api[express]", "--packages", "ui[ui],utils[utils]");
+	for (const [workspace, command] of Object.entries(scripts)) addScript(root, workspace, "check", command);
+	return root;
+}
+
+describe("run", () => {
+	test("runs a script in the workspaces defining it, dependencies first", () => {
+		// api only succeeds once utils has finished
+		const root = createScriptedMonorepo({
+			"packages/utils": "sleep 0.3 && touch done",
+			"apps/api": "test -f ../../packages/utils/done && echo api checked",
+		});
+
+		const output = runCliOk(root, "run", "check");
+
+		expect(output).toContain("Running 'check' in 2 workspace(s), dependencies first");
+		expect(output).toContain("@acme/api   │ api checked");
+		expect(output).toContain("Ran 'check' in 2 workspace(s)");
+		expect(output).not.toContain("@acme/web");
+	});
+
+	test("stops at the first failure", () => {
+		const root = createScriptedMonorepo({
+			"packages/utils": "exit 2",
+			"packages/ui": "echo ui checked",
+			"apps/api": "echo api checked",
+		});
+
+		const { status, output } = runCli(root, "run", "check", "--concurrency", "1");
+
+		expect(status).not.toBe(0);
+		expect(output).toMatch(UTILS_FAILED_REGEX);
+		expect(output).toContain("- @acme/api (skipped)");
+		expect(output).toContain("- @acme/ui (skipped)");
+		expect(output).toContain("'check' failed in @acme/utils");
+	});
+
+	test("only skips the dependents of a failure with --continue", () => {
+		const root = createScriptedMonorepo({
+			"packages/utils": "exit 2",
+			"packages/ui": "echo ui checked",
+			"apps/api": "echo api checked",
+		});
+
+		const { status, output } = runCli(root, "run", "check", "--concurrency", "1", "--continue");
+
+		expect(status).not.toBe(0);
+		expect(output).toContain("- @acme/api (skipped)");
+		expect(output).toContain("@acme/ui    │ ui checked");
+		expect(output).not.toContain("api checked");
+	});
+
+	test("replays unchanged workspaces and restores dist/ with --cache", () => {
+		const root = createScriptedMonorepo({
+			"packages/utils": "echo utils checked",
+			"apps/api": "mkdir -p dist && echo built > dist/out.txt",
+		});
+		runCliOk(root, "run", "check", "--cache");
+		rmSync(join(root, "apps/api/dist"), { recursive: true });
+
+		const replayed = runCliOk(root, "run", "check", "--cache");
+
+		expect(replayed).toContain("@acme/utils │ cache hit, replaying output");
+		expect(replayed).toContain("@acme/utils │ utils checked");
+		expect(replayed).toContain("Ran 'check' in 2 workspace(s) (2 from cache)");
+		expect(readText(root, "apps/api/dist/out.txt")).toBe("built\n");
+
+		// A change to utils invalidates it and the api depending on it
+		appendFileSync(join(root, "packages/utils/src/index.ts"), "// changed\n");
+		expect(runCliOk(root, "run", "check", "--cache")).toContain("Ran 'check' in 2 workspace(s)\n");
+	});
+
+	test("stores nothing without --cache", () => {
+		const root = createScriptedMonorepo({ "packages/utils": "echo utils checked" });
+
+		runCliOk(root, "run", "check");
+
+		expect(existsSync(join(root, ".cache/tasks"))).toBe(false);
+	});
+});
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { createMonorepo, readJson, readText, runCli, runCliOk } from "./cli";
+
+const { version } = readJson(resolve(import.meta.dir, "../.."), "package.json");
+
+const ENTRY = "apps/api/src/index.ts";
+const BASE_ENTRY = join(".bun-monorepo/base", ENTRY);
+
+/**
+ * Pretend an older template generated the entry file: it becomes both the stored base and, with the given local
+ * change, the current file
+ */
+function ageEntry(root: string, change: (text: string) => string): { template: string; old: string } {
+	const template = readText(root, ENTRY);
+	const old = template.replace('app.get("/",', 'app.get("/old",');
+	writeFileSync(join(root, BASE_ENTRY), old);
+	writeFileSync(join(root, ENTRY), change(old));
+	return { template, old };
+}
+
+describe("upgrade", () => {
+	test("leaves a freshly created monorepo as it is", () => {
+		const root = createMonorepo("--apps", "web[nextjs],api[hono]", "--packages", "ui[ui]");
+
+		const output = runCliOk(root, "upgrade");
+
+		expect(output).toContain("already up to date");
+		expect(output).toContain("0 updated, 0 added, 0 removed, 0 merged, 0 conflict, 0 kept");
+	});
+
+	test("brings template changes into files, keeping local edits", () => {
+		const root = createMonorepo("--apps", "api[hono]");
+		const { template } = ageEntry(root, (text) => `${text}// local edit\n`);
+
+		const output = runCliOk(root, "upgrade", "api");
+
+		expect(output).toContain("src/index.ts (merged)");
+		expect(readText(root, ENTRY)).toBe(`${template}// local edit\n`);
+		expect(readText(root, BASE_ENTRY)).toBe(template);
+		expect(runCliOk(root, "upgrade", "api")).toContain("already up to date");
+	});
+
+	test("writes conflict markers where local edits clash with the template", () => {
+		const root = createMonorepo("--apps", "api[hono]");
+		ageEntry(root, (text) => text.replace('app.get("/old",', 'app.get("/mine",'));
+
+		const output = runCliOk(root, "upgrade");
+		const merged = readText(root, ENTRY);
+
+		expect(output).toContain("1 conflict");
+		expect(merged).toContain('<<<<<<< current\napp.get("/mine",');
+		expect(merged).toContain(`||||||| template ${version}\napp.get("/old",`);
+		expect(merged).toContain('=======\napp.get("/",');
+	});
+
+	test("only prints the changes with --dry-run", () => {
+		const root = createMonorepo("--apps", "api[hono]");
+		const { old } = ageEntry(root, (text) => text);
+
+		expect(runCliOk(root, "upgrade", "--dry-run")).toContain("src/index.ts (updated)");
+		expect(readText(root, ENTRY)).toBe(old);
+	});
+
+	test("fails for workspaces it does not know", () => {
+		const root = createMonorepo("--apps", "api[hono]");
+
+		const { status, output } = runCli(root, "upgrade", "mobile");
+
+		expect(status).toBe(1);
+		expect(output).toContain("Workspace 'mobile' is not recorded in .bun-monorepo.json");
+	});
+});
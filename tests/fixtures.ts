@@ -0,0 +1,31 @@
+/**
+ * Temporary directories holding the files a test needs, removed after each test
+ */
+
+import { afterEach } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+
+const directories: string[] = [];
+
+afterEach(() => {
+	for (const directory of directories.splice(0)) rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * Write files (by path relative to the directory, objects written as JSON) into a new temporary directory
+ */
+export function createFixture(files: Record<string, string | object>): string {
+	const root = mkdtempSync(join(tmpdir(), "cbm-test-"));
+	directories.push(root);
+	writeFixtureFiles(root, files);
+	return root;
+}
+
+export function writeFixtureFiles(root: string, files: Record<string, string | object>): void {
+	for (const [path, content] of Object.entries(files)) {
+		mkdirSync(dirname(join(root, path)), { recursive: true });
+		writeFileSync(join(root, path), typeof content === "string" ? content : `${JSON.stringify(content, null, "\t")}\n`);
+	}
+}
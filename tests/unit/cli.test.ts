@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { addCommand, commands, createCommand, linkCommand } from "../../src/commands";
+import { type CommandDefinition, findCommand, formatCommandHelp, parseArgs } from "../../src/lib/cli";
+
+const testCommand = {
+	name: "test",
+	description: "Command used by the tests",
+	positionals: [{ name: "name", description: "Name" }],
+	flags: {
+		yes: { type: "boolean", alias: "y", description: "Skip questions" },
+		force: { type: "boolean", alias: "f", description: "Overwrite" },
+		name: { type: "string", alias: "n", description: "Workspace name" },
+		count: { type: "number", description: "Count", default: 1 },
+		kind: { type: "string", description: "Kind", choices: ["app", "package"] },
+		tag: { type: "string", description: "Tag", multiple: true },
+	},
+} as const satisfies CommandDefinition;
+
+describe("parseArgs", () => {
+	test("reads long flags, inline values, negations and defaults", () => {
+		const { flags, positionals, help } = parseArgs(testCommand, ["repo", "--name", "web", "--kind=app", "--no-yes"]);
+
+		expect(positionals).toEqual(["repo"]);
+		expect(help).toBe(false);
+		expect(flags).toEqual({ yes: false, force: false, name: "web", count: 1, kind: "app", tag: [] });
+	});
+
+	test("reads grouped short aliases and attached values", () => {
+		const { flags } = parseArgs(testCommand, ["-yf", "-nweb"]);
+
+		expect(flags.yes).toBe(true);
+		expect(flags.force).toBe(true);
+		expect(flags.name).toBe("web");
+	});
+
+	test("collects repeated flags and keeps everything after -- as positionals", () => {
+		const { flags, positionals } = parseArgs(testCommand, ["--tag", "a", "--tag=b", "--", "--not-a-flag"]);
+
+		expect(flags.tag).toEqual(["a", "b"]);
+		expect(positionals).toEqual(["--not-a-flag"]);
+	});
+
+	test("converts numbers and rejects values that are not", () => {
+		expect(parseArgs(testCommand, ["--count", "3"]).flags.count).toBe(3);
+		expect(() => parseArgs(testCommand, ["--count", "three"])).toThrow("Option --count expects a number");
+	});
+
+	test("rejects unknown, repeated, valueless and out-of-choice flags", () => {
+		expect(() => parseArgs(testCommand, ["--colour"])).toThrow("Unknown option --colour for command 'test'");
+		expect(() => parseArgs(testCommand, ["-x"])).toThrow("Unknown option -x");
+		expect(() => parseArgs(testCommand, ["--name", "a", "--name", "b"])).toThrow("specified more than once");
+		expect(() => parseArgs(testCommand, ["--name"])).toThrow("Option --name requires a value");
+		expect(() => parseArgs(testCommand, ["--name", "--yes"])).toThrow("Option --name requires a value");
+		expect(() => parseArgs(testCommand, ["--kind", "lib"])).toThrow("Expected one of: app, package");
+		expect(() => parseArgs(testCommand, ["--no-name"])).toThrow("Option --name cannot be negated");
+	});
+
+	test("checks positionals unless help is asked for", () => {
+		expect(() => parseArgs(testCommand, ["a", "b"])).toThrow("Unexpected argument: b");
+		expect(() => parseArgs(linkCommand, ["ui"])).toThrow("Missing required argument: apps");
+		expect(parseArgs(linkCommand, ["ui", "web", "mobile"]).positionals).toEqual(["ui", "web", "mobile"]);
+		expect(parseArgs(linkCommand, ["-h"]).help).toBe(true);
+	});
+
+	test("points to the command help in usage errors", () => {
+		expect(() => parseArgs(createCommand, ["--linting", "tslint"])).toThrow(
+			"Run 'create-bun-monorepo create --help' for usage.",
+		);
+	});
+});
+
+describe("commands", () => {
+	test("are found by name or alias", () => {
+		expect(findCommand(commands, "add")).toBe(addCommand);
+		const definitions: readonly CommandDefinition[] = commands;
+		for (const command of definitions) {
+			for (const alias of command.aliases ?? []) expect(findCommand(definitions, alias)).toBe(command);
+		}
+		expect(findCommand(commands, "deploy")).toBeUndefined();
+	});
+
+	test("have help listing every flag", () => {
+		for (const command of commands) {
+			const help = formatCommandHelp(command);
+			expect(help).toStartWith(`Usage: create-bun-monorepo ${command.name}`);
+			for (const name of Object.keys(command.flags)) expect(help).toContain(`--${name}`);
+		}
+	});
+
+	test("wrap bare value names only", () => {
+		const help = formatCommandHelp(createCommand);
+
+		expect(help).toContain("--apps <apps>");
+		expect(help).toContain("--scope @scope");
+		expect(help).toContain("--set <app|package>.<name>.<question>=<value>");
+		expect(help).toContain("--template-dir [namespace=]path");
+		expect(help).not.toContain("<<");
+		expect(help).not.toContain("<[");
+	});
+});
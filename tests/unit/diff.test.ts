@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { createUnifiedDiff, diffLines, mergeThreeWay, splitLines } from "../../src/utils/diff";
+
+const base = "a\nb\nc\nd\ne\n";
+
+describe("diffLines", () => {
+	test("keeps the longest common subsequence", () => {
+		expect(diffLines(["a", "b"], ["b", "c"])).toEqual([
+			{ type: "delete", line: "a" },
+			{ type: "equal", line: "b" },
+			{ type: "insert", line: "c" },
+		]);
+	});
+
+	test("splits lines without the empty one after the last newline", () => {
+		expect(splitLines("a\r\nb\n")).toEqual(["a", "b"]);
+		expect(splitLines("")).toEqual([]);
+	});
+});
+
+describe("createUnifiedDiff", () => {
+	test("prints hunks with line numbers", () => {
+		expect(createUnifiedDiff("a\nb\nc\n", "a\nB\nc\n", "old", "new")).toBe(
+			"--- old\n+++ new\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n",
+		);
+	});
+
+	test("is empty for identical texts", () => {
+		expect(createUnifiedDiff(base, base)).toBe("");
+	});
+});
+
+describe("mergeThreeWay", () => {
+	test("applies the changes of both sides when they do not overlap", () => {
+		expect(mergeThreeWay(base, "a\nB\nc\nd\ne\n", "a\nb\nc\nd\nE\n")).toEqual({
+			text: "a\nB\nc\nd\nE\n",
+			conflicts: 0,
+		});
+	});
+
+	test("accepts the same change made on both sides", () => {
+		expect(mergeThreeWay(base, "a\nB\nc\nd\ne\n", "a\nB\nc\nd\ne\n")).toEqual({
+			text: "a\nB\nc\nd\ne\n",
+			conflicts: 0,
+		});
+	});
+
+	test("writes diff3 conflict markers with the labels of each side", () => {
+		const labels = { ours: "yours", base: "template 1.0.0", theirs: "template 1.1.0" };
+
+		expect(mergeThreeWay(base, "a\nB\nc\nd\ne\n", "a\nX\nc\nd\ne\n", labels)).toEqual({
+			text: "a\n<<<<<<< yours\nB\n||||||| template 1.0.0\nb\n=======\nX\n>>>>>>> template 1.1.0\nc\nd\ne\n",
+			conflicts: 1,
+		});
+	});
+
+	test("keeps lines added at the end of a file by one side", () => {
+		expect(mergeThreeWay(base, `${base}f\n`, base).text).toBe(`${base}f\n`);
+		expect(mergeThreeWay(base, base, `${base}f\n`).text).toBe(`${base}f\n`);
+	});
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { renderTemplateFiles } from "../../src/utils/file";
+import { createFixture } from "../fixtures";
+
+const context = { name: "web", scope: "acme", orm: { type: undefined }, packages: [] };
+const read = (root: string, path: string) => readFileSync(join(root, path), "utf-8");
+
+describe("renderTemplateFiles", () => {
+	test("renders .hbs files without their suffix and copies other files verbatim", async () => {
+		const root = createFixture({
+			"package.json.hbs": '{ "name": "@{{scope}}/{{name}}" }\n',
+			"README.md": "# {{name}}\n",
+			"src/main.ts.hbs": "{{> banner}}\n",
+		});
+		const partialsPath = createFixture({ "banner.hbs": "// {{name | pascalCase}} app\n" });
+
+		await renderTemplateFiles(root, context, { partialsPath });
+
+		expect(read(root, "package.json")).toBe('{ "name": "@acme/web" }\n');
+		expect(read(root, "README.md")).toBe("# {{name}}\n");
+		expect(read(root, "src/main.ts")).toBe("// Web app\n");
+		expect(existsSync(join(root, "package.json.hbs"))).toBe(false);
+	});
+
+	test("removes the files and folders whose condition does not hold", async () => {
+		const root = createFixture({
+			"src/db.ts.hbs": "export const db = {{orm.type}};\n",
+			"src/mock-data.ts": "export const users = [];\n",
+			"pages/index.tsx": "",
+		});
+
+		await renderTemplateFiles(
+			root,
+			{ ...context, answers: { router: "app" } },
+			{
+				conditions: { "src/db.ts.hbs": "orm.type", "src/mock-data.ts": "!orm.type", pages: "answers.router == pages" },
+			},
+		);
+
+		expect(existsSync(join(root, "src/db.ts"))).toBe(false);
+		expect(existsSync(join(root, "src/db.ts.hbs"))).toBe(false);
+		expect(existsSync(join(root, "pages"))).toBe(false);
+		expect(read(root, "src/mock-data.ts")).toBe("export const users = [];\n");
+	});
+
+	test("renders variables in paths, moving renamed folders, and restores dotfiles", async () => {
+		const root = createFixture({
+			"src/{{name}}/{{name | pascalCase}}.tsx": "export {};\n",
+			"src/app/[id]/page.tsx": "export {};\n",
+			_gitignore: "node_modules\n",
+			_npmrc: "save-exact=true\n",
+		});
+
+		await renderTemplateFiles(root, { ...context, name: "user-list" });
+
+		expect(read(root, "src/user-list/UserList.tsx")).toBe("export {};\n");
+		expect(existsSync(join(root, "src/{{name}}"))).toBe(false);
+		expect(existsSync(join(root, "src/app/[id]/page.tsx"))).toBe(true);
+		expect(read(root, ".gitignore")).toBe("node_modules\n");
+		expect(existsSync(join(root, ".npmrc"))).toBe(true);
+		expect(existsSync(join(root, "_gitignore"))).toBe(false);
+	});
+
+	test("only renders the given template files", async () => {
+		const root = createFixture({
+			"package.json.hbs": '{ "name": "{{name}}" }\n',
+			"notes.hbs": "{{draft}}\n",
+			_gitignore: "dist\n",
+		});
+
+		await renderTemplateFiles(root, context, { files: ["package.json.hbs"] });
+
+		expect(read(root, "package.json")).toBe('{ "name": "web" }\n');
+		expect(read(root, "notes.hbs")).toBe("{{draft}}\n");
+		expect(read(root, "_gitignore")).toBe("dist\n");
+	});
+
+	test("names the file that fails to render", async () => {
+		const root = createFixture({ "src/index.ts.hbs": "{{#if orm.type}}\n" });
+
+		await expect(renderTemplateFiles(root, context)).rejects.toThrow(
+			"Could not render src/index.ts.hbs: {{#if orm.type}} is never closed",
+		);
+	});
+});
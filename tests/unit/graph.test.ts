@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { buildWorkspaceGraph, findCycles, findDependents, sortTopologically } from "../../src/lib/graph";
+import type { WorkspaceInfo } from "../../src/lib/workspaces";
+
+function workspace(name: string, dependencies: Record<string, string> = {}): WorkspaceInfo {
+	const type = name === "web" || name === "api" ? "app" : "package";
+	const path = `${type === "app" ? "apps" : "packages"}/${name}`;
+	return {
+		name,
+		type,
+		path,
+		absolutePath: `/repo/${path}`,
+		packageName: `@acme/${name}`,
+		packageJson: { name: `@acme/${name}`, dependencies },
+	};
+}
+
+const workspaces = [
+	workspace("web", { "@acme/ui": "workspace:*", react: "^19" }),
+	workspace("api", { "@acme/db": "workspace:^", "@acme/utils": "workspace:*" }),
+	workspace("ui", { "@acme/utils": "workspace:*" }),
+	workspace("db", { "@acme/utils": "^1.0.0" }),
+	workspace("utils"),
+];
+
+const names = (list: WorkspaceInfo[]) => list.map((item) => item.name);
+
+describe("buildWorkspaceGraph", () => {
+	test("keeps only workspace: dependencies on other workspaces", () => {
+		const graph = buildWorkspaceGraph(workspaces);
+
+		expect(Object.fromEntries(graph.dependencies)).toEqual({
+			"@acme/web": ["@acme/ui"],
+			"@acme/api": ["@acme/db", "@acme/utils"],
+			"@acme/ui": ["@acme/utils"],
+			"@acme/db": [],
+			"@acme/utils": [],
+		});
+	});
+});
+
+describe("sortTopologically", () => {
+	test("puts every workspace after its dependencies", () => {
+		const sorted = names(sortTopologically(buildWorkspaceGraph(workspaces)));
+
+		expect(sorted.indexOf("utils")).toBeLessThan(sorted.indexOf("ui"));
+		expect(sorted.indexOf("ui")).toBeLessThan(sorted.indexOf("web"));
+		expect(sorted.indexOf("db")).toBeLessThan(sorted.indexOf("api"));
+		expect(sorted).toHaveLength(workspaces.length);
+	});
+
+	test("orders a selection without adding the workspaces it depends on", () => {
+		const graph = buildWorkspaceGraph(workspaces);
+		const selection = workspaces.filter((item) => item.name === "web" || item.name === "utils");
+
+		expect(names(sortTopologically(graph, selection))).toEqual(["utils", "web"]);
+	});
+
+	test("refuses dependency cycles", () => {
+		const graph = buildWorkspaceGraph([
+			workspace("ui", { "@acme/utils": "workspace:*" }),
+			workspace("utils", { "@acme/ui": "workspace:*" }),
+		]);
+
+		expect(() => sortTopologically(graph)).toThrow(
+			"Dependency cycle between workspaces: @acme/ui → @acme/utils → @acme/ui",
+		);
+	});
+});
+
+describe("findCycles", () => {
+	test("lists each cycle from its first package name back to it", () => {
+		const graph = buildWorkspaceGraph([
+			workspace("a", { "@acme/b": "workspace:*" }),
+			workspace("b", { "@acme/c": "workspace:*" }),
+			workspace("c", { "@acme/a": "workspace:*" }),
+			workspace("d", { "@acme/d": "workspace:*" }),
+		]);
+
+		expect(findCycles(graph)).toEqual([
+			["@acme/a", "@acme/b", "@acme/c", "@acme/a"],
+			["@acme/d", "@acme/d"],
+		]);
+		expect(findCycles(buildWorkspaceGraph(workspaces))).toEqual([]);
+	});
+});
+
+describe("findDependents", () => {
+	test("adds every workspace depending on the given ones, transitively", () => {
+		const graph = buildWorkspaceGraph(workspaces);
+
+		expect([...findDependents(graph, ["@acme/utils"])].sort()).toEqual([
+			"@acme/api",
+			"@acme/ui",
+			"@acme/utils",
+			"@acme/web",
+		]);
+		expect([...findDependents(graph, ["@acme/db"])].sort()).toEqual(["@acme/api", "@acme/db"]);
+	});
+});
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { modifyJsonc, parseJsonc, patchJson } from "../../src/utils/jsonc";
+
+const tsconfig = `{
+	// Shared options
+	"compilerOptions": {
+		"strict": true, // keep
+		"paths": { "@/*": ["./src/*"] },
+	},
+	"references": [{ "path": "../ui" }],
+}
+`;
+
+describe("parseJsonc", () => {
+	test("allows comments and trailing commas", () => {
+		expect(parseJsonc<object>(tsconfig)).toEqual({
+			compilerOptions: { strict: true, paths: { "@/*": ["./src/*"] } },
+			references: [{ path: "../ui" }],
+		});
+	});
+
+	test("reports where invalid JSON stops", () => {
+		expect(() => parseJsonc('{ "a": }')).toThrow("Invalid JSON at offset 7");
+	});
+});
+
+describe("modifyJsonc", () => {
+	test("adds a property after its siblings, keeping comments and trailing commas", () => {
+		expect(modifyJsonc(tsconfig, ["compilerOptions", "target"], "ES2022")).toBe(`{
+	// Shared options
+	"compilerOptions": {
+		"strict": true, // keep
+		"paths": { "@/*": ["./src/*"] },
+		"target": "ES2022",
+	},
+	"references": [{ "path": "../ui" }],
+}
+`);
+	});
+
+	test("appends to a one-line array on the same line", () => {
+		expect(modifyJsonc(tsconfig, ["references", 1], { path: "../utils" })).toContain(
+			'"references": [{ "path": "../ui" }, { "path": "../utils" }],',
+		);
+	});
+
+	test("removes a property with its comment", () => {
+		const modified = modifyJsonc(tsconfig, ["compilerOptions", "strict"], undefined);
+
+		expect(modified).not.toContain("strict");
+		expect(modified).not.toContain("// keep");
+		expect(parseJsonc<object>(modified)).toEqual({
+			compilerOptions: { paths: { "@/*": ["./src/*"] } },
+			references: [{ path: "../ui" }],
+		});
+	});
+
+	test("uses the indentation of the document", () => {
+		expect(modifyJsonc('{\n  "name": "x"\n}\n', ["version"], "1.0.0")).toBe(
+			'{\n  "name": "x",\n  "version": "1.0.0"\n}\n',
+		);
+	});
+});
+
+describe("patchJson", () => {
+	test("leaves a document holding the value untouched", () => {
+		const text = '{\n\t"b": 2,\n\t"a": [1, 2]\n}\n';
+		expect(patchJson(text, { a: [1, 2], b: 2 })).toBe(text);
+	});
+
+	test("renames a key in place, keeping its value and comment", () => {
+		const patched = patchJson(tsconfig, {
+			compilerOptions: { strict: true, alias: { "@/*": ["./src/*"] } },
+			references: [{ path: "../ui" }],
+		});
+
+		expect(patched).toBe(tsconfig.replace('"paths"', '"alias"'));
+	});
+
+	test("edits only the values that changed", () => {
+		const text = '{\n\t// Name\n\t"name": "@acme/web",\n\t"dependencies": { "react": "^19" }\n}\n';
+		const patched = patchJson(text, { name: "@acme/site", dependencies: { react: "^19", "@acme/ui": "workspace:*" } });
+
+		expect(patched).toBe(
+			'{\n\t// Name\n\t"name": "@acme/site",\n\t"dependencies": { "react": "^19", "@acme/ui": "workspace:*" }\n}\n',
+		);
+	});
+});
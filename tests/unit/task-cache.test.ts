@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { existsSync, readFileSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { buildWorkspaceGraph } from "../../src/lib/graph";
+import { TaskCache } from "../../src/lib/task-cache";
+import { findWorkspaces } from "../../src/lib/workspaces";
+import { createFixture, writeFixtureFiles } from "../fixtures";
+
+const output = [{ stream: "stdout" as const, line: "built" }];
+
+function createMonorepo(): string {
+	return createFixture({
+		"package.json": { name: "acme", workspaces: ["apps/*", "packages/*"] },
+		"apps/web/package.json": {
+			name: "@acme/web",
+			scripts: { build: "tsc" },
+			dependencies: { "@acme/utils": "workspace:*" },
+		},
+		"apps/web/src/index.ts": "export {};\n",
+		"apps/web/dist/index.js": "built web\n",
+		"packages/utils/package.json": { name: "@acme/utils", main: "src/index.ts", scripts: { build: "tsc" } },
+		"packages/utils/src/index.ts": "export const one = 1;\n",
+	});
+}
+
+async function createCache(root: string, script = "build") {
+	const workspaces = await findWorkspaces(root);
+	const web = workspaces.find((workspace) => workspace.name === "web");
+	if (!web) throw new Error("web not found");
+	return { cache: new TaskCache(root, buildWorkspaceGraph(workspaces), script), web };
+}
+
+describe("TaskCache", () => {
+	test("replays the output and restores dist/ of a run with the same inputs", async () => {
+		const root = createMonorepo();
+		const first = await createCache(root);
+		expect(await first.cache.restore(first.web)).toBeNull();
+		expect(await first.cache.save(first.web, output)).toBe(true);
+
+		rmSync(join(root, "apps/web/dist"), { recursive: true });
+		const second = await createCache(root);
+
+		expect(await second.cache.restore(second.web)).toEqual(output);
+		expect(readFileSync(join(root, "apps/web/dist/index.js"), "utf-8")).toBe("built web\n");
+	});
+
+	test("misses when the workspace or a workspace it depends on changes", async () => {
+		const root = createMonorepo();
+		const { cache, web } = await createCache(root);
+		await cache.save(web, output);
+
+		writeFixtureFiles(root, { "packages/utils/src/index.ts": "export const one = 2;\n" });
+		const afterDependency = await createCache(root);
+		expect(await afterDependency.cache.restore(afterDependency.web)).toBeNull();
+
+		await afterDependency.cache.save(afterDependency.web, output);
+		writeFixtureFiles(root, { "apps/web/src/index.ts": "export const changed = true;\n" });
+		const afterSource = await createCache(root);
+		expect(await afterSource.cache.restore(afterSource.web)).toBeNull();
+	});
+
+	test("ignores build output and caches each script separately", async () => {
+		const root = createMonorepo();
+		const { cache, web } = await createCache(root);
+		await cache.save(web, output);
+
+		writeFixtureFiles(root, { "apps/web/dist/extra.js": "stale\n", "apps/web/tsconfig.tsbuildinfo": "{}" });
+		const rebuilt = await createCache(root);
+		expect(await rebuilt.cache.restore(rebuilt.web)).toEqual(output);
+
+		const lint = await createCache(root, "lint");
+		expect(await lint.cache.restore(lint.web)).toBeNull();
+	});
+
+	test("does not store runs whose output cannot be restored", async () => {
+		const root = createMonorepo();
+		writeFixtureFiles(root, { "apps/web/.next/BUILD_ID": "1" });
+		const { cache, web } = await createCache(root);
+
+		expect(await cache.save(web, output)).toBe(false);
+		expect(existsSync(join(root, ".cache/tasks/apps/web/build"))).toBe(false);
+	});
+});
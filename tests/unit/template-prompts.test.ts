@@ -0,0 +1,135 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { askTemplatePrompts, checkUnusedAnswerPresets, parseAnswerPresets } from "../../src/lib/template-prompts";
+import { setTemplateDirectories, validateTemplateManifest } from "../../src/templates";
+import type { AppTemplate } from "../../src/types";
+import { createFixture } from "../fixtures";
+
+beforeAll(() => {
+	// Keep the user's own template folders out of the tests
+	process.env.XDG_CONFIG_HOME = mkdtempSync(join(tmpdir(), "cbm-config-"));
+});
+
+const app = (template: string, name = "web"): AppTemplate => ({ name, template, category: "frontend" });
+
+async function answer(workspace: AppTemplate, values: string[]) {
+	const presets = parseAnswerPresets(values);
+	await askTemplatePrompts("app", workspace, presets, false);
+	checkUnusedAnswerPresets(presets);
+	return workspace.answers;
+}
+
+describe("parseAnswerPresets", () => {
+	test("groups answers by workspace, keeping = in values", () => {
+		const presets = parseAnswerPresets(["app.web.router=pages", "app.web.title=a=b", "package.ui.theme=dark"]);
+
+		expect([...presets].map(([key, answers]) => [key, Object.fromEntries(answers)])).toEqual([
+			["app.web", { router: "pages", title: "a=b" }],
+			["package.ui", { theme: "dark" }],
+		]);
+	});
+
+	test("rejects answers that do not name a workspace and question", () => {
+		expect(() => parseAnswerPresets(["web.router=pages"])).toThrow("Invalid --set 'web.router=pages'");
+		expect(() => parseAnswerPresets(["app.web.router"])).toThrow("Expected app.<name>.<question>=<value>");
+	});
+});
+
+describe("askTemplatePrompts", () => {
+	test("uses the defaults and skips questions whose condition does not hold", async () => {
+		expect(await answer(app("nextjs"), [])).toEqual({ router: "app" });
+		expect(await answer(app("nestjs", "api"), [])).toEqual({ fastify: false });
+		expect(await answer(app("hono", "api"), [])).toBeUndefined();
+	});
+
+	test("converts --set answers to the type of their question", async () => {
+		expect(await answer(app("nextjs"), ["app.web.router=pages", "app.web.apiRoute=no"])).toEqual({
+			router: "pages",
+			apiRoute: false,
+		});
+		expect(await answer(app("nestjs", "api"), ["app.api.fastify=yes"])).toEqual({ fastify: true });
+	});
+
+	test("rejects answers outside the choices, pattern or question list", async () => {
+		await expect(answer(app("nextjs"), ["app.web.router=hash"])).rejects.toThrow(
+			"--set app.web.router: expected one of app, pages",
+		);
+		await expect(answer(app("nestjs", "api"), ["app.api.fastify=maybe"])).rejects.toThrow("expected true or false");
+		await expect(answer(app("react-native-expo", "mobile"), ["app.mobile.bundleIdentifier=not an id"])).rejects.toThrow(
+			"Use reverse domain notation",
+		);
+		await expect(answer(app("nextjs"), ["app.web.bundler=turbo"])).rejects.toThrow(
+			"template nextjs has no question 'bundler' (questions: router, apiRoute)",
+		);
+	});
+
+	test("checks number answers against their bounds", async () => {
+		const templates = createFixture({
+			"apps/worker/template.json": {
+				name: "Worker",
+				description: "Queue worker",
+				category: "backend",
+				prompts: [{ name: "concurrency", type: "number", message: "Jobs at once?", default: 2, min: 1, max: 8 }],
+			},
+		});
+		setTemplateDirectories([`acme=${templates}`]);
+
+		try {
+			expect(await answer(app("acme/worker", "jobs"), ["app.jobs.concurrency=4"])).toEqual({ concurrency: 4 });
+			await expect(answer(app("acme/worker", "jobs"), ["app.jobs.concurrency=9"])).rejects.toThrow(
+				"--set app.jobs.concurrency: Must be at most 8",
+			);
+			await expect(answer(app("acme/worker", "jobs"), ["app.jobs.concurrency=0"])).rejects.toThrow(
+				"Must be at least 1",
+			);
+		} finally {
+			setTemplateDirectories([]);
+		}
+	});
+
+	test("rejects answers for workspaces that are not being created", async () => {
+		await expect(answer(app("nextjs"), ["app.site.router=pages"])).rejects.toThrow(
+			"--set app.site.…: no app named 'site' is being created",
+		);
+	});
+});
+
+describe("template prompts in manifests", () => {
+	const validate = (prompts: object[]) =>
+		validateTemplateManifest({ name: "X", description: "X", category: "frontend", prompts }, "template.json");
+
+	test("accept string choices and bounds on number questions", () => {
+		expect(
+			validate([
+				{ name: "router", type: "select", message: "Router?", choices: ["app", "pages"] },
+				{ name: "workers", type: "number", message: "Workers?", default: 2, min: 1, max: 8 },
+			]).prompts,
+		).toEqual([
+			{
+				name: "router",
+				type: "select",
+				message: "Router?",
+				choices: [
+					{ title: "app", value: "app" },
+					{ title: "pages", value: "pages" },
+				],
+			},
+			{ name: "workers", type: "number", message: "Workers?", default: 2, min: 1, max: 8 },
+		]);
+	});
+
+	test("reject defaults, bounds and conditions that cannot apply", () => {
+		const router = { name: "router", type: "select", message: "Router?", choices: ["app", "pages"] };
+
+		expect(() => validate([{ ...router, default: "hash" }])).toThrow("prompts[0].default must be one of the choices");
+		expect(() => validate([{ name: "title", type: "text", message: "Title?", min: 1 }])).toThrow(
+			"prompts[0].min must be a number on a number question",
+		);
+		expect(() =>
+			validate([{ name: "i18n", type: "confirm", message: "i18n?", when: "router == pages" }, router]),
+		).toThrow("prompts[0].when must be a condition on an earlier question");
+		expect(() => validate([router, router])).toThrow("prompts[1].name 'router' is used twice");
+	});
+});
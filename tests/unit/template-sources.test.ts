@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { resolveTemplateSource } from "../../src/lib/template-sources";
+import { getDefaultWorkspaceName, getTemplateInfo, parseTemplateSource } from "../../src/templates";
+import { createFixture, writeFixtureFiles } from "../fixtures";
+
+const CHECKSUM_REGEX = /^sha256-[0-9a-f]{64}$/;
+
+const manifest = { name: "Fastify", description: "Fastify server", category: "backend" };
+
+beforeAll(() => {
+	// Fetch into an empty cache, without the user's own template folders
+	process.env.XDG_CACHE_HOME = mkdtempSync(join(tmpdir(), "cbm-cache-"));
+	process.env.XDG_CONFIG_HOME = mkdtempSync(join(tmpdir(), "cbm-config-"));
+	spyOn(console, "log").mockImplementation(() => {});
+});
+
+function git(directory: string, ...args: string[]): string {
+	return execFileSync("git", ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args], {
+		cwd: directory,
+		encoding: "utf-8",
+	});
+}
+
+describe("parseTemplateSource", () => {
+	test("reads git and tarball sources and leaves template keys alone", () => {
+		expect(parseTemplateSource("git+https://example.com/templates.git#v2:apps/fastify")).toEqual({
+			kind: "git",
+			url: "https://example.com/templates.git",
+			ref: "v2",
+			path: "apps/fastify",
+		});
+		expect(parseTemplateSource("git+file:///srv/fastify.git")).toEqual({
+			kind: "git",
+			url: "file:///srv/fastify.git",
+			ref: undefined,
+			path: undefined,
+		});
+		expect(parseTemplateSource("file:./fastify-1.0.0.tgz#template")).toEqual({
+			kind: "tarball",
+			file: "./fastify-1.0.0.tgz",
+			path: "template",
+		});
+		expect(parseTemplateSource("acme/fastify")).toBeUndefined();
+	});
+
+	test("names workspaces after the template folder, repository or tarball", () => {
+		expect(getDefaultWorkspaceName("acme/fastify")).toBe("fastify");
+		expect(getDefaultWorkspaceName("git+file:///srv/templates.git#v2:fastify")).toBe("fastify");
+		expect(getDefaultWorkspaceName("git+https://example.com/service.git")).toBe("service");
+		expect(getDefaultWorkspaceName("./worker.tar.gz")).toBe("worker");
+	});
+});
+
+describe("resolveTemplateSource", () => {
+	test("extracts a tarball found from the base directory and keys it by its absolute path", async () => {
+		const root = createFixture({
+			"template/template.json": manifest,
+			"template/src/index.ts": "export {};\n",
+			"project/.keep": "",
+		});
+		execFileSync("tar", ["-czf", "fastify.tgz", "template"], { cwd: root });
+
+		const key = await resolveTemplateSource("../fastify.tgz", "apps", join(root, "project"));
+
+		expect(key).toBe(join(root, "fastify.tgz"));
+		expect(getTemplateInfo(key)).toMatchObject({ name: "Fastify", revision: expect.stringMatching(CHECKSUM_REGEX) });
+	});
+
+	test("exports the commit a git ref points to", async () => {
+		const repository = createFixture({ "apps/fastify/template.json": manifest });
+		git(repository, "init", "--quiet");
+		git(repository, "add", ".");
+		git(repository, "commit", "--quiet", "-m", "First");
+		git(repository, "tag", "v1");
+		writeFixtureFiles(repository, { "apps/fastify/template.json": { ...manifest, name: "Fastify 2" } });
+		git(repository, "commit", "--quiet", "-am", "Second");
+		const v1 = git(repository, "rev-parse", "v1").trim();
+
+		const key = await resolveTemplateSource(`git+file://${repository}#v1:fastify`, "apps");
+
+		expect(getTemplateInfo(key)).toMatchObject({ name: "Fastify", revision: v1 });
+		await expect(resolveTemplateSource(`git+file://${repository}#v9:fastify`, "apps")).rejects.toThrow(
+			"Could not find 'v9'",
+		);
+	});
+
+	test("refuses app templates used for packages", async () => {
+		const root = createFixture({ "template.json": manifest });
+		execFileSync("tar", ["-czf", "app.tgz", "template.json"], { cwd: root });
+
+		await expect(resolveTemplateSource(join(root, "app.tgz"), "packages")).rejects.toThrow(
+			"is an app template, it cannot be used for packages",
+		);
+	});
+});
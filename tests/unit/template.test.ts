@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { evaluateCondition, renderPath, renderTemplate } from "../../src/utils/template";
+
+describe("renderTemplate", () => {
+	test("outputs values through filters", () => {
+		expect(
+			renderTemplate("{{name | pascalCase}} {{name | camelCase}} {{name | kebabCase}}", { name: "my-web_app" }),
+		).toBe("MyWebApp myWebApp my-web-app");
+		expect(renderTemplate("@{{scope}}/{{orm.type}}", { scope: "acme", orm: { type: "drizzle" } })).toBe(
+			"@acme/drizzle",
+		);
+	});
+
+	test("leaves no blank line behind block tags on their own line", () => {
+		const template = "a\n{{#if orm.type}}\nimport { db } from 'db';\n{{else}}\nconst db = null;\n{{/if}}\nb\n";
+
+		expect(renderTemplate(template, { orm: { type: "prisma" } })).toBe("a\nimport { db } from 'db';\nb\n");
+		expect(renderTemplate(template, { orm: {} })).toBe("a\nconst db = null;\nb\n");
+	});
+
+	test("compares values with == and !=, quoted or not", () => {
+		const context = { answers: { router: "pages" } };
+
+		expect(renderTemplate('{{#if answers.router == "pages"}}P{{/if}}', context)).toBe("P");
+		expect(renderTemplate("{{#if answers.router != pages}}A{{else}}P{{/if}}", context)).toBe("P");
+		expect(renderTemplate("{{#unless answers.router}}none{{/unless}}", { answers: {} })).toBe("none");
+		expect(evaluateCondition("!orm.type", { orm: {} })).toBe(true);
+	});
+
+	test("repeats each blocks with the item, the outer context and loop variables", () => {
+		const context = { scope: "acme", packages: [{ name: "ui" }, { name: "utils" }] };
+
+		expect(
+			renderTemplate(
+				"{{#each packages}}{{@index}}:@{{scope}}/{{name}}{{#unless @last}}, {{/unless}}{{/each}}",
+				context,
+			),
+		).toBe("0:@acme/ui, 1:@acme/utils");
+		expect(renderTemplate("[\n{{#each items}}\n\t{{this}},\n{{/each}}\n]\n", { items: ["a", "b"] })).toBe(
+			"[\n\ta,\n\tb,\n]\n",
+		);
+		expect(renderTemplate("{{#each items}}{{this}}{{else}}none{{/each}}", { items: [] })).toBe("none");
+	});
+
+	test("includes partials indented like their tag", () => {
+		expect(renderTemplate("{\n\t{{> fields}}\n}\n", {}, { fields: "a: 1,\nb: 2,\n" })).toBe("{\n\ta: 1,\n\tb: 2,\n}\n");
+	});
+
+	test("keeps double braces that are not tags", () => {
+		expect(renderTemplate("<div style={{ margin: 0 }} />", {})).toBe("<div style={{ margin: 0 }} />");
+	});
+
+	test("stops on unknown variables, filters and partials and on unclosed blocks", () => {
+		expect(() => renderTemplate("{{missing}}", {})).toThrow('Unknown template variable "missing"');
+		expect(() => renderTemplate("{{name | upper}}", { name: "x" })).toThrow('Unknown filter "upper"');
+		expect(() => renderTemplate("{{> footer}}", {})).toThrow('Unknown partial "footer"');
+		expect(() => renderTemplate("{{> a}}", {}, { a: "{{> a}}" })).toThrow('Partial "a" includes itself');
+		expect(() => renderTemplate("{{#if x}}", { x: true })).toThrow("{{#if x}} is never closed");
+		expect(() => renderTemplate("{{@index}}", {})).toThrow("only available inside {{#each}}");
+	});
+});
+
+describe("renderPath", () => {
+	test("replaces {{variable}} parts and keeps square brackets", () => {
+		expect(renderPath("src/{{name}}.controller.ts", { name: "orders" })).toBe("src/orders.controller.ts");
+		expect(renderPath("app/[name]/{{name | pascalCase}}.tsx", { name: "my-page" })).toBe("app/[name]/MyPage.tsx");
+		expect(renderPath("app/[...slug]/page.tsx", {})).toBe("app/[...slug]/page.tsx");
+	});
+
+	test("only accepts variables", () => {
+		expect(() => renderPath("{{#if name}}.ts", { name: "x" })).toThrow("Invalid {{#if name}} in a file name");
+		expect(() => renderPath("{{title}}.ts", {})).toThrow('Unknown template variable "title"');
+	});
+});
@@ -0,0 +1,151 @@
+import { afterEach, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { logger } from "../../src/lib/logger";
+import {
+	getTemplateConfig,
+	getTemplateInfo,
+	parseTemplateDirectory,
+	setTemplateDirectories,
+	templateHasCapability,
+	validateTemplateManifest,
+} from "../../src/templates";
+import { createFixture } from "../fixtures";
+
+const manifest = { name: "Fastify", description: "Fastify server", category: "backend" };
+const validate = (value: object) => validateTemplateManifest({ ...manifest, ...value }, "template.json");
+
+beforeAll(() => {
+	// Keep the user's own template folders out of the tests
+	process.env.XDG_CONFIG_HOME = mkdtempSync(join(tmpdir(), "cbm-config-"));
+});
+
+afterEach(() => setTemplateDirectories([]));
+
+describe("validateTemplateManifest", () => {
+	test("fills in the optional fields", () => {
+		expect(validateTemplateManifest(manifest, "template.json")).toEqual({
+			...manifest,
+			capabilities: [],
+			packages: [],
+			port: undefined,
+			files: {},
+			prompts: [],
+		});
+	});
+
+	test("names the file and the field at fault", () => {
+		expect(() => validateTemplateManifest([], "apps/x/template.json")).toThrow(
+			"Invalid apps/x/template.json: expected a JSON object",
+		);
+		expect(() => validate({ name: "" })).toThrow('"name" must be a non-empty string');
+		expect(() => validate({ category: "blank" })).toThrow(
+			'"category" must be one of frontend, mobile, backend, packages',
+		);
+		expect(() => validate({ capabilities: ["ssr"] })).toThrow('"capabilities" must be an array of orm, react, native');
+		expect(() => validate({ port: 70000 })).toThrow('"port" must be an integer between 1 and 65535');
+		expect(() => validate({ framework: "fastify", tags: [] })).toThrow("unknown fields framework, tags");
+	});
+
+	test("ignores the deprecated replacements field with a warning", () => {
+		const warn = spyOn(logger, "warn").mockImplementation(() => {});
+		try {
+			const manifest = validateTemplateManifest(
+				{ name: "X", description: "X", category: "backend", replacements: ["name"] },
+				"legacy/template.json",
+			);
+
+			expect(manifest).not.toHaveProperty("replacements");
+			expect(warn).toHaveBeenCalledTimes(1);
+			expect(warn.mock.calls[0]?.[0]).toContain(
+				'legacy/template.json: "replacements" is deprecated and ignored: only files ending in .hbs are rendered',
+			);
+		} finally {
+			warn.mockRestore();
+		}
+	});
+
+	test("checks file conditions and keeps their paths inside the template", () => {
+		expect(validate({ files: { "src/db.ts.hbs": "orm.type", pages: "answers.router == pages" } }).files).toEqual({
+			"src/db.ts.hbs": "orm.type",
+			pages: "answers.router == pages",
+		});
+		expect(() => validate({ files: { "../secrets": "orm.type" } })).toThrow("must be relative to the template folder");
+		expect(() => validate({ files: { "src/db.ts": "orm.type &&" } })).toThrow("\"files\" condition of 'src/db.ts'");
+	});
+});
+
+describe("getTemplateConfig", () => {
+	test("loads every built-in template from its manifest", () => {
+		const { categories } = getTemplateConfig();
+
+		expect(Object.keys(categories.frontend?.templates ?? {})).toContain("nextjs");
+		expect(Object.keys(categories.backend?.templates ?? {})).toEqual(["express", "hono", "nestjs"]);
+		expect(Object.keys(categories.packages?.templates ?? {})).toContain("ui");
+		expect(getTemplateInfo("hono")?.port).toBeNumber();
+		expect(templateHasCapability("express", "orm")).toBe(true);
+		expect(templateHasCapability("react-vite", "orm")).toBe(false);
+		expect(getTemplateInfo("missing")).toBeUndefined();
+	});
+
+	test("only links package templates that exist", () => {
+		const { categories } = getTemplateConfig();
+		const packageTemplates = Object.keys(categories.packages?.templates ?? {});
+
+		for (const category of Object.values(categories)) {
+			for (const info of Object.values(category.templates)) {
+				for (const pkg of info.packages) expect(packageTemplates).toContain(pkg);
+			}
+		}
+	});
+});
+
+describe("parseTemplateDirectory", () => {
+	test("names the folder's templates after it unless given a namespace", () => {
+		expect(parseTemplateDirectory("./company-templates", "/work")).toEqual({
+			namespace: "company-templates",
+			path: "/work/company-templates",
+		});
+		expect(parseTemplateDirectory("acme=../shared", "/work/repo")).toEqual({ namespace: "acme", path: "/work/shared" });
+		expect(() => parseTemplateDirectory("/srv/My Templates", "/work")).toThrow(
+			"name it explicitly with <namespace>=<path>",
+		);
+	});
+});
+
+describe("setTemplateDirectories", () => {
+	const fastify = { name: "Fastify", description: "Fastify server", category: "backend", packages: ["logger"] };
+	const logger = { name: "Logger", description: "Logging package", category: "packages" };
+
+	test("adds the templates of a folder under its namespace, linking its own packages first", () => {
+		const root = createFixture({
+			"apps/fastify/template.json": fastify,
+			"packages/logger/template.json": logger,
+		});
+		setTemplateDirectories([`acme=${root}`]);
+
+		expect(getTemplateInfo("acme/fastify")).toMatchObject({
+			name: "Fastify",
+			namespace: "acme",
+			packages: ["acme/logger"],
+			path: join(root, "apps/fastify"),
+		});
+		expect(getTemplateInfo("acme/logger")?.path).toBe(join(root, "packages/logger"));
+	});
+
+	test("refuses templates shadowing built-in ones, folders sharing a namespace and unknown packages", () => {
+		const shadowing = createFixture({ "apps/hono/template.json": { ...fastify, packages: [] } });
+		setTemplateDirectories([`acme=${shadowing}`]);
+		expect(() => getTemplateConfig()).toThrow("clashes with the built-in hono template");
+
+		const first = createFixture({ "packages/logger/template.json": logger });
+		const second = createFixture({ "packages/metrics/template.json": { ...logger, name: "Metrics" } });
+		setTemplateDirectories([`acme=${first}`, `acme=${second}`]);
+		expect(() => getTemplateConfig()).toThrow("both use the namespace 'acme'");
+
+		const unlinked = createFixture({ "apps/fastify/template.json": fastify });
+		setTemplateDirectories([`acme=${unlinked}`]);
+		expect(() => getTemplateConfig()).toThrow("unknown package template logger");
+	});
+});
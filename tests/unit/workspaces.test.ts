@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "node:path";
+import {
+	expandWorkspaceGlobs,
+	findMonorepoRoot,
+	findWorkspaces,
+	getWorkspaceGlobFolders,
+	matchWorkspaceGlobs,
+} from "../../src/lib/workspaces";
+import { createFixture } from "../fixtures";
+
+describe("findMonorepoRoot", () => {
+	test("finds the nearest package.json with workspaces at or above a directory", async () => {
+		const root = createFixture({
+			"package.json": { name: "acme", workspaces: ["apps/*"] },
+			"apps/web/package.json": { name: "@acme/web" },
+			"apps/web/src/index.ts": "",
+		});
+
+		expect(await findMonorepoRoot(join(root, "apps/web/src"))).toBe(root);
+		expect(await findMonorepoRoot(root)).toBe(root);
+	});
+
+	test("asks for --cwd outside a monorepo", async () => {
+		const root = createFixture({ "package.json": { name: "single" } });
+
+		await expect(findMonorepoRoot(root)).rejects.toThrow("pass --cwd <path>");
+		await expect(findMonorepoRoot(join(root, "missing"))).rejects.toThrow("does not exist");
+	});
+});
+
+describe("matchWorkspaceGlobs", () => {
+	test("supports *, **, ? and {a,b} with negated globs winning", () => {
+		const patterns = ["apps/*", "services/**", "libs/{core,ui}", "tools/v?", "!services/legacy/*"];
+
+		expect(matchWorkspaceGlobs("apps/web", patterns)).toEqual({ included: true });
+		expect(matchWorkspaceGlobs("apps/web/nested", patterns)).toEqual({ included: false });
+		expect(matchWorkspaceGlobs("services/billing/api", patterns)).toEqual({ included: true });
+		expect(matchWorkspaceGlobs("libs/ui", patterns)).toEqual({ included: true });
+		expect(matchWorkspaceGlobs("libs/data", patterns)).toEqual({ included: false });
+		expect(matchWorkspaceGlobs("tools/v2", patterns)).toEqual({ included: true });
+		expect(matchWorkspaceGlobs("services/legacy/api", patterns)).toEqual({
+			included: false,
+			excludedBy: "!services/legacy/*",
+		});
+	});
+
+	test("ignores ./ prefixes and trailing slashes", () => {
+		expect(matchWorkspaceGlobs("apps/web", ["./apps/*/"]).included).toBe(true);
+	});
+});
+
+describe("getWorkspaceGlobFolders", () => {
+	test("lists the folders whose children are workspaces", () => {
+		expect(
+			getWorkspaceGlobFolders(["apps/*", "./services/*", "libs/**", "tools/{a,b}/*", "!apps/*", "apps/*"]),
+		).toEqual(["apps", "services"]);
+	});
+});
+
+describe("expandWorkspaceGlobs", () => {
+	test("lists the matched directories holding a package.json, skipping excluded and build ones", async () => {
+		const root = createFixture({
+			"apps/web/package.json": {},
+			"apps/notes/README.md": "",
+			"services/billing/api/package.json": {},
+			"services/legacy/api/package.json": {},
+			"services/billing/api/node_modules/dep/package.json": {},
+			"services/billing/dist/package.json": {},
+		});
+
+		expect(await expandWorkspaceGlobs(root, ["apps/*", "services/**", "!services/legacy/*"])).toEqual([
+			"apps/web",
+			"services/billing/api",
+		]);
+	});
+});
+
+describe("findWorkspaces", () => {
+	test("tells apps from packages by folder, else by library entry points", async () => {
+		const root = createFixture({
+			"package.json": { name: "acme", workspaces: ["apps/*", "packages/*", "services/*"] },
+			"apps/web/package.json": { name: "@acme/web", main: "src/index.ts" },
+			"packages/config/package.json": { name: "@acme/config" },
+			"services/api/package.json": { name: "@acme/api", scripts: { start: "bun src/index.ts" } },
+			"services/sdk/package.json": { name: "@acme/sdk", exports: "./src/index.ts" },
+		});
+
+		const workspaces = await findWorkspaces(root);
+
+		expect(workspaces.map(({ path, type, packageName }) => ({ path, type, packageName }))).toEqual([
+			{ path: "apps/web", type: "app", packageName: "@acme/web" },
+			{ path: "services/api", type: "app", packageName: "@acme/api" },
+			{ path: "packages/config", type: "package", packageName: "@acme/config" },
+			{ path: "services/sdk", type: "package", packageName: "@acme/sdk" },
+		]);
+	});
+});